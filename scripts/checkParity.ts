@@ -0,0 +1,37 @@
+// Checks that the preview and the final render agree within
+// PARITY_MEAN_TOLERANCE for a spread of settings. Run with `yarn test`.
+import { DEFAULT_SETTINGS, BUILT_IN_PRESETS, applyPreset } from '../src/utils/presets';
+import { PARITY_MEAN_TOLERANCE, checkPipelineParity, syntheticImage } from '../src/utils/parityHarness';
+import { createMask } from '../src/utils/masks';
+import type { ProcessingSettings } from '../src/utils/imageProcessor';
+
+// Big enough to need several tiles at full size
+const WIDTH = 512;
+const HEIGHT = 384;
+const TILE_SIZE = 256;
+const FACTOR = 4;
+
+const radialMask = createMask('radial', { ...DEFAULT_SETTINGS, brightness: 30, saturation: -30 }, 0);
+
+const cases: [string, ProcessingSettings][] = [
+  ['Defaults', DEFAULT_SETTINGS],
+  ...BUILT_IN_PRESETS.map((preset): [string, ProcessingSettings] => [preset.name, applyPreset(DEFAULT_SETTINGS, preset)]),
+  ['Guided denoise', { ...DEFAULT_SETTINGS, denoiseBackend: 'guided' }],
+  ['Linear light', { ...DEFAULT_SETTINGS, workingSpace: 'linear' }],
+  ['Warm white balance', { ...DEFAULT_SETTINGS, temperature: 4500, tint: 10 }],
+  ['Radial mask', { ...DEFAULT_SETTINGS, masks: [radialMask] }]
+];
+
+const image = syntheticImage(WIDTH, HEIGHT);
+let failed = 0;
+for (const [name, settings] of cases) {
+  const report = await checkPipelineParity(image, settings, FACTOR, TILE_SIZE);
+  if (!report.passed) failed++;
+  console.log(
+    `${report.passed ? 'pass' : 'FAIL'}  ${name.padEnd(20)} mean ${report.meanError.toFixed(2)}  max ${report.maxError}  ` +
+    `${report.psnr === Infinity ? '∞' : report.psnr.toFixed(1)} dB`
+  );
+}
+
+console.log(`${cases.length - failed}/${cases.length} within a mean error of ${PARITY_MEAN_TOLERANCE}`);
+if (failed > 0) process.exit(1);
@@ -1,19 +1,99 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Upload, Download, Sparkles, Image as ImageIcon, Settings, Zap, Info, Eye, Cpu } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Upload, Download, Sparkles, Image as ImageIcon, Settings, Zap, Info, Eye, Cpu, Layers, Workflow, History as HistoryIcon, Spline, Thermometer, Crop } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ImageUploader from './components/ImageUploader';
-import ImagePreview from './components/ImagePreview';
 import EnhancementControls from './components/EnhancementControls';
+import ComparisonViewer from './components/ComparisonViewer';
+import HistogramPanel from './components/HistogramPanel';
+import CurvesEditor from './components/CurvesEditor';
+import WhiteBalanceControls from './components/WhiteBalanceControls';
 import ProcessingModal from './components/ProcessingModal';
-import { ImageProcessor } from './utils/imageProcessor';
-
-export interface EnhancementSettings {
-  sharpening: number;
-  denoising: number;
-  brightness: number;
-  contrast: number;
-  saturation: number;
-  useAI: boolean;
+import ExportPanel from './components/ExportPanel';
+import MetadataPanel from './components/MetadataPanel';
+import BatchQueue from './components/BatchQueue';
+import PipelineEditor from './components/PipelineEditor';
+import HistoryPanel from './components/HistoryPanel';
+import RecentProjects from './components/RecentProjects';
+import MaskPanel from './components/MaskPanel';
+import GeometryControls from './components/GeometryControls';
+import GeometryOverlay from './components/GeometryOverlay';
+import { ImageProcessor, ProcessingSettings } from './utils/imageProcessor';
+import { ProcessingClient, isAbortError } from './utils/processingClient';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  DEFAULT_NAMING_TEMPLATE,
+  ExportSettings,
+  getExportFileName
+} from './utils/exportFormats';
+import {
+  DEFAULT_METADATA_OPTIONS,
+  EMPTY_METADATA,
+  ImageMetadata,
+  MetadataOptions,
+  readMetadata
+} from './utils/metadata';
+import { ExportJob, renderExport } from './utils/exportRenderer';
+import { BatchItem, BatchProcessor } from './utils/batchProcessor';
+import { createZip } from './utils/zip';
+import { DEFAULT_SETTINGS } from './utils/presets';
+import {
+  ProjectEntry,
+  ProjectSource,
+  createProjectSource,
+  deleteProject,
+  getCurrentProjectId,
+  listProjects,
+  loadProject,
+  projectFile,
+  saveProject,
+  toProjectSource
+} from './utils/sessionStore';
+import { ParityReport, checkPreviewParity } from './utils/parityHarness';
+import type { Rect } from './utils/tiling';
+import { Histogram, computeHistogram, createClippingOverlay, readAnalysisPixels } from './utils/histogram';
+import { WhiteBalanceEstimator, estimateWhiteBalance, sampleNeutral } from './utils/whiteBalance';
+import { isRawFile } from './utils/raster';
+import { isStageActive } from './utils/pipeline';
+import {
+  BrushOptions,
+  MaskLayer,
+  MaskPoint,
+  MaskTool,
+  continueMaskEdit,
+  createMaskOverlay,
+  isMaskActive,
+  startMaskEdit
+} from './utils/masks';
+import {
+  AspectPreset,
+  CropRect,
+  DEFAULT_GEOMETRY,
+  FULL_CROP,
+  GeometryTool,
+  applyAffine,
+  cropAspect,
+  geometryMapping,
+  isIdentityGeometry,
+  levelingAngle,
+  straightenGeometry
+} from './utils/geometry';
+import {
+  Snapshot,
+  createHistory,
+  currentState,
+  jumpTo,
+  recordHistory,
+  redo,
+  undo
+} from './utils/history';
+
+export type EnhancementSettings = ProcessingSettings;
+
+// An encoded render held as an object URL
+interface RenderedImage {
+  url: string;
+  type: string;
+  blob: Blob;
 }
 
 interface ImageInfo {
@@ -21,42 +101,365 @@ interface ImageInfo {
   height: number;
   size: number;
   type: string;
+  orientation: number;
 }
 
+// History labels for single-setting changes
+const SETTING_LABELS: Record<keyof EnhancementSettings, string> = {
+  sharpening: 'Sharpening',
+  denoising: 'Noise Reduction',
+  denoiseBackend: 'Denoise Method',
+  temperature: 'Temperature',
+  tint: 'Tint',
+  brightness: 'Brightness',
+  contrast: 'Contrast',
+  saturation: 'Saturation',
+  curves: 'Curves',
+  useAI: 'AI Enhancement',
+  claheTileGrid: 'CLAHE Tile Grid',
+  claheClipLimit: 'CLAHE Clip Limit',
+  upscaleFactor: 'Upscale Factor',
+  upscaleAlgorithm: 'Upscale Algorithm',
+  denoiseModel: 'Denoise Model',
+  upscaleModel: 'Upscale Model',
+  pipeline: 'Pipeline',
+  workingSpace: 'Working Space',
+  colorSpace: 'Output Color Space',
+  demosaic: 'Demosaicing',
+  geometry: 'Crop & Rotate',
+  masks: 'Masks'
+};
+
+const describeSettingsChange = (previous: EnhancementSettings, next: EnhancementSettings): string => {
+  const changed = (Object.keys(SETTING_LABELS) as (keyof EnhancementSettings)[])
+    .filter(key => previous[key] !== next[key]);
+  return changed.length === 1 ? SETTING_LABELS[changed[0]] : 'Adjust Settings';
+};
+
+// Typing in a text field keeps the browser's own undo
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable) ||
+  (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type));
+
 function App() {
+  const [processor] = useState(() => new ProcessingClient());
+  const realtimeAbortRef = useRef<AbortController | null>(null);
+  const enhanceAbortRef = useRef<AbortController | null>(null);
   const [originalImage, setOriginalImage] = useState<File | null>(null);
-  const [enhancedImage, setEnhancedImage] = useState<string | null>(null);
-  const [realtimePreview, setRealtimePreview] = useState<string | null>(null);
+  const [enhancedImage, setEnhancedImage] = useState<RenderedImage | null>(null);
+  const [realtimePreview, setRealtimePreview] = useState<RenderedImage | null>(null);
   const [imageInfo, setImageInfo] = useState<ImageInfo | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isRealtimeProcessing, setIsRealtimeProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
   const [showComparison, setShowComparison] = useState(true);
-  const [settings, setSettings] = useState<EnhancementSettings>({
-    sharpening: 40,
-    denoising: 30,
-    brightness: 5,
-    contrast: 15,
-    saturation: 10,
-    useAI: true,
-  });
+  const [history, setHistory] = useState(() => createHistory<EnhancementSettings>(DEFAULT_SETTINGS));
+  const [snapshots, setSnapshots] = useState<Snapshot<EnhancementSettings>[]>([]);
+  const [project, setProject] = useState<ProjectSource | null>(null);
+  // Render last written for the project, so saves only write a new one
+  const savedResultRef = useRef<{ projectId: string; blob: Blob | null } | null>(null);
+  // Upright pixels of the original at analysis size
+  const [originalPixels, setOriginalPixels] = useState<ImageData | null>(null);
+  const [originalHistogram, setOriginalHistogram] = useState<Histogram | null>(null);
+  const [isPickingWhite, setIsPickingWhite] = useState(false);
+  const [processedHistogram, setProcessedHistogram] = useState<Histogram | null>(null);
+  const [showClipping, setShowClipping] = useState(false);
+  const [clippingOverlay, setClippingOverlay] = useState<string | null>(null);
+  const [selectedMaskId, setSelectedMaskId] = useState<string | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [brush, setBrush] = useState<BrushOptions>({ radius: 0.05, feather: 0.5 });
+  const [showMaskOverlay, setShowMaskOverlay] = useState(true);
+  // Mask being drawn on the image; it enters the history when the drag ends
+  const [maskDraft, setMaskDraft] = useState<MaskLayer | null>(null);
+  const maskDragRef = useRef<{ mask: MaskLayer; start: MaskPoint } | null>(null);
+  const [maskOverlay, setMaskOverlay] = useState<string | null>(null);
+  const [geometryTool, setGeometryTool] = useState<GeometryTool | null>(null);
+  const [aspectPreset, setAspectPreset] = useState<AspectPreset>('free');
+  const [customAspect, setCustomAspect] = useState({ width: 3, height: 2 });
+  // Crop being dragged; it enters the history when the drag ends
+  const [cropDraft, setCropDraft] = useState<CropRect | null>(null);
+  const [straightenLine, setStraightenLine] = useState<{ from: MaskPoint; to: MaskPoint } | null>(null);
+  const straightenRef = useRef<{ from: MaskPoint; to: MaskPoint } | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectEntry[]>([]);
+  const settings = currentState(history);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [metadata, setMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataOptions, setMetadataOptions] = useState<MetadataOptions>(DEFAULT_METADATA_OPTIONS);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const [namingTemplate, setNamingTemplate] = useState(DEFAULT_NAMING_TEMPLATE);
+  const [isZipping, setIsZipping] = useState(false);
+  const [parityReport, setParityReport] = useState<ParityReport | null>(null);
+  const [isCheckingParity, setIsCheckingParity] = useState(false);
+  const [batch] = useState(() => new BatchProcessor((items, running) => {
+    setBatchItems(items);
+    setIsBatchRunning(running);
+  }));
+
+  const updateSettings = useCallback((next: EnhancementSettings, label?: string) => {
+    setHistory(current => {
+      const previous = currentState(current);
+      return recordHistory(current, next, label ?? describeSettingsChange(previous, next));
+    });
+  }, []);
+
+  // Undo/redo shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        setHistory(undo);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        setHistory(redo);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSaveSnapshot = (name: string) => {
+    setSnapshots(current => [
+      ...current,
+      { id: Math.max(0, ...current.map(snapshot => snapshot.id)) + 1, name, state: settings, timestamp: Date.now() }
+    ]);
+  };
+
+  const handleRestoreSnapshot = (id: number) => {
+    const snapshot = snapshots.find(item => item.id === id);
+    if (snapshot) updateSettings(snapshot.state, `Restore ${snapshot.name}`);
+  };
+
+  // White balance is measured on the original, before any processing
+  const handleEstimateWhiteBalance = (estimator: WhiteBalanceEstimator) => {
+    if (!originalPixels) return;
+    setIsPickingWhite(false);
+    updateSettings(
+      { ...settings, ...estimateWhiteBalance(originalPixels, estimator) },
+      estimator === 'gray-world' ? 'Auto White Balance (Gray World)' : 'Auto White Balance (White Patch)'
+    );
+  };
+
+  // While a geometry tool is open the preview shows the whole turned
+  // image, with the crop drawn over it
+  const previewSettings = useMemo(
+    () => geometryTool ? { ...settings, geometry: { ...settings.geometry, crop: FULL_CROP } } : settings,
+    [settings, geometryTool]
+  );
+
+  // Where the image on screen sits in the upright original
+  const displayMapping = useMemo(
+    () => imageInfo ? geometryMapping(imageInfo.width, imageInfo.height, previewSettings.geometry) : null,
+    [imageInfo, previewSettings.geometry]
+  );
+
+  const handlePickWhite = (point: { x: number; y: number }) => {
+    if (!originalPixels || !imageInfo || !displayMapping) return;
+    const scale = originalPixels.width / imageInfo.width;
+    const source = applyAffine(displayMapping.toSource, point.x, point.y);
+    setIsPickingWhite(false);
+    updateSettings({ ...settings, ...sampleNeutral(originalPixels, source.x * scale, source.y * scale) }, 'Pick White Balance');
+  };
+
+  // Only one tool draws on the image at a time
+  const handleGeometryToolChange = (tool: GeometryTool | null) => {
+    setGeometryTool(tool);
+    if (tool) {
+      setMaskTool(null);
+      setIsPickingWhite(false);
+    }
+  };
+
+  const handlePickingChange = (picking: boolean) => {
+    setIsPickingWhite(picking);
+    if (picking) setGeometryTool(null);
+  };
+
+  const handleMaskToolChange = (tool: MaskTool | null) => {
+    setMaskTool(tool);
+    if (tool) setGeometryTool(null);
+  };
+
+  // A line drawn on the image is turned level or upright, whichever is
+  // closer
+  const handleStraighten = (phase: 'start' | 'move' | 'end', point: { x: number; y: number }) => {
+    if (!imageInfo) return;
+    if (phase === 'start') {
+      straightenRef.current = { from: point, to: point };
+    } else if (straightenRef.current) {
+      straightenRef.current = { ...straightenRef.current, to: point };
+    }
+
+    const line = straightenRef.current;
+    if (!line) return;
+    if (phase !== 'end') {
+      setStraightenLine(line);
+      return;
+    }
+    straightenRef.current = null;
+    setStraightenLine(null);
+    if (Math.hypot(line.to.x - line.from.x, line.to.y - line.from.y) < 10) return;
+
+    const { geometry } = settings;
+    updateSettings(
+      { ...settings, geometry: straightenGeometry(geometry, geometry.angle + levelingAngle(line.from, line.to), imageInfo.width, imageInfo.height) },
+      'Straighten'
+    );
+  };
+
+  const handleCropChange = (crop: CropRect, done: boolean) => {
+    if (!done) {
+      setCropDraft(crop);
+      return;
+    }
+    setCropDraft(null);
+    updateSettings({ ...settings, geometry: { ...settings.geometry, crop } }, 'Crop');
+  };
+
+  const selectedMask = maskDraft ?? settings.masks.find(mask => mask.id === selectedMaskId) ?? null;
+
+  // Drags on the image paint, erase or reshape the selected mask in
+  // coordinates relative to the image size
+  const handleDrawMask = (phase: 'start' | 'move' | 'end', point: { x: number; y: number }) => {
+    if (!imageInfo || !maskTool || !displayMapping) return;
+    // Masks live on the upright original, before any crop or rotation
+    const source = applyAffine(displayMapping.toSource, point.x, point.y);
+    const normalized = { x: source.x / imageInfo.width, y: source.y / imageInfo.height };
+
+    if (phase === 'start') {
+      const mask = settings.masks.find(item => item.id === selectedMaskId);
+      if (!mask) return;
+      maskDragRef.current = { mask: startMaskEdit(mask, maskTool, normalized, brush), start: normalized };
+    } else {
+      const drag = maskDragRef.current;
+      if (!drag) return;
+      drag.mask = continueMaskEdit(drag.mask, maskTool, drag.start, normalized);
+    }
+
+    const drag = maskDragRef.current;
+    if (!drag) return;
+    if (phase !== 'end') {
+      setMaskDraft(drag.mask);
+      return;
+    }
+    maskDragRef.current = null;
+    setMaskDraft(null);
+    updateSettings(
+      { ...settings, masks: settings.masks.map(item => item.id === drag.mask.id ? drag.mask : item) },
+      `${drag.mask.name}: ${maskTool === 'paint' ? 'Paint' : maskTool === 'erase' ? 'Erase' : 'Draw'}`
+    );
+  };
+
+  // Shut the processing worker down with the app
+  useEffect(() => () => processor.terminate(), [processor]);
+  useEffect(() => () => batch.terminate(), [batch]);
+
+  // Release object URLs once a newer result replaces them
+  useEffect(() => () => {
+    if (realtimePreview) URL.revokeObjectURL(realtimePreview.url);
+  }, [realtimePreview]);
+
+  useEffect(() => () => {
+    if (enhancedImage) URL.revokeObjectURL(enhancedImage.url);
+  }, [enhancedImage]);
+
+  useEffect(() => () => {
+    if (clippingOverlay) URL.revokeObjectURL(clippingOverlay);
+  }, [clippingOverlay]);
+
+  useEffect(() => () => {
+    if (maskOverlay) URL.revokeObjectURL(maskOverlay);
+  }, [maskOverlay]);
+
+  // The selected mask is shown over the original while it's edited
+  useEffect(() => {
+    if (!showMaskOverlay || !selectedMask || !originalPixels) {
+      setMaskOverlay(null);
+      return;
+    }
+
+    let cancelled = false;
+    createMaskOverlay(selectedMask, originalPixels)
+      .then(overlay => {
+        if (!cancelled) setMaskOverlay(URL.createObjectURL(overlay));
+      })
+      .catch(error => console.error('Failed to draw mask overlay:', error));
+    return () => { cancelled = true; };
+  }, [selectedMask, showMaskOverlay, originalPixels]);
+
+  // Histograms follow the upload and every new preview
+  useEffect(() => {
+    setOriginalPixels(null);
+    setOriginalHistogram(null);
+    setIsPickingWhite(false);
+    if (!originalImage) return;
+
+    let cancelled = false;
+    readAnalysisPixels(originalImage, processor)
+      .then(pixels => {
+        if (cancelled) return;
+        setOriginalPixels(pixels);
+        setOriginalHistogram(computeHistogram(pixels));
+      })
+      .catch(error => console.error('Failed to analyze original:', error));
+    return () => { cancelled = true; };
+  }, [originalImage, processor]);
+
+  useEffect(() => {
+    if (!realtimePreview) {
+      setProcessedHistogram(null);
+      setClippingOverlay(null);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const pixels = await readAnalysisPixels(realtimePreview.blob);
+        if (cancelled) return;
+        setProcessedHistogram(computeHistogram(pixels));
+
+        const overlay = showClipping ? await createClippingOverlay(pixels) : null;
+        if (!cancelled) setClippingOverlay(overlay ? URL.createObjectURL(overlay) : null);
+      } catch (error) {
+        console.error('Failed to analyze preview:', error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [realtimePreview, showClipping]);
 
   // Debounced real-time processing
   const processRealtimePreview = useCallback(
     async (file: File, settings: EnhancementSettings) => {
       if (!file) return;
+
+      // Drop whatever stale render is still in flight
+      realtimeAbortRef.current?.abort();
+      const controller = new AbortController();
+      realtimeAbortRef.current = controller;
       
       setIsRealtimeProcessing(true);
       try {
-        const preview = await ImageProcessor.processImageRealtime(file, settings);
-        setRealtimePreview(preview);
+        const preview = await processor.processImageRealtime(file, settings, controller.signal);
+        setRealtimePreview({ url: URL.createObjectURL(preview), type: preview.type, blob: preview });
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error('Real-time processing failed:', error);
       } finally {
-        setIsRealtimeProcessing(false);
+        if (realtimeAbortRef.current === controller) {
+          realtimeAbortRef.current = null;
+          setIsRealtimeProcessing(false);
+        }
       }
     },
-    []
+    [processor]
   );
 
   // Effect for real-time processing with debouncing
@@ -64,64 +467,229 @@ function App() {
     if (!originalImage) return;
 
     const timeoutId = setTimeout(() => {
-      processRealtimePreview(originalImage, settings);
+      processRealtimePreview(originalImage, previewSettings);
     }, 200); // 200ms debounce for better performance with heavy algorithms
 
     return () => clearTimeout(timeoutId);
-  }, [originalImage, settings, processRealtimePreview]);
+  }, [originalImage, previewSettings, processRealtimePreview]);
 
-  const handleImageUpload = async (file: File) => {
+  // A parity result only holds for the settings it was measured with
+  useEffect(() => setParityReport(null), [settings]);
+
+  // Stop any running render when the image goes away
+  useEffect(() => () => {
+    realtimeAbortRef.current?.abort();
+    enhanceAbortRef.current?.abort();
+  }, [originalImage]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setRecentProjects(await listProjects());
+    } catch (error) {
+      console.error('Failed to list projects:', error);
+    }
+  }, []);
+
+  const openImage = useCallback(async (file: File) => {
     setOriginalImage(file);
     setEnhancedImage(null);
     setRealtimePreview(null);
+    setMetadata(EMPTY_METADATA);
+    setParityReport(null);
     
     try {
-      const info = await ImageProcessor.getImageInfo(file);
+      const info = await processor.getImageInfo(file);
       setImageInfo(info);
     } catch (error) {
       console.error('Failed to get image info:', error);
     }
+
+    try {
+      setMetadata(await readMetadata(file));
+    } catch (error) {
+      console.error('Failed to read metadata:', error);
+    }
+  }, [processor]);
+
+  // A new upload starts a new project with its own history
+  const handleImageUpload = async (file: File) => {
+    setProject(null);
+    // Masks and crops are made for one image, so they don't carry over
+    setHistory(current => createHistory({ ...currentState(current), masks: [], geometry: DEFAULT_GEOMETRY }));
+    setSelectedMaskId(null);
+    setMaskTool(null);
+    setGeometryTool(null);
+    const opened = openImage(file);
+    setProject(await createProjectSource(file, processor));
+    await opened;
+  };
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      const record = await loadProject(id);
+      if (!record) return;
+
+      setProject(toProjectSource(record));
+      savedResultRef.current = { projectId: record.id, blob: record.result };
+      setHistory(record.history);
+      setSnapshots(record.snapshots);
+      const opened = openImage(projectFile(record));
+      if (record.result) {
+        setEnhancedImage({ url: URL.createObjectURL(record.result), type: record.result.type, blob: record.result });
+      }
+      await opened;
+    } catch (error) {
+      console.error('Failed to open project:', error);
+    }
+  }, [openImage]);
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (project?.id === id) setProject(null);
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+    }
+    refreshProjects();
   };
 
+  // Pick up where the last session left off
+  useEffect(() => {
+    const id = getCurrentProjectId();
+    if (id) handleOpenProject(id);
+    refreshProjects();
+  }, [handleOpenProject, refreshProjects]);
+
+  // Persist the session shortly after it changes
+  useEffect(() => {
+    if (!project) return;
+
+    const timeoutId = setTimeout(async () => {
+      const result = enhancedImage?.blob ?? null;
+      const saved = savedResultRef.current;
+      const resultChanged = saved?.projectId !== project.id || saved.blob !== result;
+      try {
+        await saveProject(project, { history, snapshots }, resultChanged ? result : undefined);
+        if (resultChanged) savedResultRef.current = { projectId: project.id, blob: result };
+      } catch (error) {
+        console.error('Failed to save session:', error);
+      }
+      refreshProjects();
+    }, 500);
+
+    return () => clearTimeout(timeoutId);
+  }, [project, history, snapshots, enhancedImage, refreshProjects]);
+
   const handleEnhance = async () => {
-    if (!originalImage) return;
+    if (!originalImage || !imageInfo) return;
+
+    const controller = new AbortController();
+    enhanceAbortRef.current = controller;
 
     setIsProcessing(true);
     setProcessingProgress(0);
     
     try {
-      const enhanced = await ImageProcessor.processImage(
-        originalImage,
-        settings,
-        setProcessingProgress
+      const enhanced = await renderExport(
+        processor,
+        { file: originalImage, metadata, width: imageInfo.width, height: imageInfo.height },
+        exportJob,
+        setProcessingProgress,
+        controller.signal
       );
-      setEnhancedImage(enhanced);
+      setEnhancedImage({ url: URL.createObjectURL(enhanced), type: enhanced.type, blob: enhanced });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Enhancement failed:', error);
       alert('Failed to enhance image. Please try again.');
     } finally {
+      enhanceAbortRef.current = null;
       setIsProcessing(false);
       setProcessingProgress(0);
     }
   };
 
+  const exportJob: ExportJob = { settings, exportSettings, metadataOptions };
+
+  // Masks and crops are made for one image, so they stay out of the batch
+  const batchJob: ExportJob = { ...exportJob, settings: { ...settings, masks: [], geometry: DEFAULT_GEOMETRY } };
+
+  const handleBatchConcurrencyChange = (concurrency: number) => {
+    setBatchConcurrency(concurrency);
+    batch.setConcurrency(concurrency);
+  };
+
+  const handleDownloadZip = async () => {
+    const done = batchItems.filter(item => item.status === 'done' && item.result);
+    if (done.length === 0) return;
+
+    setIsZipping(true);
+    try {
+      const zip = await createZip(done.map((item, index) => ({
+        name: getExportFileName(item.file.name, item.result!.type, namingTemplate, { index: index + 1, total: done.length }),
+        data: item.result!,
+        lastModified: new Date(item.file.lastModified)
+      })));
+
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.download = 'enhanced_images.zip';
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error('Failed to create ZIP:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create ZIP archive.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleCheckParity = async () => {
+    if (!originalImage) return;
+
+    setIsCheckingParity(true);
+    try {
+      setParityReport(await checkPreviewParity(processor, originalImage, settings));
+    } catch (error) {
+      console.error('Parity check failed:', error);
+    } finally {
+      setIsCheckingParity(false);
+    }
+  };
+
+  // Lossless so zoomed-in pixels are exactly what the export will contain
+  const renderRegion = useCallback((region: Rect, signal: AbortSignal) => {
+    if (!originalImage) return Promise.reject(new Error('No image loaded'));
+    return processor.processRegion(originalImage, previewSettings, region, { type: 'image/png', quality: 1 }, signal);
+  }, [processor, originalImage, previewSettings]);
+
+  const displayableImage = useCallback((file: File) => processor.toDisplayableImage(file), [processor]);
+
+  const handleCancelEnhance = () => {
+    enhanceAbortRef.current?.abort();
+  };
+
   const handleDownload = () => {
     const imageToDownload = enhancedImage || realtimePreview;
     if (!imageToDownload) return;
 
     const link = document.createElement('a');
-    link.download = `enhanced_${originalImage?.name || 'image.jpg'}`;
-    link.href = imageToDownload;
+    link.download = getExportFileName(originalImage?.name || 'image', imageToDownload.type);
+    link.href = imageToDownload.url;
     link.click();
   };
 
+  const outputDimensions = imageInfo
+    ? ImageProcessor.getOutputDimensions(imageInfo.width, imageInfo.height, settings)
+    : null;
+
+  // Any stage the pipeline would run, curves and white balance included
   const hasChanges = () => {
-    return settings.sharpening > 0 || 
-           settings.denoising > 0 || 
-           settings.brightness !== 0 || 
-           settings.contrast !== 0 || 
-           settings.saturation !== 0 || 
-           settings.useAI;
+    return settings.pipeline.some(stage => isStageActive(stage, settings)) ||
+           !isIdentityGeometry(settings.geometry) ||
+           settings.upscaleFactor !== 1 ||
+           settings.masks.some(isMaskActive);
   };
 
   const getEnhancementStrength = () => {
@@ -163,14 +731,24 @@ function App() {
               </div>
               
               <div className="flex items-center space-x-4">
-                {originalImage && realtimePreview && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => setBatchMode(!batchMode)}
+                  className="bg-white/10 backdrop-blur-sm border border-white/20 text-white px-4 py-2 rounded-lg font-medium hover:bg-white/20 transition-all duration-200 flex items-center space-x-2"
+                >
+                  <Layers className="h-4 w-4" />
+                  <span>{batchMode ? 'Single Image' : 'Batch Mode'}</span>
+                </motion.button>
+
+                {!batchMode && originalImage && realtimePreview && (
                   <div className="flex items-center space-x-2 text-sm bg-white/10 backdrop-blur-sm rounded-lg px-3 py-2 border border-white/20">
                     <Cpu className="h-4 w-4 text-purple-400" />
                     <span className="text-white">Enhancement: {getEnhancementStrength()}%</span>
                   </div>
                 )}
                 
-                {originalImage && (
+                {!batchMode && originalImage && (
                   <motion.button
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
@@ -200,10 +778,12 @@ function App() {
                 <div className="flex items-center justify-between mb-6">
                   <div className="flex items-center space-x-2">
                     <Upload className="h-5 w-5 text-purple-300" />
-                    <h2 className="text-xl font-semibold text-white">Professional Enhancement</h2>
+                    <h2 className="text-xl font-semibold text-white">
+                      {batchMode ? 'Batch Enhancement' : 'Professional Enhancement'}
+                    </h2>
                   </div>
                   
-                  {originalImage && realtimePreview && (
+                  {!batchMode && originalImage && realtimePreview && (
                     <div className="flex items-center space-x-4 text-sm">
                       {isRealtimeProcessing && (
                         <div className="flex items-center space-x-2 text-purple-300">
@@ -219,47 +799,92 @@ function App() {
                   )}
                 </div>
                 
-                {!originalImage ? (
-                  <ImageUploader onImageUpload={handleImageUpload} />
+                {batchMode ? (
+                  <BatchQueue
+                    items={batchItems}
+                    isRunning={isBatchRunning}
+                    isZipping={isZipping}
+                    concurrency={batchConcurrency}
+                    namingTemplate={namingTemplate}
+                    exportSettings={exportSettings}
+                    onAddFiles={(files) => batch.add(files)}
+                    onConcurrencyChange={handleBatchConcurrencyChange}
+                    onNamingTemplateChange={setNamingTemplate}
+                    onStart={() => batch.start(batchJob)}
+                    onCancel={() => batch.cancel()}
+                    onRetry={(id) => batch.retry(id, batchJob)}
+                    onRetryFailed={() => batch.retryFailed(batchJob)}
+                    onRemove={(id) => batch.remove(id)}
+                    onClear={() => batch.clear()}
+                    onDownloadZip={handleDownloadZip}
+                  />
+                ) : !originalImage ? (
+                  <div className="space-y-6">
+                    <ImageUploader onImageUpload={handleImageUpload} />
+                    <RecentProjects
+                      projects={recentProjects}
+                      currentId={project?.id ?? null}
+                      onOpen={handleOpenProject}
+                      onDelete={handleDeleteProject}
+                    />
+                  </div>
                 ) : (
                   <div className="space-y-6">
                     {/* Image Comparison */}
-                    {showComparison ? (
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <ImagePreview
-                          title="Original"
-                          image={originalImage}
-                          isFile={true}
+                    {imageInfo && displayMapping && (
+                      <div className="relative">
+                        <ComparisonViewer
+                          original={originalImage}
+                          preview={realtimePreview?.url ?? null}
+                          overlay={maskOverlay ? null : clippingOverlay}
+                          source={{ width: imageInfo.width, height: imageInfo.height, transform: displayMapping.fromSource }}
+                          sourceOverlay={maskOverlay}
+                          width={displayMapping.width}
+                          height={displayMapping.height}
+                          outputScale={settings.upscaleFactor}
+                          compare={showComparison}
+                          renderRegion={renderRegion}
+                          toDisplayable={displayableImage}
+                          onPick={isPickingWhite ? handlePickWhite : undefined}
+                          onDraw={
+                            geometryTool === 'straighten' ? handleStraighten
+                              : selectedMask && maskTool ? handleDrawMask
+                              : undefined
+                          }
+                          renderTools={geometryTool ? (view) => {
+                            const crop = cropDraft ?? settings.geometry.crop;
+                            return (
+                              <GeometryOverlay
+                                view={view}
+                                width={displayMapping.width}
+                                height={displayMapping.height}
+                                angle={settings.geometry.angle}
+                                crop={crop}
+                                aspect={aspectPreset === 'free' ? null : cropAspect(crop, displayMapping.width, displayMapping.height)}
+                                onCropChange={geometryTool === 'crop' ? handleCropChange : undefined}
+                                guide={straightenLine}
+                              />
+                            );
+                          } : undefined}
                         />
-                        
-                        <div className="relative">
-                          <ImagePreview
-                            title={`Enhanced ${isRealtimeProcessing ? '(Processing...)' : ''}`}
-                            image={realtimePreview || originalImage}
-                            isFile={!realtimePreview}
-                          />
-                          {isRealtimeProcessing && (
-                            <div className="absolute inset-0 bg-black/20 backdrop-blur-[1px] rounded-xl flex items-center justify-center">
-                              <div className="bg-white/10 backdrop-blur-sm rounded-lg px-3 py-2">
-                                <div className="flex items-center space-x-2 text-white text-sm">
-                                  <div className="w-4 h-4 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
-                                  <span>Applying professional enhancement...</span>
-                                </div>
-                              </div>
+                        {isRealtimeProcessing && (
+                          <div className="absolute top-12 left-1/2 -translate-x-1/2 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2 pointer-events-none">
+                            <div className="flex items-center space-x-2 text-white text-sm">
+                              <div className="w-4 h-4 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
+                              <span>Applying professional enhancement...</span>
                             </div>
-                          )}
-                        </div>
-                      </div>
-                    ) : (
-                      <div className="aspect-video bg-white/5 rounded-xl overflow-hidden">
-                        <img
-                          src={realtimePreview || URL.createObjectURL(originalImage)}
-                          alt="Enhanced preview"
-                          className="w-full h-full object-contain"
-                        />
+                          </div>
+                        )}
                       </div>
                     )}
                     
+                    <HistogramPanel
+                      original={originalHistogram}
+                      processed={processedHistogram}
+                      showClipping={showClipping}
+                      onShowClippingChange={setShowClipping}
+                    />
+
                     {/* New Upload Button */}
                     <motion.button
                       whileHover={{ scale: 1.02 }}
@@ -274,15 +899,22 @@ function App() {
                     {/* Hidden file input */}
                     <input
                       type="file"
-                      accept="image/*"
+                      accept="image/*,.dng"
                       onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])}
                       className="hidden"
                     />
+
+                    <RecentProjects
+                      projects={recentProjects}
+                      currentId={project?.id ?? null}
+                      onOpen={handleOpenProject}
+                      onDelete={handleDeleteProject}
+                    />
                   </div>
                 )}
                 
                 {/* Image Info */}
-                {imageInfo && (
+                {!batchMode && imageInfo && (
                   <motion.div
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
@@ -312,6 +944,14 @@ function App() {
                     </div>
                   </motion.div>
                 )}
+
+                {!batchMode && imageInfo && (
+                  <MetadataPanel
+                    metadata={metadata}
+                    options={metadataOptions}
+                    onChange={setMetadataOptions}
+                  />
+                )}
               </div>
             </motion.div>
 
@@ -331,39 +971,162 @@ function App() {
                 
                 <EnhancementControls
                   settings={settings}
-                  onChange={setSettings}
+                  onChange={updateSettings}
+                  isRaw={originalImage !== null && isRawFile(originalImage)}
                 />
               </div>
 
-              {/* Action Buttons */}
-              <div className="space-y-4">
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={handleEnhance}
-                  disabled={!originalImage || isProcessing || !hasChanges()}
-                  className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white py-4 px-6 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2 shadow-lg shadow-purple-500/25"
-                >
-                  <Zap className="h-5 w-5" />
-                  <span>
-                    {isProcessing ? 'Processing...' : 
-                     !hasChanges() ? 'No Changes to Apply' : 
-                     'Apply Final Enhancement'}
-                  </span>
-                </motion.button>
+              {/* Crop & Rotate */}
+              {imageInfo && (
+                <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                  <div className="flex items-center space-x-2 mb-6">
+                    <Crop className="h-5 w-5 text-purple-300" />
+                    <h2 className="text-xl font-semibold text-white">Crop & Rotate</h2>
+                  </div>
 
-                <motion.button
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={handleDownload}
-                  disabled={!realtimePreview && !enhancedImage}
-                  className="w-full bg-white/10 backdrop-blur-sm border border-white/20 text-white py-4 px-6 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2 hover:bg-white/20"
-                >
-                  <Download className="h-5 w-5" />
-                  <span>Download Enhanced Image</span>
-                </motion.button>
+                  <GeometryControls
+                    settings={settings}
+                    onChange={updateSettings}
+                    width={imageInfo.width}
+                    height={imageInfo.height}
+                    tool={geometryTool}
+                    onToolChange={handleGeometryToolChange}
+                    aspect={aspectPreset}
+                    onAspectChange={setAspectPreset}
+                    customAspect={customAspect}
+                    onCustomAspectChange={setCustomAspect}
+                  />
+                </div>
+              )}
+
+              {/* White Balance */}
+              <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                <div className="flex items-center space-x-2 mb-6">
+                  <Thermometer className="h-5 w-5 text-purple-300" />
+                  <h2 className="text-xl font-semibold text-white">White Balance</h2>
+                </div>
+
+                <WhiteBalanceControls
+                  settings={settings}
+                  onChange={updateSettings}
+                  picking={isPickingWhite}
+                  onPickingChange={handlePickingChange}
+                  onEstimate={handleEstimateWhiteBalance}
+                  canSample={originalPixels !== null}
+                />
               </div>
 
+              {/* Tone Curves */}
+              <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                <div className="flex items-center space-x-2 mb-6">
+                  <Spline className="h-5 w-5 text-purple-300" />
+                  <h2 className="text-xl font-semibold text-white">Curves</h2>
+                </div>
+
+                <CurvesEditor
+                  settings={settings}
+                  onChange={updateSettings}
+                />
+              </div>
+
+              {/* Local Adjustments */}
+              <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                <div className="flex items-center space-x-2 mb-6">
+                  <Layers className="h-5 w-5 text-purple-300" />
+                  <h2 className="text-xl font-semibold text-white">Masks</h2>
+                </div>
+
+                <MaskPanel
+                  settings={settings}
+                  onChange={updateSettings}
+                  selectedId={selectedMaskId}
+                  onSelect={setSelectedMaskId}
+                  tool={maskTool}
+                  onToolChange={handleMaskToolChange}
+                  brush={brush}
+                  onBrushChange={setBrush}
+                  showOverlay={showMaskOverlay}
+                  onShowOverlayChange={setShowMaskOverlay}
+                />
+              </div>
+
+              {/* Edit History */}
+              <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                <div className="flex items-center space-x-2 mb-6">
+                  <HistoryIcon className="h-5 w-5 text-purple-300" />
+                  <h2 className="text-xl font-semibold text-white">History</h2>
+                </div>
+
+                <HistoryPanel
+                  history={history}
+                  snapshots={snapshots}
+                  onUndo={() => setHistory(undo)}
+                  onRedo={() => setHistory(redo)}
+                  onJump={(id) => setHistory(current => jumpTo(current, id))}
+                  onSaveSnapshot={handleSaveSnapshot}
+                  onRestoreSnapshot={handleRestoreSnapshot}
+                  onDeleteSnapshot={(id) => setSnapshots(current => current.filter(snapshot => snapshot.id !== id))}
+                />
+              </div>
+
+              {/* Processing Pipeline */}
+              <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                <div className="flex items-center space-x-2 mb-6">
+                  <Workflow className="h-5 w-5 text-purple-300" />
+                  <h2 className="text-xl font-semibold text-white">Pipeline</h2>
+                </div>
+
+                <PipelineEditor
+                  settings={settings}
+                  onChange={updateSettings}
+                />
+              </div>
+
+              {/* Export Settings */}
+              <div className="bg-white/10 backdrop-blur-sm rounded-2xl border border-white/20 p-6">
+                <div className="flex items-center space-x-2 mb-6">
+                  <Download className="h-5 w-5 text-purple-300" />
+                  <h2 className="text-xl font-semibold text-white">Export</h2>
+                </div>
+
+                <ExportPanel
+                  settings={exportSettings}
+                  onChange={setExportSettings}
+                  inputType={originalImage?.type}
+                />
+              </div>
+
+              {/* Action Buttons */}
+              {!batchMode && (
+                <div className="space-y-4">
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleEnhance}
+                    disabled={!originalImage || isProcessing || !hasChanges()}
+                    className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white py-4 px-6 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2 shadow-lg shadow-purple-500/25"
+                  >
+                    <Zap className="h-5 w-5" />
+                    <span>
+                      {isProcessing ? 'Processing...' : 
+                       !hasChanges() ? 'No Changes to Apply' : 
+                       'Apply Final Enhancement'}
+                    </span>
+                  </motion.button>
+
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleDownload}
+                    disabled={!realtimePreview && !enhancedImage}
+                    className="w-full bg-white/10 backdrop-blur-sm border border-white/20 text-white py-4 px-6 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2 hover:bg-white/20"
+                  >
+                    <Download className="h-5 w-5" />
+                    <span>Download Enhanced Image</span>
+                  </motion.button>
+                </div>
+              )}
+
               {/* Processing Stats */}
               <div className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 p-6">
                 <h3 className="text-lg font-semibold text-white mb-4">Enhancement Status</h3>
@@ -387,9 +1150,7 @@ function App() {
                   <div className="flex justify-between">
                     <span className="text-purple-200">Active Filters:</span>
                     <span className="text-white">
-                      {Object.entries(settings).filter(([key, value]) => 
-                        key !== 'useAI' && typeof value === 'number' && value !== 0
-                      ).length + (settings.useAI ? 1 : 0)}
+                      {settings.pipeline.filter(stage => isStageActive(stage, settings)).length}
                     </span>
                   </div>
                   {imageInfo && (
@@ -398,6 +1159,27 @@ function App() {
                       <span className="text-white">{imageInfo.width}×{imageInfo.height}</span>
                     </div>
                   )}
+                  {outputDimensions && (
+                    <div className="flex justify-between">
+                      <span className="text-purple-200">Export Size:</span>
+                      <span className="text-white">{outputDimensions.width}×{outputDimensions.height}</span>
+                    </div>
+                  )}
+                  {!batchMode && originalImage && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-purple-200">Preview Parity:</span>
+                      <button
+                        onClick={handleCheckParity}
+                        disabled={isCheckingParity || isProcessing}
+                        className="text-white hover:text-purple-200 disabled:opacity-50 transition-colors"
+                        title="Render the final image, shrink it to preview size and compare. Runs only when clicked."
+                      >
+                        {isCheckingParity ? 'Checking...' :
+                         parityReport ? `${parityReport.passed ? '✓' : '✗'} ${parityReport.psnr === Infinity ? '∞' : parityReport.psnr.toFixed(1)} dB · Δ${parityReport.meanError.toFixed(2)}` :
+                         'Check'}
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -406,7 +1188,11 @@ function App() {
       </div>
 
       {/* Processing Modal */}
-      <ProcessingModal isOpen={isProcessing} progress={processingProgress} />
+      <ProcessingModal
+        isOpen={isProcessing}
+        progress={processingProgress}
+        onCancel={handleCancelEnhance}
+      />
     </div>
   );
 }
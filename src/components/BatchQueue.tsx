@@ -0,0 +1,245 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle2, Download, FileImage, Loader2, Play, RotateCcw, Square, Trash2, X, XCircle } from 'lucide-react';
+import ImageUploader from './ImageUploader';
+import { BatchItem, BatchItemStatus, MAX_BATCH_CONCURRENCY } from '../utils/batchProcessor';
+import { ExportSettings, getExportFileName, resolveEncodeOptions } from '../utils/exportFormats';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  isZipping: boolean;
+  concurrency: number;
+  namingTemplate: string;
+  exportSettings: ExportSettings;
+  onAddFiles: (files: File[]) => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onNamingTemplateChange: (template: string) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onRetry: (id: number) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+  onDownloadZip: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-purple-200 bg-white/5 border-white/10' },
+  processing: { label: 'Processing', className: 'text-purple-100 bg-purple-500/20 border-purple-400/30' },
+  done: { label: 'Done', className: 'text-green-300 bg-green-500/20 border-green-500/30' },
+  failed: { label: 'Failed', className: 'text-red-300 bg-red-500/20 border-red-500/30' },
+  cancelled: { label: 'Cancelled', className: 'text-yellow-200 bg-yellow-500/10 border-yellow-500/30' }
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'processing':
+      return <Loader2 className="h-4 w-4 text-purple-300 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-400" />;
+    default:
+      return <FileImage className="h-4 w-4 text-purple-300" />;
+  }
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  isRunning,
+  isZipping,
+  concurrency,
+  namingTemplate,
+  exportSettings,
+  onAddFiles,
+  onConcurrencyChange,
+  onNamingTemplateChange,
+  onStart,
+  onCancel,
+  onRetry,
+  onRetryFailed,
+  onRemove,
+  onClear,
+  onDownloadZip
+}) => {
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'failed' || item.status === 'cancelled').length;
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+  const overallProgress = items.length > 0
+    ? Math.round(items.reduce((sum, item) => sum + (item.status === 'done' ? 100 : item.progress), 0) / items.length)
+    : 0;
+
+  const previewName = items.length > 0
+    ? getExportFileName(
+        items[0].file.name,
+        resolveEncodeOptions(exportSettings, items[0].file.type).type,
+        namingTemplate,
+        { index: 1, total: items.length }
+      )
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <ImageUploader onImagesUpload={onAddFiles} />
+
+      {items.length > 0 && (
+        <>
+          {/* Summary */}
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-purple-200">
+                {doneCount} of {items.length} done
+                {failedCount > 0 && <span className="text-red-300"> · {failedCount} failed</span>}
+              </span>
+              <span className="text-white font-mono">{overallProgress}%</span>
+            </div>
+            <div className="w-full bg-white/10 rounded-full h-2 overflow-hidden">
+              <motion.div
+                className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full"
+                animate={{ width: `${overallProgress}%` }}
+                transition={{ duration: 0.3 }}
+              />
+            </div>
+          </div>
+
+          {/* Queue */}
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {items.map(item => (
+              <div
+                key={item.id}
+                className="flex items-center space-x-3 bg-white/5 rounded-xl border border-white/10 px-4 py-3"
+              >
+                <StatusIcon status={item.status} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between space-x-2">
+                    <p className="text-sm text-white truncate" title={item.file.name}>{item.file.name}</p>
+                    <span className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_STYLES[item.status].className}`}>
+                      {item.status === 'processing' ? `${item.progress}%` : STATUS_STYLES[item.status].label}
+                    </span>
+                  </div>
+                  {item.status === 'processing' && (
+                    <div className="w-full bg-white/10 rounded-full h-1 mt-2 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
+                        style={{ width: `${item.progress}%` }}
+                      />
+                    </div>
+                  )}
+                  {item.error && <p className="text-xs text-red-300 mt-1 truncate">{item.error}</p>}
+                </div>
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <button
+                    onClick={() => onRetry(item.id)}
+                    className="p-1 text-purple-300 hover:text-white transition-colors"
+                    title="Retry"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="p-1 text-purple-300 hover:text-white transition-colors"
+                  title="Remove"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Batch Options */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-purple-200">Parallel Jobs</label>
+              <div className="grid grid-cols-4 gap-2">
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                  <button
+                    key={value}
+                    onClick={() => onConcurrencyChange(value)}
+                    className={`py-2 rounded-lg text-xs font-medium border transition-all duration-200 ${
+                      concurrency === value
+                        ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+                        : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-semibold text-purple-200">File Names</label>
+              <input
+                type="text"
+                value={namingTemplate}
+                onChange={(e) => onNamingTemplateChange(e.target.value)}
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-purple-400/50"
+              />
+              <p className="text-xs text-purple-300/70 truncate">
+                {'{name} {index} {format}'}{previewName && <> · e.g. {previewName}</>}
+              </p>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="grid grid-cols-2 gap-3">
+            {isRunning ? (
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onCancel}
+                className="bg-white/10 border border-white/20 text-white py-3 px-4 rounded-xl font-semibold hover:bg-white/20 transition-all duration-200 flex items-center justify-center space-x-2"
+              >
+                <Square className="h-4 w-4" />
+                <span>Stop</span>
+              </motion.button>
+            ) : (
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={onStart}
+                disabled={queuedCount === 0}
+                className="bg-gradient-to-r from-purple-500 to-pink-500 text-white py-3 px-4 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2 shadow-lg shadow-purple-500/25"
+              >
+                <Play className="h-4 w-4" />
+                <span>Process {queuedCount > 0 ? queuedCount : ''} Images</span>
+              </motion.button>
+            )}
+
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={onDownloadZip}
+              disabled={doneCount === 0 || isZipping}
+              className="bg-white/10 border border-white/20 text-white py-3 px-4 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-white/20 transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <Download className="h-4 w-4" />
+              <span>{isZipping ? 'Packing...' : `Download ZIP (${doneCount})`}</span>
+            </motion.button>
+
+            <button
+              onClick={onRetryFailed}
+              disabled={failedCount === 0}
+              className="py-2 px-4 bg-white/5 border border-white/10 text-purple-200 rounded-xl text-sm hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>Retry Failed</span>
+            </button>
+
+            <button
+              onClick={onClear}
+              className="py-2 px-4 bg-white/5 border border-white/10 text-purple-200 rounded-xl text-sm hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Clear Queue</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,501 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Columns2, Eye, Loader2, Maximize, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Rect } from '../utils/tiling';
+import { isAbortError } from '../utils/processingClient';
+import type { Affine } from '../utils/geometry';
+
+type CompareMode = 'split' | 'hold';
+
+interface ComparisonViewerProps {
+  original: File;
+  // Downscaled live render of the enhanced image
+  preview: string | null;
+  // Laid over the enhanced side at preview size, e.g. clipping warnings
+  overlay?: string | null;
+  // Size of the image as shown, after any crop and rotation
+  width: number;
+  height: number;
+  // Upright size of the original and where its pixels land in the image
+  // as shown, when that is cropped or rotated
+  source?: { width: number; height: number; transform: Affine };
+  // Laid over the enhanced side like the original, e.g. the mask being
+  // edited
+  sourceOverlay?: string | null;
+  // Output pixels per original pixel
+  outputScale: number;
+  // Show the original next to the enhanced image at all
+  compare: boolean;
+  // Render part of the full-resolution output; `region` is in output pixels
+  renderRegion: (region: Rect, signal: AbortSignal) => Promise<Blob>;
+  // Something an <img> can show for `original`
+  toDisplayable: (file: File) => Promise<Blob>;
+  // While set, clicking the image picks a point instead of panning; the
+  // point is in pixels of the image as shown
+  onPick?: (point: { x: number; y: number }) => void;
+  // While set, dragging on the image draws (mask strokes, gradients and
+  // straightening lines) instead of panning; points are in pixels of the
+  // image as shown
+  onDraw?: (phase: 'start' | 'move' | 'end', point: { x: number; y: number }) => void;
+  // Drawn over the image in viewport coordinates, e.g. the crop frame
+  renderTools?: (view: View) => React.ReactNode;
+}
+
+// CSS pixels per image pixel, and where the image's top-left corner sits
+// in the viewport
+export interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface RenderedRegion {
+  // Area of the original the render covers
+  rect: Rect;
+  url: string;
+}
+
+type Drag =
+  | { type: 'split' }
+  | { type: 'draw' }
+  | { type: 'pan'; startX: number; startY: number; view: View };
+
+const MAX_ZOOM = 8;
+const WHEEL_ZOOM_STEP = 1.25;
+const LOUPE_SIZE = 160;
+const LOUPE_ZOOM = 4;
+// Larger visible areas stay on the preview instead of a full-resolution render
+const MAX_REGION_PIXELS = 4_000_000;
+const REGION_DEBOUNCE_MS = 300;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({
+  original,
+  preview,
+  overlay,
+  width,
+  height,
+  source,
+  sourceOverlay,
+  outputScale,
+  compare,
+  renderRegion,
+  toDisplayable,
+  onPick,
+  onDraw,
+  renderTools
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [previewWidth, setPreviewWidth] = useState(0);
+  // null while the image is fitted to the viewport
+  const [zoomedView, setZoomedView] = useState<View | null>(null);
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [split, setSplit] = useState(0.5);
+  const [holding, setHolding] = useState(false);
+  const [loupe, setLoupe] = useState(false);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [region, setRegion] = useState<RenderedRegion | null>(null);
+  const [isRenderingRegion, setIsRenderingRegion] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setZoomedView(null);
+
+    // Browsers can't show TIFF, so those are converted first
+    toDisplayable(original)
+      .catch(() => original)
+      .then(displayable => {
+        if (cancelled) return;
+        url = URL.createObjectURL(displayable);
+        setOriginalUrl(url);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [original, toDisplayable]);
+
+  useEffect(() => () => {
+    if (region) URL.revokeObjectURL(region.url);
+  }, [region]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitView: View | null = size
+    ? (() => {
+        const scale = Math.min(size.width / width, size.height / height);
+        return { scale, x: (size.width - width * scale) / 2, y: (size.height - height * scale) / 2 };
+      })()
+    : null;
+  const view = zoomedView ?? fitView;
+
+  // Centre axes the image doesn't fill and keep the others covered
+  const clampView = useCallback((next: View): View => {
+    if (!size) return next;
+    const scaledWidth = width * next.scale;
+    const scaledHeight = height * next.scale;
+    return {
+      scale: next.scale,
+      x: scaledWidth <= size.width ? (size.width - scaledWidth) / 2 : clamp(next.x, size.width - scaledWidth, 0),
+      y: scaledHeight <= size.height ? (size.height - scaledHeight) / 2 : clamp(next.y, size.height - scaledHeight, 0)
+    };
+  }, [size, width, height]);
+
+  // Zoom to `scale` keeping the viewport point (cx, cy) fixed
+  const zoomTo = useCallback((scale: number, cx?: number, cy?: number) => {
+    if (!view || !fitView || !size) return;
+
+    const target = clamp(scale, fitView.scale, MAX_ZOOM);
+    if (target <= fitView.scale) {
+      setZoomedView(null);
+      return;
+    }
+
+    const anchorX = cx ?? size.width / 2;
+    const anchorY = cy ?? size.height / 2;
+    setZoomedView(clampView({
+      scale: target,
+      x: anchorX - (anchorX - view.x) * target / view.scale,
+      y: anchorY - (anchorY - view.y) * target / view.scale
+    }));
+  }, [view, fitView, size, clampView]);
+
+  // Wheel zoom needs a non-passive listener to stop the page scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !view) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = container.getBoundingClientRect();
+      const factor = event.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      zoomTo(view.scale * factor, event.clientX - bounds.left, event.clientY - bounds.top);
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [view, zoomTo]);
+
+  // A new render invalidates whatever region is on screen
+  useEffect(() => setRegion(null), [renderRegion]);
+
+  // Once the view shows more detail than the preview holds, render the
+  // visible area from the full-resolution pipeline
+  const zoomed = zoomedView !== null;
+  const viewScale = view?.scale ?? 0;
+  const viewX = view?.x ?? 0;
+  const viewY = view?.y ?? 0;
+  useEffect(() => {
+    if (!size) return;
+
+    const previewScale = previewWidth / width;
+    if (!zoomed || viewScale * window.devicePixelRatio <= previewScale) {
+      setRegion(null);
+      return;
+    }
+
+    const x0 = Math.max(0, Math.floor(-viewX / viewScale));
+    const y0 = Math.max(0, Math.floor(-viewY / viewScale));
+    const x1 = Math.min(width, Math.ceil((size.width - viewX) / viewScale));
+    const y1 = Math.min(height, Math.ceil((size.height - viewY) / viewScale));
+    const rect: Rect = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+    const output: Rect = {
+      x: Math.round(rect.x * outputScale),
+      y: Math.round(rect.y * outputScale),
+      width: Math.round(rect.width * outputScale),
+      height: Math.round(rect.height * outputScale)
+    };
+    if (rect.width <= 0 || rect.height <= 0 || output.width * output.height > MAX_REGION_PIXELS) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      setIsRenderingRegion(true);
+      try {
+        const blob = await renderRegion(output, controller.signal);
+        // The view may have moved on while the result was on its way
+        if (!controller.signal.aborted) setRegion({ rect, url: URL.createObjectURL(blob) });
+      } catch (error) {
+        if (!isAbortError(error)) console.error('Region render failed:', error);
+      } finally {
+        if (!controller.signal.aborted) setIsRenderingRegion(false);
+      }
+    }, REGION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+      setIsRenderingRegion(false);
+    };
+  }, [size, zoomed, viewScale, viewX, viewY, previewWidth, width, height, outputScale, renderRegion]);
+
+  const localPoint = (event: React.PointerEvent) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+  };
+
+  const imagePoint = (event: React.PointerEvent) => {
+    const point = localPoint(event);
+    return view
+      ? { x: (point.x - view.x) / view.scale, y: (point.y - view.y) / view.scale }
+      : point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!view) return;
+    const isHandle = (event.target as HTMLElement).dataset.splitHandle !== undefined;
+    if (!isHandle && onPick) {
+      const { x, y } = imagePoint(event);
+      if (x >= 0 && y >= 0 && x < width && y < height) onPick({ x, y });
+      return;
+    }
+    if (!isHandle && onDraw) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      dragRef.current = { type: 'draw' };
+      onDraw('start', imagePoint(event));
+      return;
+    }
+    if (!isHandle && !zoomedView) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = isHandle
+      ? { type: 'split' }
+      : { type: 'pan', startX: event.clientX, startY: event.clientY, view };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = localPoint(event);
+    setPointer(point);
+
+    const drag = dragRef.current;
+    if (!drag || !size) return;
+    if (drag.type === 'split') {
+      setSplit(clamp(point.x / size.width, 0, 1));
+    } else if (drag.type === 'draw') {
+      onDraw?.('move', imagePoint(event));
+    } else {
+      setZoomedView(clampView({
+        scale: drag.view.scale,
+        x: drag.view.x + event.clientX - drag.startX,
+        y: drag.view.y + event.clientY - drag.startY
+      }));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.type === 'draw') onDraw?.('end', imagePoint(event));
+    dragRef.current = null;
+  };
+
+  const splitMode = compare && mode === 'split';
+  const showEnhanced = !compare || mode === 'split' || !holding;
+  const splitX = size ? split * size.width : 0;
+
+  // The original and the enhanced image as seen through `layerView`. Left
+  // of `clipX` the original shows through.
+  const renderLayers = (layerView: View, clipX: number | null) => {
+    const box = (rect: Rect): React.CSSProperties => ({
+      left: layerView.x + rect.x * layerView.scale,
+      top: layerView.y + rect.y * layerView.scale,
+      width: rect.width * layerView.scale,
+      height: rect.height * layerView.scale,
+      imageRendering: layerView.scale >= 1 ? 'pixelated' : 'auto'
+    });
+    const full = box({ x: 0, y: 0, width, height });
+    const imageClass = 'absolute max-w-none select-none pointer-events-none';
+
+    // Images of the original frame, cropped and rotated into place
+    const sourceImage = (url: string, alt: string, className = '') => {
+      if (!source) return <img src={url} alt={alt} draggable={false} className={`${imageClass} ${className}`} style={full} />;
+      const { a, b, c, d, e, f } = source.transform;
+      return (
+        <div className="absolute overflow-hidden pointer-events-none" style={full}>
+          <img
+            src={url}
+            alt={alt}
+            draggable={false}
+            className={`${imageClass} ${className}`}
+            style={{
+              left: 0,
+              top: 0,
+              width: source.width * layerView.scale,
+              height: source.height * layerView.scale,
+              transform: `matrix(${a}, ${b}, ${c}, ${d}, ${e * layerView.scale}, ${f * layerView.scale})`,
+              transformOrigin: '0 0',
+              imageRendering: full.imageRendering
+            }}
+          />
+        </div>
+      );
+    };
+
+    return (
+      <>
+        {originalUrl && sourceImage(originalUrl, 'Original')}
+        {showEnhanced && (
+          <div
+            className="absolute inset-0"
+            style={clipX !== null ? { clipPath: `inset(0 0 0 ${Math.max(0, clipX)}px)` } : undefined}
+          >
+            {preview ? (
+              <img
+                src={preview}
+                alt="Enhanced"
+                draggable={false}
+                className={imageClass}
+                style={full}
+                onLoad={(e) => setPreviewWidth(e.currentTarget.naturalWidth)}
+              />
+            ) : originalUrl && sourceImage(originalUrl, 'Enhanced')}
+            {region && <img src={region.url} alt="" draggable={false} className={imageClass} style={box(region.rect)} />}
+            {overlay && <img src={overlay} alt="" draggable={false} className={`${imageClass} opacity-80`} style={full} />}
+            {sourceOverlay && sourceImage(sourceOverlay, '', 'opacity-80')}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const loupeView: View | null = view && pointer
+    ? (() => {
+        const scale = view.scale * LOUPE_ZOOM;
+        const imageX = (pointer.x - view.x) / view.scale;
+        const imageY = (pointer.y - view.y) / view.scale;
+        return { scale, x: LOUPE_SIZE / 2 - imageX * scale, y: LOUPE_SIZE / 2 - imageY * scale };
+      })()
+    : null;
+
+  const toolButton = (active: boolean) =>
+    `py-1.5 px-3 rounded-lg text-xs font-medium border transition-all duration-200 flex items-center space-x-1 ${
+      active
+        ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+        : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+    }`;
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        {compare && (
+          <>
+            <button onClick={() => setMode('split')} className={toolButton(mode === 'split')}>
+              <Columns2 className="h-3 w-3" />
+              <span>Split</span>
+            </button>
+            <button onClick={() => setMode('hold')} className={toolButton(mode === 'hold')}>
+              <Eye className="h-3 w-3" />
+              <span>Toggle</span>
+            </button>
+            {mode === 'hold' && (
+              <motion.button
+                whileTap={{ scale: 0.95 }}
+                onPointerDown={() => setHolding(true)}
+                onPointerUp={() => setHolding(false)}
+                onPointerLeave={() => setHolding(false)}
+                className={toolButton(holding)}
+              >
+                <span>Hold for Original</span>
+              </motion.button>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={() => view && zoomTo(view.scale / 2)} className={toolButton(false)} title="Zoom out">
+            <ZoomOut className="h-3 w-3" />
+          </button>
+          <span className="text-xs text-white font-mono w-12 text-center">
+            {view ? `${Math.round(view.scale * 100)}%` : '–'}
+          </span>
+          <button onClick={() => view && zoomTo(view.scale * 2)} className={toolButton(false)} title="Zoom in">
+            <ZoomIn className="h-3 w-3" />
+          </button>
+          <button onClick={() => zoomTo(1)} className={toolButton(view?.scale === 1)} title="Actual pixels">
+            <span>1:1</span>
+          </button>
+          <button onClick={() => setZoomedView(null)} className={toolButton(!zoomedView)} title="Fit to view">
+            <Maximize className="h-3 w-3" />
+          </button>
+          <button onClick={() => setLoupe(!loupe)} className={toolButton(loupe)} title="Loupe">
+            <Search className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+
+      {/* Viewport */}
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setPointer(null)}
+        className={`relative h-[28rem] bg-black/30 rounded-xl overflow-hidden touch-none select-none ${
+          onPick || onDraw ? 'cursor-crosshair' : zoomedView ? 'cursor-grab active:cursor-grabbing' : ''
+        } ${loupe && !onPick && !onDraw ? 'cursor-none' : ''}`}
+      >
+        {view && renderLayers(view, splitMode ? splitX : null)}
+        {view && renderTools?.(view)}
+
+        {splitMode && (
+          <>
+            <div
+              data-split-handle
+              className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+              style={{ left: splitX }}
+            >
+              <div data-split-handle className="w-0.5 h-full bg-white/80 shadow-lg" />
+              <div
+                data-split-handle
+                className="absolute top-1/2 -translate-y-1/2 h-8 w-8 rounded-full bg-gradient-to-r from-purple-500 to-pink-500 border-2 border-white shadow-lg"
+              />
+            </div>
+            <span className="absolute top-3 left-3 text-xs text-white bg-black/50 rounded-full px-2 py-1 pointer-events-none">Original</span>
+            <span className="absolute top-3 right-3 text-xs text-white bg-black/50 rounded-full px-2 py-1 pointer-events-none">Enhanced</span>
+          </>
+        )}
+
+        {compare && mode === 'hold' && (
+          <span className="absolute top-3 left-3 text-xs text-white bg-black/50 rounded-full px-2 py-1 pointer-events-none">
+            {holding ? 'Original' : 'Enhanced'}
+          </span>
+        )}
+
+        {isRenderingRegion && (
+          <div className="absolute bottom-3 right-3 flex items-center space-x-2 text-xs text-white bg-black/50 rounded-full px-3 py-1 pointer-events-none">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            <span>Rendering full resolution...</span>
+          </div>
+        )}
+
+        {loupe && pointer && loupeView && (
+          <div
+            className="absolute rounded-full overflow-hidden border-2 border-white/80 shadow-2xl bg-black pointer-events-none"
+            style={{ left: pointer.x - LOUPE_SIZE / 2, top: pointer.y - LOUPE_SIZE / 2, width: LOUPE_SIZE, height: LOUPE_SIZE }}
+          >
+            {renderLayers(
+              loupeView,
+              splitMode && view ? loupeView.x + ((splitX - view.x) / view.scale) * loupeView.scale : null
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
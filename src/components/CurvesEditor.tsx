@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { EnhancementSettings } from '../App';
+import {
+  CURVE_CHANNELS,
+  CurveChannel,
+  CurvePoint,
+  DEFAULT_CURVES,
+  IDENTITY_CURVE,
+  MAX_CURVE_POINTS,
+  isIdentityCurve,
+  monotoneCurve
+} from '../utils/curves';
+
+interface CurvesEditorProps {
+  settings: EnhancementSettings;
+  onChange: (settings: EnhancementSettings, label?: string) => void;
+}
+
+const CHANNEL_STYLES: Record<CurveChannel, { label: string; stroke: string }> = {
+  master: { label: 'RGB', stroke: '#ffffff' },
+  red: { label: 'R', stroke: '#ef4444' },
+  green: { label: 'G', stroke: '#22c55e' },
+  blue: { label: 'B', stroke: '#3b82f6' }
+};
+
+// The graph spans levels 0-255 with a margin so edge points aren't cut off
+const VIEW_MARGIN = 4;
+const VIEW_SIZE = 255 + VIEW_MARGIN * 2;
+
+const curvePath = (points: CurvePoint[]) => {
+  const curve = monotoneCurve(points);
+  let path = '';
+  for (let x = 0; x <= 255; x++) {
+    path += `${x === 0 ? 'M' : 'L'}${x},${255 - curve(x)}`;
+  }
+  return path;
+};
+
+const CurvesEditor: React.FC<CurvesEditorProps> = ({ settings, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const [channel, setChannel] = useState<CurveChannel>('master');
+  const points = settings.curves[channel];
+
+  const setPoints = (next: CurvePoint[]) => {
+    onChange({ ...settings, curves: { ...settings.curves, [channel]: next } }, 'Curves');
+  };
+
+  // Pointer position as input/output levels
+  const levelAt = (event: React.MouseEvent): CurvePoint => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * VIEW_SIZE - VIEW_MARGIN;
+    const y = 255 - (((event.clientY - bounds.top) / bounds.height) * VIEW_SIZE - VIEW_MARGIN);
+    return {
+      x: Math.round(Math.min(255, Math.max(0, x))),
+      y: Math.round(Math.min(255, Math.max(0, y)))
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const target = event.target as SVGElement;
+    const pointIndex = target.dataset.pointIndex;
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    if (pointIndex !== undefined) {
+      dragIndexRef.current = Number(pointIndex);
+      return;
+    }
+
+    // Clicking the graph adds a point on the curve
+    const { x } = levelAt(event);
+    if (points.length >= MAX_CURVE_POINTS || points.some(point => point.x === x)) return;
+
+    const next = [...points, { x, y: Math.round(monotoneCurve(points)(x)) }].sort((a, b) => a.x - b.x);
+    dragIndexRef.current = next.findIndex(point => point.x === x);
+    setPoints(next);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null) return;
+
+    // Points can't pass their neighbours, so the list stays sorted
+    const level = levelAt(event);
+    const min = index === 0 ? 0 : points[index - 1].x + 1;
+    const max = index === points.length - 1 ? 255 : points[index + 1].x - 1;
+    const x = Math.min(max, Math.max(min, level.x));
+    if (x === points[index].x && level.y === points[index].y) return;
+
+    setPoints(points.map((point, i) => i === index ? { x, y: level.y } : point));
+  };
+
+  const handlePointerUp = () => {
+    dragIndexRef.current = null;
+  };
+
+  // Double-clicking near a point removes it; a curve keeps at least two
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (points.length <= 2) return;
+
+    const level = levelAt(event);
+    const distances = points.map(point => Math.hypot(point.x - level.x, point.y - level.y));
+    const index = distances.indexOf(Math.min(...distances));
+    if (distances[index] <= 8) setPoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="grid grid-cols-4 gap-1">
+          {CURVE_CHANNELS.map(key => (
+            <button
+              key={key}
+              onClick={() => setChannel(key)}
+              className={`py-1 px-3 rounded-lg text-xs font-medium border transition-all duration-200 ${
+                channel === key
+                  ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+                  : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+              }`}
+            >
+              <span style={{ color: key === 'master' ? undefined : CHANNEL_STYLES[key].stroke }}>{CHANNEL_STYLES[key].label}</span>
+              {!isIdentityCurve(settings.curves[key]) && <span className="text-pink-300"> •</span>}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setPoints(IDENTITY_CURVE)}
+          disabled={isIdentityCurve(points)}
+          className="p-1 text-purple-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title={`Reset ${CHANNEL_STYLES[channel].label} curve`}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`${-VIEW_MARGIN} ${-VIEW_MARGIN} ${VIEW_SIZE} ${VIEW_SIZE}`}
+        className="w-full aspect-square bg-black/30 rounded-lg border border-white/10 touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="rgb(255 255 255 / 0.1)" vectorEffect="non-scaling-stroke">
+            <line x1={v} y1={0} x2={v} y2={255} vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={v} x2={255} y2={v} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="rgb(255 255 255 / 0.2)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+
+        {/* Other channels' curves for reference */}
+        {CURVE_CHANNELS.filter(key => key !== channel && !isIdentityCurve(settings.curves[key])).map(key => (
+          <path
+            key={key}
+            d={curvePath(settings.curves[key])}
+            fill="none"
+            stroke={CHANNEL_STYLES[key].stroke}
+            strokeOpacity={0.3}
+            vectorEffect="non-scaling-stroke"
+            pointerEvents="none"
+          />
+        ))}
+
+        <path
+          d={curvePath(points)}
+          fill="none"
+          stroke={CHANNEL_STYLES[channel].stroke}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+          pointerEvents="none"
+        />
+
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            data-point-index={index}
+            cx={point.x}
+            cy={255 - point.y}
+            r={5}
+            fill="#1e1b4b"
+            stroke={CHANNEL_STYLES[channel].stroke}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className="cursor-move"
+          />
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-between text-xs text-purple-300/70">
+        <span>Click to add a point, double-click to remove</span>
+        <button
+          onClick={() => onChange({ ...settings, curves: DEFAULT_CURVES }, 'Reset Curves')}
+          className="text-purple-200 hover:text-white transition-colors"
+        >
+          Reset All
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CurvesEditor;
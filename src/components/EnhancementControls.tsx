@@ -1,14 +1,35 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { RotateCcw, Zap, Sparkles, Contrast, Sun, Palette } from 'lucide-react';
+import { RotateCcw, Zap, Sparkles, Contrast, Sun, Palette, Grid3x3, Maximize2, Save, Upload, Download, X, Aperture, Camera, Cpu } from 'lucide-react';
 import { EnhancementSettings } from '../App';
+import { DenoiseBackend, UpscaleAlgorithm } from '../utils/imageProcessor';
+import { WorkingSpace, supportsDisplayP3 } from '../utils/colorSpace';
+import { DemosaicAlgorithm } from '../utils/raster';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_SETTINGS,
+  Preset,
+  applyPreset,
+  createPresetId,
+  loadUserPresets,
+  parsePresets,
+  saveUserPresets,
+  serializePresets
+} from '../utils/presets';
 
 interface EnhancementControlsProps {
   settings: EnhancementSettings;
-  onChange: (settings: EnhancementSettings) => void;
+  // `label` names the change in the edit history
+  onChange: (settings: EnhancementSettings, label?: string) => void;
+  // Whether the current image is a raw file, which shows its development options
+  isRaw?: boolean;
 }
 
-const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onChange }) => {
+const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onChange, isRaw = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+  const [presetName, setPresetName] = useState('');
+
   const handleSliderChange = (key: keyof EnhancementSettings, value: number) => {
     onChange({ ...settings, [key]: value });
   };
@@ -17,56 +38,67 @@ const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onC
     onChange({ ...settings, [key]: !settings[key] });
   };
 
+  const handleDenoiseBackendChange = (denoiseBackend: DenoiseBackend) => {
+    onChange({ ...settings, denoiseBackend });
+  };
+
+  const handleUpscaleAlgorithmChange = (upscaleAlgorithm: UpscaleAlgorithm) => {
+    onChange({ ...settings, upscaleAlgorithm });
+  };
+
+  const handleWorkingSpaceChange = (workingSpace: WorkingSpace) => {
+    onChange({ ...settings, workingSpace });
+  };
+
+  const handleColorSpaceChange = (colorSpace: PredefinedColorSpace) => {
+    onChange({ ...settings, colorSpace });
+  };
+
+  const handleDemosaicChange = (demosaic: DemosaicAlgorithm) => {
+    onChange({ ...settings, demosaic });
+  };
+
+  // Model paths apply when the field is left, not on every keystroke
+  const handleModelPathChange = (key: 'denoiseModel' | 'upscaleModel', value: string) => {
+    const path = value.trim();
+    if (path !== settings[key]) onChange({ ...settings, [key]: path });
+  };
+
   const resetToDefaults = () => {
-    onChange({
-      sharpening: 40,
-      denoising: 30,
-      brightness: 5,
-      contrast: 15,
-      saturation: 10,
-      useAI: true,
-    });
+    onChange(DEFAULT_SETTINGS, 'Reset to Defaults');
+  };
+
+  const updateUserPresets = (next: Preset[]) => {
+    setUserPresets(next);
+    saveUserPresets(next);
   };
 
-  const setModePreset = (mode: string) => {
-    const presets = {
-      portrait: {
-        sharpening: 35,
-        denoising: 40,
-        brightness: 8,
-        contrast: 12,
-        saturation: 15,
-        useAI: true,
-      },
-      landscape: {
-        sharpening: 50,
-        denoising: 25,
-        brightness: 3,
-        contrast: 20,
-        saturation: 12,
-        useAI: true,
-      },
-      vintage: {
-        sharpening: 25,
-        denoising: 35,
-        brightness: -5,
-        contrast: 25,
-        saturation: -10,
-        useAI: false,
-      },
-      professional: {
-        sharpening: 60,
-        denoising: 45,
-        brightness: 0,
-        contrast: 25,
-        saturation: 8,
-        useAI: true,
-      }
-    };
-    
-    const preset = presets[mode as keyof typeof presets];
-    if (preset) {
-      onChange(preset);
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    updateUserPresets([
+      ...userPresets,
+      { id: createPresetId(), name, description: 'Custom preset', settings, builtIn: false }
+    ]);
+    setPresetName('');
+  };
+
+  const handleExportPresets = () => {
+    const json = JSON.stringify(serializePresets(userPresets), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = 'presets.json';
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      updateUserPresets([...userPresets, ...parsePresets(await file.text())]);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import presets.');
     }
   };
 
@@ -131,6 +163,56 @@ const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onC
     </div>
   );
 
+  const SegmentedControl = <T extends string | number>({
+    label,
+    options,
+    value,
+    onChange,
+    columns = 2
+  }: {
+    label: string;
+    options: { key: T; label: string }[];
+    value: T;
+    onChange: (value: T) => void;
+    columns?: number;
+  }) => (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-purple-300/70">{label}</label>
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+        {options.map(option => (
+          <button
+            key={option.key}
+            onClick={() => onChange(option.key)}
+            className={`py-2 px-3 rounded-lg text-xs font-medium border transition-all duration-200 ${
+              value === option.key
+                ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+                : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderModelPath = (key: 'denoiseModel' | 'upscaleModel', label: string, placeholder: string, description: string) => (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-purple-300/70">{label}</label>
+      <input
+        // Remounted when the setting changes elsewhere, e.g. by a preset
+        key={settings[key]}
+        type="text"
+        defaultValue={settings[key]}
+        placeholder={placeholder}
+        onBlur={(e) => handleModelPathChange(key, e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm font-mono text-white placeholder-purple-300/50 focus:outline-none focus:border-purple-400/50"
+      />
+      <p className="text-xs text-purple-300/70">{description}</p>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Enhancement Presets */}
@@ -140,24 +222,79 @@ const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onC
           <span>Quick Presets</span>
         </h3>
         <div className="grid grid-cols-2 gap-2">
-          {[
-            { key: 'professional', label: 'Professional', desc: 'Maximum quality' },
-            { key: 'portrait', label: 'Portrait', desc: 'Skin-friendly' },
-            { key: 'landscape', label: 'Landscape', desc: 'Nature scenes' },
-            { key: 'vintage', label: 'Vintage', desc: 'Classic look' }
-          ].map(preset => (
-            <motion.button
-              key={preset.key}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => setModePreset(preset.key)}
-              className="p-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-lg text-left hover:bg-white/10 transition-all duration-200"
-            >
-              <div className="text-xs font-medium text-white">{preset.label}</div>
-              <div className="text-xs text-purple-300/70">{preset.desc}</div>
-            </motion.button>
+          {[...BUILT_IN_PRESETS, ...userPresets].map(preset => (
+            <div key={preset.id} className="relative group">
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => onChange(applyPreset(settings, preset), `Preset: ${preset.name}`)}
+                className="w-full p-3 bg-white/5 backdrop-blur-sm border border-white/10 rounded-lg text-left hover:bg-white/10 transition-all duration-200"
+              >
+                <div className="text-xs font-medium text-white truncate pr-4">{preset.name}</div>
+                <div className="text-xs text-purple-300/70 truncate">{preset.description}</div>
+              </motion.button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => updateUserPresets(userPresets.filter(item => item.id !== preset.id))}
+                  className="absolute top-1 right-1 p-1 text-purple-300 opacity-0 group-hover:opacity-100 hover:text-white transition-all"
+                  title="Delete preset"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
           ))}
         </div>
+
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={presetName}
+            placeholder="Preset name"
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-purple-300/50 focus:outline-none focus:border-purple-400/50"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-1"
+            title="Save current settings as a preset"
+          >
+            <Save className="h-3 w-3" />
+            <span>Save</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-1"
+          >
+            <Upload className="h-3 w-3" />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={handleExportPresets}
+            disabled={userPresets.length === 0}
+            className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-1"
+          >
+            <Download className="h-3 w-3" />
+            <span>Export</span>
+          </button>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImportPresets(file);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
       </div>
 
       {/* AI Enhancement Toggle */}
@@ -190,6 +327,53 @@ const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onC
         </motion.button>
       </motion.div>
 
+      {/* On-device model */}
+      {settings.useAI && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-purple-200 flex items-center space-x-2">
+            <Cpu className="h-4 w-4" />
+            <span>AI Model</span>
+          </h3>
+
+          {renderModelPath(
+            'denoiseModel',
+            'Denoiser (ONNX)',
+            '/models/denoiser.onnx',
+            settings.denoiseModel
+              ? 'Runs on this device in place of the built-in enhancement filters.'
+              : 'Leave empty to use the built-in enhancement filters.'
+          )}
+        </div>
+      )}
+
+      {/* Local Contrast (CLAHE) */}
+      {settings.useAI && !settings.denoiseModel && (
+        <div className="space-y-6">
+          <h3 className="text-sm font-semibold text-purple-200">Local Contrast</h3>
+
+          <SliderControl
+            label="Tile Grid"
+            description="Cells per side used for adaptive equalization"
+            value={settings.claheTileGrid}
+            onChange={(value) => handleSliderChange('claheTileGrid', value)}
+            min={2}
+            max={16}
+            icon={Grid3x3}
+          />
+
+          <SliderControl
+            label="Clip Limit"
+            description="Caps contrast amplification to keep noise in check"
+            value={settings.claheClipLimit}
+            onChange={(value) => handleSliderChange('claheClipLimit', value)}
+            min={1}
+            max={10}
+            step={0.5}
+            icon={Contrast}
+          />
+        </div>
+      )}
+
       {/* Advanced Controls */}
       <div className="space-y-6">
         <h3 className="text-sm font-semibold text-purple-200">Advanced Controls</h3>
@@ -204,13 +388,23 @@ const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onC
         />
         
         <SliderControl
-          label="Bilateral Denoising"
+          label="Edge-Preserving Denoising"
           description="Edge-preserving noise reduction for cleaner images"
           value={settings.denoising}
           onChange={(value) => handleSliderChange('denoising', value)}
           max={100}
           icon={Sparkles}
         />
+
+        <SegmentedControl
+          label="Denoise Backend"
+          options={[
+            { key: 'bilateral', label: 'Bilateral (Reference)' },
+            { key: 'guided', label: 'Guided (Fast)' }
+          ]}
+          value={settings.denoiseBackend}
+          onChange={handleDenoiseBackendChange}
+        />
         
         <SliderControl
           label="Adaptive Brightness"
@@ -243,6 +437,105 @@ const EnhancementControls: React.FC<EnhancementControlsProps> = ({ settings, onC
         />
       </div>
 
+      {/* Super-Resolution Upscaling */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-purple-200 flex items-center space-x-2">
+          <Maximize2 className="h-4 w-4" />
+          <span>Upscaling</span>
+        </h3>
+
+        <SegmentedControl
+          label="Scale Factor"
+          options={[1, 2, 3, 4].map(factor => ({ key: factor, label: `${factor}×` }))}
+          value={settings.upscaleFactor}
+          onChange={(value) => handleSliderChange('upscaleFactor', value)}
+          columns={4}
+        />
+
+        {settings.upscaleFactor > 1 && (
+          <SegmentedControl
+            label="Algorithm"
+            options={[
+              { key: 'nearest', label: 'Nearest' },
+              { key: 'bilinear', label: 'Bilinear' },
+              { key: 'bicubic', label: 'Bicubic' },
+              { key: 'lanczos3', label: 'Lanczos3' },
+              { key: 'edge-directed', label: 'Edge-Directed' },
+              { key: 'model', label: 'AI Model' }
+            ]}
+            value={settings.upscaleAlgorithm}
+            onChange={handleUpscaleAlgorithmChange}
+          />
+        )}
+
+        {settings.upscaleFactor > 1 && settings.upscaleAlgorithm === 'model' && renderModelPath(
+          'upscaleModel',
+          'Upscaler (ONNX, 2× or 4×)',
+          '/models/realesrgan-x4.onnx',
+          settings.upscaleModel
+            ? 'Real-ESRGAN-style super-resolution, resampled to the chosen factor.'
+            : 'Without a model, Lanczos3 resampling is used.'
+        )}
+      </div>
+
+      {/* Color Management */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-purple-200 flex items-center space-x-2">
+          <Aperture className="h-4 w-4" />
+          <span>Color Management</span>
+        </h3>
+
+        <SegmentedControl
+          label="Working Space"
+          options={[
+            { key: 'srgb', label: 'sRGB (Gamma)' },
+            { key: 'linear', label: 'Linear Light' }
+          ]}
+          value={settings.workingSpace}
+          onChange={handleWorkingSpaceChange}
+        />
+
+        <SegmentedControl
+          label="Output Color Space"
+          options={[
+            { key: 'srgb', label: 'sRGB' },
+            { key: 'display-p3', label: 'Display P3' }
+          ]}
+          value={settings.colorSpace}
+          onChange={handleColorSpaceChange}
+        />
+
+        <p className="text-xs text-purple-300/70">
+          {settings.colorSpace === 'display-p3' && !supportsDisplayP3()
+            ? 'This browser has no Display P3 canvases, so output stays sRGB.'
+            : 'Linear light blurs and sharpens without dark halos around edges.'}
+        </p>
+      </div>
+
+      {/* Raw Development */}
+      {isRaw && (
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-purple-200 flex items-center space-x-2">
+            <Camera className="h-4 w-4" />
+            <span>Raw Development</span>
+          </h3>
+
+          <SegmentedControl
+            label="Demosaicing"
+            options={[
+              { key: 'bilinear', label: 'Bilinear (Fast)' },
+              { key: 'ahd', label: 'AHD (Detail)' }
+            ]}
+            value={settings.demosaic}
+            onChange={handleDemosaicChange}
+          />
+
+          <p className="text-xs text-purple-300/70">
+            Developed with the camera's as-shot white balance and color matrix.
+          </p>
+        </div>
+      )}
+
       {/* Reset Button */}
       <motion.button
         whileHover={{ scale: 1.02 }}
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { FileImage } from 'lucide-react';
+import {
+  BitDepth,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportSettings,
+  getExportFormatInfo,
+  detectAvifSupport,
+  resolveEncodeOptions
+} from '../utils/exportFormats';
+
+interface ExportPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  inputType?: string;
+}
+
+const BIT_DEPTHS: { value: BitDepth; label: string; description: string }[] = [
+  { value: 8, label: '8-bit', description: 'Smaller files, opens everywhere' },
+  { value: 16, label: '16-bit', description: 'Keeps smooth gradients from banding' }
+];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ settings, onChange, inputType }) => {
+  const [avifSupported, setAvifSupported] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    detectAvifSupport().then(supported => {
+      if (!cancelled) setAvifSupported(supported);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const resolvedType = resolveEncodeOptions(settings, inputType ?? '').type;
+  const resolvedFormat = getExportFormatInfo(resolvedType);
+
+  const formats: { key: ExportFormat; label: string }[] = [
+    { key: 'original', label: 'Keep Input' },
+    ...EXPORT_FORMATS
+      .filter(format => format.type !== 'image/avif' || avifSupported)
+      .map(format => ({ key: format.type, label: format.label }))
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {formats.map(format => (
+          <button
+            key={format.key}
+            onClick={() => onChange({ ...settings, format: format.key })}
+            className={`py-2 px-3 rounded-lg text-xs font-medium border transition-all duration-200 ${
+              settings.format === format.key
+                ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+                : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+            }`}
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2 text-xs text-purple-300/70">
+        <FileImage className="h-4 w-4 text-purple-400" />
+        <span>
+          Saves as {resolvedFormat?.highBitDepth ? `${settings.bitDepth}-bit ` : ''}{resolvedFormat?.label ?? resolvedType}
+          {resolvedFormat?.supportsAlpha ? ' with transparency' : ''}
+        </span>
+      </div>
+
+      {resolvedFormat?.highBitDepth && (
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-purple-200">Bit Depth</label>
+          <div className="grid grid-cols-2 gap-2">
+            {BIT_DEPTHS.map(depth => (
+              <button
+                key={depth.value}
+                onClick={() => onChange({ ...settings, bitDepth: depth.value })}
+                className={`py-2 px-3 rounded-lg text-xs font-medium border transition-all duration-200 ${
+                  settings.bitDepth === depth.value
+                    ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+                    : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+                }`}
+                title={depth.description}
+              >
+                {depth.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {resolvedFormat?.lossy && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-semibold text-purple-200">Quality</label>
+            <span className="text-sm text-white font-mono bg-gradient-to-r from-purple-500/20 to-pink-500/20 px-2 py-1 rounded-md border border-white/10">
+              {settings.quality}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            value={settings.quality}
+            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+            className="w-full h-3 rounded-lg appearance-none cursor-pointer slider border border-white/10"
+            style={{
+              background: `linear-gradient(to right,
+                rgba(139, 92, 246, 0.3) 0%,
+                rgba(236, 72, 153, 0.3) ${settings.quality}%,
+                rgba(255, 255, 255, 0.1) ${settings.quality}%,
+                rgba(255, 255, 255, 0.1) 100%)`
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
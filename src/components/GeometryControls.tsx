@@ -0,0 +1,180 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Crop, FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw, Ruler } from 'lucide-react';
+import { EnhancementSettings } from '../App';
+import {
+  ASPECT_PRESETS,
+  AspectPreset,
+  DEFAULT_GEOMETRY,
+  Geometry,
+  GeometryTool,
+  MAX_STRAIGHTEN_ANGLE,
+  aspectGeometry,
+  flipGeometry,
+  isIdentityGeometry,
+  presetAspect,
+  rotateGeometry,
+  straightenGeometry,
+  turnedSize
+} from '../utils/geometry';
+
+interface GeometryControlsProps {
+  settings: EnhancementSettings;
+  onChange: (settings: EnhancementSettings, label?: string) => void;
+  // Upright size of the original
+  width: number;
+  height: number;
+  tool: GeometryTool | null;
+  onToolChange: (tool: GeometryTool | null) => void;
+  aspect: AspectPreset;
+  onAspectChange: (aspect: AspectPreset) => void;
+  customAspect: { width: number; height: number };
+  onCustomAspectChange: (aspect: { width: number; height: number }) => void;
+}
+
+const GeometryControls: React.FC<GeometryControlsProps> = ({
+  settings,
+  onChange,
+  width,
+  height,
+  tool,
+  onToolChange,
+  aspect,
+  onAspectChange,
+  customAspect,
+  onCustomAspectChange
+}) => {
+  const { geometry } = settings;
+
+  const setGeometry = (next: Geometry, label: string) => {
+    onChange({ ...settings, geometry: next }, label);
+  };
+
+  // A fixed aspect takes the largest crop of that shape
+  const applyAspect = (preset: AspectPreset, custom: { width: number; height: number }, label: string) => {
+    const frame = turnedSize(width, height, geometry.rotation);
+    const ratio = presetAspect(preset, custom, frame.width, frame.height);
+    if (ratio !== null) setGeometry(aspectGeometry(geometry, ratio, width, height), label);
+  };
+
+  const handleAspectChange = (preset: AspectPreset) => {
+    onAspectChange(preset);
+    applyAspect(preset, customAspect, `Crop ${ASPECT_PRESETS.find(item => item.id === preset)?.label ?? ''}`);
+  };
+
+  const handleCustomAspectChange = (key: 'width' | 'height', value: number) => {
+    const next = { ...customAspect, [key]: value };
+    onCustomAspectChange(next);
+    applyAspect('custom', next, 'Crop Custom');
+  };
+
+  // The crop turns with the image, so a fixed aspect swaps between
+  // portrait and landscape
+  const handleRotate = (direction: 1 | -1) => {
+    setGeometry(rotateGeometry(geometry, direction), direction === 1 ? 'Rotate Right' : 'Rotate Left');
+  };
+
+  const toolButton = (active: boolean) =>
+    `py-2 px-3 rounded-lg text-xs font-medium border transition-all duration-200 flex items-center justify-center space-x-1 ${
+      active
+        ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+        : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      {/* Tools */}
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onToolChange(tool === 'crop' ? null : 'crop')} className={toolButton(tool === 'crop')}>
+          <Crop className="h-3 w-3" />
+          <span>{tool === 'crop' ? 'Done' : 'Crop'}</span>
+        </button>
+        <button onClick={() => onToolChange(tool === 'straighten' ? null : 'straighten')} className={toolButton(tool === 'straighten')}>
+          <Ruler className="h-3 w-3" />
+          <span>Straighten</span>
+        </button>
+      </div>
+      {tool === 'straighten' && (
+        <p className="text-xs text-purple-300/70">Draw along a line that should be level or upright.</p>
+      )}
+
+      {/* Aspect ratio */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-purple-200">Aspect Ratio</label>
+        <div className="grid grid-cols-3 gap-2">
+          {ASPECT_PRESETS.map(preset => (
+            <button key={preset.id} onClick={() => handleAspectChange(preset.id)} className={toolButton(aspect === preset.id)}>
+              <span>{preset.label}</span>
+            </button>
+          ))}
+        </div>
+        {aspect === 'custom' && (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={1}
+              value={customAspect.width}
+              onChange={(e) => handleCustomAspectChange('width', Number(e.target.value))}
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+            />
+            <span className="text-purple-300">:</span>
+            <input
+              type="number"
+              min={1}
+              value={customAspect.height}
+              onChange={(e) => handleCustomAspectChange('height', Number(e.target.value))}
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Fine rotation */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-purple-200">Straighten</label>
+          <span className="text-sm text-white font-mono">{geometry.angle > 0 ? '+' : ''}{geometry.angle.toFixed(1)}°</span>
+        </div>
+        <input
+          type="range"
+          min={-MAX_STRAIGHTEN_ANGLE}
+          max={MAX_STRAIGHTEN_ANGLE}
+          step={0.1}
+          value={geometry.angle}
+          onChange={(e) => setGeometry(straightenGeometry(geometry, Number(e.target.value), width, height), 'Straighten')}
+          className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider border border-white/10"
+        />
+      </div>
+
+      {/* Quarter turns and flips */}
+      <div className="grid grid-cols-4 gap-2">
+        <button onClick={() => handleRotate(-1)} className={toolButton(false)} title="Rotate left">
+          <RotateCcw className="h-4 w-4" />
+        </button>
+        <button onClick={() => handleRotate(1)} className={toolButton(false)} title="Rotate right">
+          <RotateCw className="h-4 w-4" />
+        </button>
+        <button onClick={() => setGeometry(flipGeometry(geometry, 'horizontal'), 'Flip Horizontal')} className={toolButton(false)} title="Flip horizontal">
+          <FlipHorizontal2 className="h-4 w-4" />
+        </button>
+        <button onClick={() => setGeometry(flipGeometry(geometry, 'vertical'), 'Flip Vertical')} className={toolButton(false)} title="Flip vertical">
+          <FlipVertical2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      <motion.button
+        whileTap={{ scale: 0.95 }}
+        onClick={() => {
+          onAspectChange('free');
+          setGeometry(DEFAULT_GEOMETRY, 'Reset Crop & Rotate');
+        }}
+        disabled={isIdentityGeometry(geometry)}
+        className="w-full py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+      >
+        Reset Crop & Rotate
+      </motion.button>
+    </div>
+  );
+};
+
+export default GeometryControls;
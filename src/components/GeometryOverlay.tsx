@@ -0,0 +1,163 @@
+import React, { useRef } from 'react';
+import type { View } from './ComparisonViewer';
+import { CropRect, constrainCrop } from '../utils/geometry';
+
+type Point = { x: number; y: number };
+
+// Part of the crop frame being dragged: the whole frame, an edge or a corner
+type Handle = 'move' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface GeometryOverlayProps {
+  view: View;
+  // Size of the uncropped image as shown
+  width: number;
+  height: number;
+  // Fine rotation of the image, which the crop has to stay within
+  angle: number;
+  crop: CropRect;
+  // Width over height the crop is held to, in pixels; null for free
+  aspect: number | null;
+  // While set, the frame can be moved and resized. `done` marks the end
+  // of a drag.
+  onCropChange?: (crop: CropRect, done: boolean) => void;
+  // Straightening line being drawn, in image pixels
+  guide?: { from: Point; to: Point } | null;
+}
+
+// Smallest crop side, in image pixels
+const MIN_CROP_SIZE = 8;
+
+const HANDLES: Exclude<Handle, 'move'>[] = ['n', 's', 'e', 'w', 'nw', 'ne', 'sw', 'se'];
+
+const GeometryOverlay: React.FC<GeometryOverlayProps> = ({ view, width, height, angle, crop, aspect, onCropChange, guide }) => {
+  const dragRef = useRef<{ handle: Handle; startX: number; startY: number; start: CropRect; last: CropRect } | null>(null);
+
+  // Crop in image pixels
+  const x = crop.x * width;
+  const y = crop.y * height;
+  const w = crop.width * width;
+  const h = crop.height * height;
+
+  // The dragged crop in image pixels, before it is kept on the image
+  const dragCrop = (handle: Handle, start: CropRect, dx: number, dy: number): CropRect => {
+    let left = start.x * width;
+    let top = start.y * height;
+    let right = left + start.width * width;
+    let bottom = top + start.height * height;
+    if (handle === 'move') return { ...start, x: (left + dx) / width, y: (top + dy) / height };
+
+    if (handle.includes('w')) left = Math.min(right - MIN_CROP_SIZE, left + dx);
+    if (handle.includes('e')) right = Math.max(left + MIN_CROP_SIZE, right + dx);
+    if (handle.includes('n')) top = Math.min(bottom - MIN_CROP_SIZE, top + dy);
+    if (handle.includes('s')) bottom = Math.max(top + MIN_CROP_SIZE, bottom + dy);
+
+    if (aspect !== null) {
+      // Corners and side edges follow the width, top and bottom the
+      // height; the other side grows about the opposite corner or the
+      // middle of the edge
+      if (handle === 'n' || handle === 's') {
+        const middle = (left + right) / 2;
+        const half = (bottom - top) * aspect / 2;
+        left = middle - half;
+        right = middle + half;
+      } else {
+        const newHeight = (right - left) / aspect;
+        if (handle === 'e' || handle === 'w') {
+          const middle = (top + bottom) / 2;
+          top = middle - newHeight / 2;
+          bottom = middle + newHeight / 2;
+        } else if (handle.includes('n')) {
+          top = bottom - newHeight;
+        } else {
+          bottom = top + newHeight;
+        }
+      }
+    }
+
+    return { x: left / width, y: top / height, width: (right - left) / width, height: (bottom - top) / height };
+  };
+
+  const handlePointerDown = (handle: Handle) => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!onCropChange) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { handle, startX: event.clientX, startY: event.clientY, start: crop, last: crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !onCropChange) return;
+    const next = dragCrop(drag.handle, drag.start, (event.clientX - drag.startX) / view.scale, (event.clientY - drag.startY) / view.scale);
+    drag.last = constrainCrop(drag.last, next, width, height, angle);
+    onCropChange(drag.last, false);
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    onCropChange?.(drag.last, true);
+  };
+
+  const handleStyle = (handle: Exclude<Handle, 'move'>): React.CSSProperties => ({
+    left: handle.includes('w') ? 0 : handle.includes('e') ? '100%' : '50%',
+    top: handle.includes('n') ? 0 : handle.includes('s') ? '100%' : '50%',
+    cursor: handle.length === 2
+      ? (handle === 'nw' || handle === 'se' ? 'nwse-resize' : 'nesw-resize')
+      : (handle === 'n' || handle === 's' ? 'ns-resize' : 'ew-resize')
+  });
+
+  const editable = onCropChange !== undefined;
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      {/* Crop frame; everything outside it is dimmed. Handles capture the
+          pointer too, and their events bubble up to the frame. */}
+      <div
+        className={`absolute border border-white/90 ${editable ? 'pointer-events-auto cursor-move' : ''}`}
+        style={{
+          left: view.x + x * view.scale,
+          top: view.y + y * view.scale,
+          width: w * view.scale,
+          height: h * view.scale,
+          boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)'
+        }}
+        onPointerDown={handlePointerDown('move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Rule of thirds */}
+        <div className="absolute inset-y-0 left-1/3 w-px bg-white/30" />
+        <div className="absolute inset-y-0 left-2/3 w-px bg-white/30" />
+        <div className="absolute inset-x-0 top-1/3 h-px bg-white/30" />
+        <div className="absolute inset-x-0 top-2/3 h-px bg-white/30" />
+
+        {editable && HANDLES.map(handle => (
+          <div
+            key={handle}
+            className="absolute h-3 w-3 -ml-1.5 -mt-1.5 rounded-sm bg-white border border-purple-500 shadow"
+            style={handleStyle(handle)}
+            onPointerDown={handlePointerDown(handle)}
+          />
+        ))}
+      </div>
+
+      {guide && (
+        <svg className="absolute inset-0 w-full h-full">
+          <line
+            x1={view.x + guide.from.x * view.scale}
+            y1={view.y + guide.from.y * view.scale}
+            x2={view.x + guide.to.x * view.scale}
+            y2={view.y + guide.to.y * view.scale}
+            stroke="#f472b6"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default GeometryOverlay;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, BarChart3 } from 'lucide-react';
+import { Histogram } from '../utils/histogram';
+
+interface HistogramPanelProps {
+  original: Histogram | null;
+  processed: Histogram | null;
+  showClipping: boolean;
+  onShowClippingChange: (showClipping: boolean) => void;
+}
+
+const HEIGHT = 100;
+
+// Clipping spikes in the end bins would flatten everything else, so the
+// vertical scale comes from the bins in between
+const peak = (histogram: Histogram) => {
+  let max = 1;
+  for (const bins of [histogram.red, histogram.green, histogram.blue, histogram.luma]) {
+    for (let i = 1; i < 255; i++) max = Math.max(max, bins[i]);
+  }
+  return max;
+};
+
+const areaPath = (bins: Uint32Array, max: number) => {
+  let path = `M0,${HEIGHT}`;
+  for (let i = 0; i < 256; i++) {
+    path += ` L${i},${HEIGHT - Math.min(1, bins[i] / max) * HEIGHT} L${i + 1},${HEIGHT - Math.min(1, bins[i] / max) * HEIGHT}`;
+  }
+  return `${path} L256,${HEIGHT} Z`;
+};
+
+const formatPercent = (count: number, total: number) => {
+  const percent = total > 0 ? (count / total) * 100 : 0;
+  return `${percent < 10 ? percent.toFixed(1) : Math.round(percent)}%`;
+};
+
+const HistogramChart: React.FC<{ title: string; histogram: Histogram | null }> = ({ title, histogram }) => {
+  const max = histogram ? peak(histogram) : 1;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold text-purple-200">{title}</span>
+        {histogram && (
+          <span className="text-purple-300/70 font-mono">
+            <span className={histogram.shadowClipped > 0 ? 'text-blue-300' : ''}>
+              ▼ {formatPercent(histogram.shadowClipped, histogram.pixelCount)}
+            </span>
+            {' · '}
+            <span className={histogram.highlightClipped > 0 ? 'text-red-300' : ''}>
+              ▲ {formatPercent(histogram.highlightClipped, histogram.pixelCount)}
+            </span>
+          </span>
+        )}
+      </div>
+      <div className="h-24 bg-black/30 rounded-lg border border-white/10 overflow-hidden">
+        {histogram ? (
+          <svg viewBox={`0 0 256 ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-full">
+            <g style={{ mixBlendMode: 'screen' }}>
+              <path d={areaPath(histogram.red, max)} fill="rgb(239 68 68 / 0.7)" />
+              <path d={areaPath(histogram.green, max)} fill="rgb(34 197 94 / 0.7)" />
+              <path d={areaPath(histogram.blue, max)} fill="rgb(59 130 246 / 0.7)" />
+            </g>
+            <path d={areaPath(histogram.luma, max)} fill="none" stroke="rgb(255 255 255 / 0.8)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          </svg>
+        ) : (
+          <div className="h-full flex items-center justify-center text-xs text-purple-300/70">Waiting for image...</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const HistogramPanel: React.FC<HistogramPanelProps> = ({ original, processed, showClipping, onShowClippingChange }) => {
+  const clipped = processed !== null && (processed.shadowClipped > 0 || processed.highlightClipped > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-purple-200 flex items-center space-x-2">
+          <BarChart3 className="h-4 w-4" />
+          <span>Histogram</span>
+        </h3>
+        <motion.button
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onShowClippingChange(!showClipping)}
+          className={`py-1 px-2 rounded-lg text-xs border transition-all duration-200 flex items-center space-x-1 ${
+            showClipping
+              ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+              : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+          }`}
+          title="Highlight clipped pixels in the preview"
+        >
+          <AlertTriangle className={`h-3 w-3 ${clipped ? 'text-yellow-300' : ''}`} />
+          <span>Show Clipping</span>
+        </motion.button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <HistogramChart title="Original" histogram={original} />
+        <HistogramChart title="Enhanced" histogram={processed} />
+      </div>
+
+      <p className="text-xs text-purple-300/70">
+        ▼ shadows and ▲ highlights with a channel clipped to black or white
+      </p>
+    </div>
+  );
+};
+
+export default HistogramPanel;
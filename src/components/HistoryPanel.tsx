@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Bookmark, Redo2, Trash2, Undo2 } from 'lucide-react';
+import { EnhancementSettings } from '../App';
+import { History, Snapshot, canRedo, canUndo, flattenHistory } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: History<EnhancementSettings>;
+  snapshots: Snapshot<EnhancementSettings>[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (id: number) => void;
+  onSaveSnapshot: (name: string) => void;
+  onRestoreSnapshot: (id: number) => void;
+  onDeleteSnapshot: (id: number) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  snapshots,
+  onUndo,
+  onRedo,
+  onJump,
+  onSaveSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot
+}) => {
+  const [snapshotName, setSnapshotName] = useState('');
+  const entries = flattenHistory(history);
+
+  const handleSaveSnapshot = () => {
+    onSaveSnapshot(snapshotName.trim() || `Snapshot ${snapshots.length + 1}`);
+    setSnapshotName('');
+  };
+
+  const iconButton = 'flex-1 py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center space-x-1';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-2">
+        <button onClick={onUndo} disabled={!canUndo(history)} className={iconButton} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-3 w-3" />
+          <span>Undo</span>
+        </button>
+        <button onClick={onRedo} disabled={!canRedo(history)} className={iconButton} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="h-3 w-3" />
+          <span>Redo</span>
+        </button>
+      </div>
+
+      <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+        {entries.map(({ entry, depth, current }) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(entry.id)}
+            style={{ paddingLeft: `${0.75 + depth * 0.75}rem` }}
+            className={`w-full flex items-center justify-between space-x-2 rounded-lg border pr-3 py-1.5 text-left text-xs transition-all duration-200 ${
+              current
+                ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+                : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+            }`}
+          >
+            <span className="truncate">{depth > 0 && <span className="text-purple-400">↳ </span>}{entry.label}</span>
+            <span className="text-purple-300/70 font-mono shrink-0">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-semibold text-purple-200">Snapshots</label>
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={snapshotName}
+            placeholder={`Snapshot ${snapshots.length + 1}`}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveSnapshot()}
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-purple-300/50 focus:outline-none focus:border-purple-400/50"
+          />
+          <button
+            onClick={handleSaveSnapshot}
+            className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 transition-all duration-200 flex items-center space-x-1"
+          >
+            <Bookmark className="h-3 w-3" />
+            <span>Save</span>
+          </button>
+        </div>
+        {snapshots.map(snapshot => (
+          <div
+            key={snapshot.id}
+            className="flex items-center space-x-2 bg-white/5 rounded-lg border border-white/10 px-3 py-1.5"
+          >
+            <button
+              onClick={() => onRestoreSnapshot(snapshot.id)}
+              className="flex-1 min-w-0 text-left text-xs text-white truncate hover:text-pink-300 transition-colors"
+              title="Restore snapshot"
+            >
+              {snapshot.name}
+            </button>
+            <span className="text-xs text-purple-300/70 font-mono">{formatTime(snapshot.timestamp)}</span>
+            <button
+              onClick={() => onDeleteSnapshot(snapshot.id)}
+              className="p-1 text-purple-300 hover:text-white transition-colors"
+              title="Delete snapshot"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -3,24 +3,33 @@ import { useDropzone } from 'react-dropzone';
 import { Upload, Image as ImageIcon } from 'lucide-react';
 import { motion } from 'framer-motion';
 
+// Pass `onImagesUpload` to accept several files at once
 interface ImageUploaderProps {
-  onImageUpload: (file: File) => void;
+  onImageUpload?: (file: File) => void;
+  onImagesUpload?: (files: File[]) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onImagesUpload }) => {
+  const multiple = onImagesUpload !== undefined;
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
-      onImageUpload(acceptedFiles[0]);
+    if (acceptedFiles.length === 0) return;
+
+    if (onImagesUpload) {
+      onImagesUpload(acceptedFiles);
+    } else {
+      onImageUpload?.(acceptedFiles[0]);
     }
-  }, [onImageUpload]);
+  }, [onImageUpload, onImagesUpload]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.bmp', '.tiff']
+      'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.bmp', '.tif', '.tiff'],
+      'image/x-adobe-dng': ['.dng']
     },
-    multiple: false,
-    maxSize: 10 * 1024 * 1024 // 10MB
+    multiple,
+    maxSize: 200 * 1024 * 1024 // 200MB, large scans are processed in tiles
   });
 
   return (
@@ -49,13 +58,15 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload }) => {
         
         <div>
           <h3 className="text-lg font-semibold text-white mb-2">
-            {isDragActive ? 'Drop your image here' : 'Upload an image'}
+            {isDragActive
+              ? `Drop your ${multiple ? 'images' : 'image'} here`
+              : multiple ? 'Add images to the batch' : 'Upload an image'}
           </h3>
           <p className="text-purple-200 text-sm">
-            Drag and drop an image file, or click to browse
+            Drag and drop {multiple ? 'image files' : 'an image file'}, or click to browse
           </p>
           <p className="text-purple-300 text-xs mt-2">
-            Supports: JPEG, PNG, WebP, BMP, TIFF (max 10MB)
+            Supports: JPEG, PNG (8/16-bit), WebP, BMP, TIFF, DNG raw (max 200MB)
           </p>
         </div>
       </div>
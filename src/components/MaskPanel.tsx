@@ -0,0 +1,374 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Circle, Eraser, Eye, EyeOff, MoveDiagonal2, Paintbrush, Plus, Sun, Trash2 } from 'lucide-react';
+import { EnhancementSettings } from '../App';
+import {
+  BrushOptions,
+  MASK_LABELS,
+  MASK_TYPES,
+  MAX_BRUSH_RADIUS,
+  MIN_BRUSH_RADIUS,
+  MaskLayer,
+  MaskSettings,
+  MaskTool,
+  MaskType,
+  createMask
+} from '../utils/masks';
+import { MAX_TEMPERATURE, MAX_TINT, MIN_TEMPERATURE } from '../utils/whiteBalance';
+
+interface MaskPanelProps {
+  settings: EnhancementSettings;
+  onChange: (settings: EnhancementSettings, label?: string) => void;
+  // Mask whose adjustments are shown and which drags on the image edit
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  tool: MaskTool | null;
+  onToolChange: (tool: MaskTool | null) => void;
+  brush: BrushOptions;
+  onBrushChange: (brush: BrushOptions) => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+}
+
+type MaskAdjustment = 'brightness' | 'contrast' | 'saturation' | 'temperature' | 'tint' | 'sharpening' | 'denoising';
+
+// Settings each mask can change locally
+const ADJUSTMENTS: { key: MaskAdjustment; label: string; min: number; max: number; step: number }[] = [
+  { key: 'brightness', label: 'Brightness', min: -50, max: 50, step: 1 },
+  { key: 'contrast', label: 'Contrast', min: -50, max: 50, step: 1 },
+  { key: 'saturation', label: 'Saturation', min: -50, max: 50, step: 1 },
+  { key: 'temperature', label: 'Temperature', min: MIN_TEMPERATURE, max: MAX_TEMPERATURE, step: 50 },
+  { key: 'tint', label: 'Tint', min: -MAX_TINT, max: MAX_TINT, step: 1 },
+  { key: 'sharpening', label: 'Sharpening', min: 0, max: 100, step: 1 },
+  { key: 'denoising', label: 'Noise Reduction', min: 0, max: 100, step: 1 }
+];
+
+const MASK_ICONS: Record<MaskType, React.ComponentType<{ className?: string }>> = {
+  brush: Paintbrush,
+  linear: MoveDiagonal2,
+  radial: Circle,
+  luminance: Sun
+};
+
+// Tool a new mask of each type starts with
+const INITIAL_TOOLS: Record<MaskType, MaskTool | null> = {
+  brush: 'paint',
+  linear: 'shape',
+  radial: 'shape',
+  luminance: null
+};
+
+const percent = (value: number) => Math.round(value * 100);
+
+const MaskPanel: React.FC<MaskPanelProps> = ({
+  settings,
+  onChange,
+  selectedId,
+  onSelect,
+  tool,
+  onToolChange,
+  brush,
+  onBrushChange,
+  showOverlay,
+  onShowOverlayChange
+}) => {
+  const { masks } = settings;
+  const selected = masks.find(mask => mask.id === selectedId) ?? null;
+
+  const setMasks = (next: MaskLayer[], label: string) => {
+    onChange({ ...settings, masks: next }, label);
+  };
+
+  const updateMask = (mask: MaskLayer, changes: Partial<MaskLayer>, label: string) => {
+    setMasks(masks.map(item => item.id === mask.id ? { ...item, ...changes } : item), `${mask.name}: ${label}`);
+  };
+
+  const updateShape = (mask: MaskLayer, changes: Record<string, number>, label: string) => {
+    updateMask(mask, { shape: { ...mask.shape, ...changes } as MaskLayer['shape'] }, label);
+  };
+
+  const updateAdjustment = (mask: MaskLayer, key: MaskAdjustment, value: number, label: string) => {
+    const next: MaskSettings = { ...mask.settings, [key]: value };
+    updateMask(mask, { settings: next }, label);
+  };
+
+  const handleAdd = (type: MaskType) => {
+    const mask = createMask(type, settings, masks.length);
+    setMasks([...masks, mask], `Add ${MASK_LABELS[type]}`);
+    onSelect(mask.id);
+    onToolChange(INITIAL_TOOLS[type]);
+  };
+
+  const handleRemove = (mask: MaskLayer) => {
+    setMasks(masks.filter(item => item.id !== mask.id), `Remove ${mask.name}`);
+    if (mask.id === selectedId) {
+      onSelect(null);
+      onToolChange(null);
+    }
+  };
+
+  const handleSelect = (mask: MaskLayer) => {
+    if (mask.id === selectedId) return;
+    onSelect(mask.id);
+    onToolChange(INITIAL_TOOLS[mask.shape.type]);
+  };
+
+  const MaskSlider = ({
+    label,
+    value,
+    min,
+    max,
+    step,
+    unit = '',
+    onValueChange
+  }: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+    onValueChange: (value: number) => void;
+  }) => (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center">
+        <label className="text-xs font-medium text-purple-200">{label}</label>
+        <span className="text-xs text-white font-mono">{value > 0 && min < 0 ? '+' : ''}{value}{unit}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onValueChange(Number(e.target.value))}
+        className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer slider border border-white/10"
+      />
+    </div>
+  );
+
+  const toolButton = (active: boolean) =>
+    `py-2 px-3 rounded-lg text-xs font-medium border transition-all duration-200 flex items-center justify-center space-x-1 ${
+      active
+        ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+        : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+    }`;
+  const iconButton = 'p-1 text-purple-300 hover:text-white transition-colors';
+
+  const renderShapeControls = (mask: MaskLayer) => {
+    const shape = mask.shape;
+    switch (shape.type) {
+      case 'linear':
+        return <p className="text-xs text-purple-300/70">Drag on the image from full effect to none.</p>;
+      case 'radial':
+        return (
+          <>
+            <p className="text-xs text-purple-300/70">Drag on the image from the centre outwards.</p>
+            <MaskSlider
+              label="Feather"
+              value={percent(shape.feather)}
+              min={0}
+              max={100}
+              step={1}
+              unit="%"
+              onValueChange={(value) => updateShape(mask, { feather: value / 100 }, 'Feather')}
+            />
+          </>
+        );
+      case 'luminance':
+        return (
+          <>
+            <MaskSlider
+              label="Darkest"
+              value={percent(shape.min)}
+              min={0}
+              max={100}
+              step={1}
+              unit="%"
+              onValueChange={(value) => updateShape(mask, { min: Math.min(value / 100, shape.max) }, 'Luminance Range')}
+            />
+            <MaskSlider
+              label="Brightest"
+              value={percent(shape.max)}
+              min={0}
+              max={100}
+              step={1}
+              unit="%"
+              onValueChange={(value) => updateShape(mask, { max: Math.max(value / 100, shape.min) }, 'Luminance Range')}
+            />
+            <MaskSlider
+              label="Falloff"
+              value={percent(shape.feather)}
+              min={0}
+              max={50}
+              step={1}
+              unit="%"
+              onValueChange={(value) => updateShape(mask, { feather: value / 100 }, 'Luminance Falloff')}
+            />
+          </>
+        );
+      case 'brush':
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {masks.map(mask => {
+          const Icon = MASK_ICONS[mask.shape.type];
+          return (
+            <div
+              key={mask.id}
+              onClick={() => handleSelect(mask)}
+              className={`flex items-center space-x-2 rounded-xl border px-3 py-2 cursor-pointer transition-all duration-200 ${
+                mask.id === selectedId
+                  ? 'bg-gradient-to-r from-purple-500/20 to-pink-500/20 border-purple-400/50'
+                  : 'bg-white/5 border-white/10 hover:bg-white/10'
+              } ${mask.enabled ? '' : 'opacity-60'}`}
+            >
+              <Icon className="h-4 w-4 text-purple-300 shrink-0" />
+              <span className="flex-1 min-w-0 text-sm text-white truncate">{mask.name}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  updateMask(mask, { enabled: !mask.enabled }, mask.enabled ? 'Hide' : 'Show');
+                }}
+                className={iconButton}
+                title={mask.enabled ? 'Disable mask' : 'Enable mask'}
+              >
+                {mask.enabled ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRemove(mask);
+                }}
+                className={iconButton}
+                title="Remove mask"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+        {masks.length === 0 && (
+          <p className="text-sm text-purple-300/70 text-center py-2">No masks. Adjustments apply to the whole image.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {MASK_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => handleAdd(type)}
+            className="flex items-center space-x-1 py-1 px-2 rounded-lg text-xs text-purple-200 bg-white/5 border border-white/10 hover:bg-white/10 transition-all duration-200"
+          >
+            <Plus className="h-3 w-3" />
+            <span>{MASK_LABELS[type]}</span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="space-y-4 border-t border-white/10 pt-4">
+          {/* Drawing tools */}
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={() => onToolChange(tool === 'paint' ? null : 'paint')} className={toolButton(tool === 'paint')}>
+              <Paintbrush className="h-3 w-3" />
+              <span>Paint</span>
+            </button>
+            <button onClick={() => onToolChange(tool === 'erase' ? null : 'erase')} className={toolButton(tool === 'erase')}>
+              <Eraser className="h-3 w-3" />
+              <span>Erase</span>
+            </button>
+            {(selected.shape.type === 'linear' || selected.shape.type === 'radial') && (
+              <button onClick={() => onToolChange(tool === 'shape' ? null : 'shape')} className={toolButton(tool === 'shape')}>
+                <MoveDiagonal2 className="h-3 w-3" />
+                <span>Shape</span>
+              </button>
+            )}
+          </div>
+
+          {(tool === 'paint' || tool === 'erase') && (
+            <div className="space-y-3">
+              <MaskSlider
+                label="Brush Size"
+                value={Math.round(brush.radius * 1000) / 10}
+                min={MIN_BRUSH_RADIUS * 100}
+                max={MAX_BRUSH_RADIUS * 100}
+                step={0.5}
+                unit="%"
+                onValueChange={(value) => onBrushChange({ ...brush, radius: value / 100 })}
+              />
+              <MaskSlider
+                label="Brush Feather"
+                value={percent(brush.feather)}
+                min={0}
+                max={100}
+                step={1}
+                unit="%"
+                onValueChange={(value) => onBrushChange({ ...brush, feather: value / 100 })}
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {renderShapeControls(selected)}
+            <MaskSlider
+              label="Opacity"
+              value={percent(selected.opacity)}
+              min={0}
+              max={100}
+              step={1}
+              unit="%"
+              onValueChange={(value) => updateMask(selected, { opacity: value / 100 }, 'Opacity')}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => updateMask(selected, { invert: !selected.invert }, 'Invert')}
+              className={toolButton(selected.invert)}
+            >
+              <span>Invert</span>
+            </button>
+            <button onClick={() => onShowOverlayChange(!showOverlay)} className={toolButton(showOverlay)}>
+              {showOverlay ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+              <span>Show Mask</span>
+            </button>
+          </div>
+
+          {/* Local adjustments */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-purple-200">Adjustments</h3>
+            {ADJUSTMENTS.map(({ key, label, min, max, step }) => (
+              <MaskSlider
+                key={key}
+                label={label}
+                value={selected.settings[key]}
+                min={min}
+                max={max}
+                step={step}
+                unit={key === 'temperature' ? 'K' : ''}
+                onValueChange={(value) => updateAdjustment(selected, key, value, label)}
+              />
+            ))}
+            <motion.button
+              whileTap={{ scale: 0.95 }}
+              onClick={() => {
+                const { settings: current } = createMask(selected.shape.type, settings, 0);
+                updateMask(selected, { settings: current }, 'Reset Adjustments');
+              }}
+              className="w-full py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 transition-all duration-200"
+            >
+              Match Image Settings
+            </motion.button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskPanel;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Tags } from 'lucide-react';
+import {
+  ImageMetadata,
+  MetadataOptions,
+  hasMetadata,
+  summarizeMetadata
+} from '../utils/metadata';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata;
+  options: MetadataOptions;
+  onChange: (options: MetadataOptions) => void;
+}
+
+interface ToggleProps {
+  label: string;
+  enabled: boolean;
+  disabled?: boolean;
+  onToggle: () => void;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ label, enabled, disabled = false, onToggle }) => (
+  <div className={`flex items-center justify-between ${disabled ? 'opacity-40' : ''}`}>
+    <span className="text-xs text-purple-200">{label}</span>
+    <motion.button
+      whileTap={{ scale: 0.95 }}
+      onClick={onToggle}
+      disabled={disabled}
+      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+        enabled ? 'bg-gradient-to-r from-purple-500 to-pink-500' : 'bg-white/20'
+      }`}
+    >
+      <motion.span
+        animate={{ x: enabled ? 18 : 2 }}
+        transition={{ duration: 0.2 }}
+        className="inline-block h-3 w-3 transform rounded-full bg-white shadow-lg"
+      />
+    </motion.button>
+  </div>
+);
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, options, onChange }) => {
+  const summary = summarizeMetadata(metadata);
+
+  const toggle = (key: keyof MetadataOptions) => {
+    onChange({ ...options, [key]: !options[key] });
+  };
+
+  const fields: { label: string; value: string | null }[] = [
+    { label: 'Camera', value: summary.camera },
+    { label: 'Lens', value: summary.lens },
+    { label: 'Captured', value: summary.capturedAt },
+    { label: 'Exposure', value: summary.exposure },
+    {
+      label: 'Location',
+      value: summary.location
+        ? `${summary.location.latitude.toFixed(5)}, ${summary.location.longitude.toFixed(5)}`
+        : null
+    },
+    { label: 'Author', value: summary.author },
+    { label: 'Copyright', value: summary.copyright },
+    { label: 'Software', value: summary.software },
+    { label: 'Color Profile', value: summary.colorProfile }
+  ];
+  const present = fields.filter(field => field.value);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-4 bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 p-4"
+    >
+      <div className="flex items-center space-x-2 mb-3">
+        <Tags className="h-4 w-4 text-purple-300" />
+        <h3 className="text-sm font-semibold text-white">Metadata</h3>
+      </div>
+
+      {present.length > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          {present.map(field => (
+            <div key={field.label} className="min-w-0">
+              <span className="text-purple-200">{field.label}:</span>
+              <p className="text-white font-mono truncate" title={field.value ?? undefined}>{field.value}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-purple-300/70">
+          {hasMetadata(metadata) ? 'No displayable fields in the embedded metadata' : 'No embedded metadata'}
+        </p>
+      )}
+
+      {hasMetadata(metadata) && (
+        <div className="mt-4 pt-4 border-t border-white/10 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+          <Toggle label="Keep EXIF" enabled={options.keepExif} disabled={!metadata.exif} onToggle={() => toggle('keepExif')} />
+          <Toggle label="Keep XMP" enabled={options.keepXmp} disabled={!metadata.xmp} onToggle={() => toggle('keepXmp')} />
+          <Toggle label="Keep Color Profile" enabled={options.keepIcc} disabled={!metadata.icc} onToggle={() => toggle('keepIcc')} />
+          <Toggle label="Remove GPS Location" enabled={options.stripGps} onToggle={() => toggle('stripGps')} />
+          <Toggle label="Remove Author & Copyright" enabled={options.stripAuthor} onToggle={() => toggle('stripAuthor')} />
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,184 @@
+import React, { useRef } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronUp, Copy, Pin, Plus, RotateCcw, Save, Trash2, Upload } from 'lucide-react';
+import { EnhancementSettings } from '../App';
+import {
+  DEFAULT_PIPELINE,
+  STAGE_LABELS,
+  StageKind,
+  addStage,
+  duplicateStage,
+  isPinned,
+  isStageActive,
+  moveStage,
+  parsePipeline,
+  removeStage,
+  serializePipeline,
+  updateStage
+} from '../utils/pipeline';
+import { validatePresetSettings, withDefaultSettings } from '../utils/presets';
+
+interface PipelineEditorProps {
+  settings: EnhancementSettings;
+  onChange: (settings: EnhancementSettings, label?: string) => void;
+}
+
+const PipelineEditor: React.FC<PipelineEditorProps> = ({ settings, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { pipeline } = settings;
+
+  const setPipeline = (next: typeof pipeline, label: string) => {
+    onChange({ ...settings, pipeline: next }, label);
+  };
+
+  const handleSave = () => {
+    const json = JSON.stringify(serializePipeline(settings), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = 'pipeline.json';
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleLoad = async (file: File) => {
+    try {
+      const loaded = parsePipeline(
+        await file.text(),
+        (maskSettings) => withDefaultSettings(validatePresetSettings(maskSettings, file.name))
+      );
+      onChange({
+        ...settings,
+        pipeline: loaded.stages,
+        upscaleFactor: loaded.upscaleFactor,
+        upscaleAlgorithm: loaded.upscaleAlgorithm,
+        upscaleModel: loaded.upscaleModel,
+        workingSpace: loaded.workingSpace,
+        geometry: loaded.geometry,
+        colorSpace: loaded.colorSpace,
+        masks: loaded.masks,
+        demosaic: loaded.demosaic
+      }, `Load ${file.name}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to load pipeline.');
+    }
+  };
+
+  const iconButton = 'p-1 text-purple-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {pipeline.map((stage, index) => {
+          const active = isStageActive(stage, settings);
+          return (
+            <div
+              key={stage.id}
+              className={`flex items-center space-x-2 rounded-xl border px-3 py-2 transition-all duration-200 ${
+                active ? 'bg-white/5 border-white/10' : 'bg-white/[0.02] border-white/5 opacity-60'
+              }`}
+            >
+              <span className="text-xs text-purple-300/70 font-mono w-4">{index + 1}</span>
+              <motion.button
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setPipeline(updateStage(pipeline, index, { enabled: !stage.enabled }), `${stage.enabled ? 'Disable' : 'Enable'} ${STAGE_LABELS[stage.kind]}`)}
+                className={`relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors ${
+                  stage.enabled ? 'bg-gradient-to-r from-purple-500 to-pink-500' : 'bg-white/20'
+                }`}
+                title={stage.enabled ? 'Disable stage' : 'Enable stage'}
+              >
+                <motion.span
+                  animate={{ x: stage.enabled ? 18 : 2 }}
+                  transition={{ duration: 0.2 }}
+                  className="inline-block h-3 w-3 transform rounded-full bg-white shadow-lg"
+                />
+              </motion.button>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{STAGE_LABELS[stage.kind]}</p>
+                {stage.enabled && !active && (
+                  <p className="text-xs text-purple-300/70">Off at current settings</p>
+                )}
+              </div>
+              {isPinned(stage) && (
+                <button
+                  onClick={() => setPipeline(updateStage(pipeline, index, { params: undefined }), `Unpin ${STAGE_LABELS[stage.kind]}`)}
+                  className="flex items-center space-x-1 text-xs text-pink-300 bg-pink-500/10 border border-pink-500/30 rounded-full px-2 py-0.5 hover:bg-pink-500/20"
+                  title="Parameters are pinned by a loaded pipeline. Click to follow the sliders again."
+                >
+                  <Pin className="h-3 w-3" />
+                  <span>Pinned</span>
+                </button>
+              )}
+              <button onClick={() => setPipeline(moveStage(pipeline, index, -1), `Move ${STAGE_LABELS[stage.kind]} Up`)} disabled={index === 0} className={iconButton} title="Move up">
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button onClick={() => setPipeline(moveStage(pipeline, index, 1), `Move ${STAGE_LABELS[stage.kind]} Down`)} disabled={index === pipeline.length - 1} className={iconButton} title="Move down">
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button onClick={() => setPipeline(duplicateStage(pipeline, index), `Duplicate ${STAGE_LABELS[stage.kind]}`)} className={iconButton} title="Duplicate">
+                <Copy className="h-4 w-4" />
+              </button>
+              <button onClick={() => setPipeline(removeStage(pipeline, index), `Remove ${STAGE_LABELS[stage.kind]}`)} className={iconButton} title="Remove">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+        {pipeline.length === 0 && (
+          <p className="text-sm text-purple-300/70 text-center py-2">No stages. The image is exported unfiltered.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(STAGE_LABELS) as StageKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => setPipeline(addStage(pipeline, kind), `Add ${STAGE_LABELS[kind]}`)}
+            className="flex items-center space-x-1 py-1 px-2 rounded-lg text-xs text-purple-200 bg-white/5 border border-white/10 hover:bg-white/10 transition-all duration-200"
+          >
+            <Plus className="h-3 w-3" />
+            <span>{STAGE_LABELS[kind]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={handleSave}
+          className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-1"
+        >
+          <Save className="h-3 w-3" />
+          <span>Save</span>
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-1"
+        >
+          <Upload className="h-3 w-3" />
+          <span>Load</span>
+        </button>
+        <button
+          onClick={() => setPipeline(DEFAULT_PIPELINE, 'Reset Pipeline')}
+          className="py-2 px-3 bg-white/5 border border-white/10 text-purple-200 rounded-lg text-xs hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-1"
+        >
+          <RotateCcw className="h-3 w-3" />
+          <span>Reset</span>
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleLoad(file);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default PipelineEditor;
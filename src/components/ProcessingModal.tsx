@@ -1,13 +1,14 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, Cpu, Zap, Image as ImageIcon } from 'lucide-react';
+import { Sparkles, Cpu, Zap, Image as ImageIcon, X } from 'lucide-react';
 
 interface ProcessingModalProps {
   isOpen: boolean;
   progress?: number;
+  onCancel?: () => void;
 }
 
-const ProcessingModal: React.FC<ProcessingModalProps> = ({ isOpen, progress = 0 }) => {
+const ProcessingModal: React.FC<ProcessingModalProps> = ({ isOpen, progress = 0, onCancel }) => {
   const getProcessingStep = (progress: number) => {
     if (progress < 25) return { icon: ImageIcon, text: 'Loading and analyzing image...', step: 1 };
     if (progress < 50) return { icon: Cpu, text: 'Applying enhancement filters...', step: 2 };
@@ -83,6 +84,18 @@ const ProcessingModal: React.FC<ProcessingModalProps> = ({ isOpen, progress = 0
               <p className="text-sm text-purple-300">
                 Processing step {currentStep.step} of 4
               </p>
+
+              {onCancel && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={onCancel}
+                  className="w-full py-3 px-4 bg-white/5 backdrop-blur-sm border border-white/20 text-white rounded-xl text-sm font-medium hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-2"
+                >
+                  <X className="h-4 w-4" />
+                  <span>Cancel</span>
+                </motion.button>
+              )}
             </div>
           </motion.div>
         </motion.div>
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Clock, FileImage, Trash2 } from 'lucide-react';
+import { MAX_PROJECTS, ProjectEntry, projectSize } from '../utils/sessionStore';
+
+interface RecentProjectsProps {
+  projects: ProjectEntry[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const Thumbnail: React.FC<{ blob: Blob | null }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return (
+    <div className="h-12 w-12 shrink-0 rounded-lg overflow-hidden bg-white/5 border border-white/10 flex items-center justify-center">
+      {blob && url ? (
+        <img src={url} alt="" className="h-full w-full object-cover" />
+      ) : (
+        <FileImage className="h-5 w-5 text-purple-300" />
+      )}
+    </div>
+  );
+};
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, currentId, onOpen, onDelete }) => {
+  if (projects.length === 0) return null;
+
+  const totalSize = projects.reduce((sum, project) => sum + projectSize(project), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-purple-200 flex items-center space-x-2">
+          <Clock className="h-4 w-4" />
+          <span>Recent Projects</span>
+        </h3>
+        <span className="text-xs text-purple-300/70">
+          {projects.length}/{MAX_PROJECTS} · {formatSize(totalSize)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {projects.map(project => (
+          <div
+            key={project.id}
+            className={`flex items-center space-x-3 rounded-xl border px-3 py-2 transition-all duration-200 ${
+              project.id === currentId
+                ? 'bg-gradient-to-r from-purple-500/20 to-pink-500/20 border-purple-400/50'
+                : 'bg-white/5 border-white/10 hover:bg-white/10'
+            }`}
+          >
+            <motion.button
+              whileHover={{ scale: 1.01 }}
+              whileTap={{ scale: 0.99 }}
+              onClick={() => onOpen(project.id)}
+              className="flex flex-1 min-w-0 items-center space-x-3 text-left"
+            >
+              <Thumbnail blob={project.thumbnail} />
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate" title={project.name}>{project.name}</p>
+                <p className="text-xs text-purple-300/70">
+                  {new Date(project.updatedAt).toLocaleString()} · {formatSize(projectSize(project))}
+                </p>
+              </div>
+            </motion.button>
+            <button
+              onClick={() => onDelete(project.id)}
+              className="p-1 text-purple-300 hover:text-white transition-colors"
+              title="Delete project"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecentProjects;
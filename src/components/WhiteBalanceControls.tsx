@@ -0,0 +1,149 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Pipette, RotateCcw, Wand2 } from 'lucide-react';
+import { EnhancementSettings } from '../App';
+import {
+  MAX_TEMPERATURE,
+  MAX_TINT,
+  MIN_TEMPERATURE,
+  NEUTRAL_TEMPERATURE,
+  WhiteBalanceEstimator,
+  isNeutralWhiteBalance
+} from '../utils/whiteBalance';
+
+interface WhiteBalanceControlsProps {
+  settings: EnhancementSettings;
+  onChange: (settings: EnhancementSettings, label?: string) => void;
+  // Eyedropper: the next click on the image picks a neutral point
+  picking: boolean;
+  onPickingChange: (picking: boolean) => void;
+  onEstimate: (estimator: WhiteBalanceEstimator) => void;
+  // Whether the original has been analysed yet
+  canSample: boolean;
+}
+
+const ESTIMATORS: { key: WhiteBalanceEstimator; label: string; description: string }[] = [
+  { key: 'gray-world', label: 'Gray World', description: 'Assume the scene averages to grey' },
+  { key: 'white-patch', label: 'White Patch', description: 'Assume the brightest surfaces are white' }
+];
+
+const WhiteBalanceControls: React.FC<WhiteBalanceControlsProps> = ({
+  settings,
+  onChange,
+  picking,
+  onPickingChange,
+  onEstimate,
+  canSample
+}) => {
+  const BalanceSlider = ({
+    label,
+    value,
+    min,
+    max,
+    step,
+    unit,
+    track,
+    onValueChange
+  }: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    track: string;
+    onValueChange: (value: number) => void;
+  }) => (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-purple-200">{label}</label>
+        <span className="text-sm text-white font-mono bg-gradient-to-r from-purple-500/20 to-pink-500/20 px-2 py-1 rounded-md border border-white/10">
+          {value > 0 && min < 0 ? '+' : ''}{value}{unit}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onValueChange(Number(e.target.value))}
+        className="w-full h-3 rounded-lg appearance-none cursor-pointer slider border border-white/10"
+        style={{ background: track }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Higher temperatures correct for bluer light, so the image warms up */}
+      <BalanceSlider
+        label="Temperature"
+        value={settings.temperature}
+        min={MIN_TEMPERATURE}
+        max={MAX_TEMPERATURE}
+        step={50}
+        unit="K"
+        track="linear-gradient(to right, rgba(59, 130, 246, 0.6), rgba(255, 255, 255, 0.2), rgba(234, 179, 8, 0.6))"
+        onValueChange={(temperature) => onChange({ ...settings, temperature })}
+      />
+
+      <BalanceSlider
+        label="Tint"
+        value={settings.tint}
+        min={-MAX_TINT}
+        max={MAX_TINT}
+        step={1}
+        unit=""
+        track="linear-gradient(to right, rgba(34, 197, 94, 0.6), rgba(255, 255, 255, 0.2), rgba(217, 70, 239, 0.6))"
+        onValueChange={(tint) => onChange({ ...settings, tint })}
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => onPickingChange(!picking)}
+          disabled={!canSample}
+          className={`py-2 px-3 rounded-lg text-xs font-medium border transition-all duration-200 flex items-center justify-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed ${
+            picking
+              ? 'bg-gradient-to-r from-purple-500/30 to-pink-500/30 border-purple-400/50 text-white'
+              : 'bg-white/5 border-white/10 text-purple-200 hover:bg-white/10'
+          }`}
+          title="Click something neutral grey or white in the image"
+        >
+          <Pipette className="h-3 w-3" />
+          <span>Pick</span>
+        </motion.button>
+        {ESTIMATORS.map(estimator => (
+          <motion.button
+            key={estimator.key}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => onEstimate(estimator.key)}
+            disabled={!canSample}
+            className="py-2 px-3 rounded-lg text-xs font-medium border bg-white/5 border-white/10 text-purple-200 hover:bg-white/10 transition-all duration-200 flex items-center justify-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={estimator.description}
+          >
+            <Wand2 className="h-3 w-3" />
+            <span>{estimator.label}</span>
+          </motion.button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-purple-300/70">
+        <span>{picking ? 'Click a neutral point in the image' : 'Applied in linear light before other steps'}</span>
+        <button
+          onClick={() => onChange({ ...settings, temperature: NEUTRAL_TEMPERATURE, tint: 0 }, 'Reset White Balance')}
+          disabled={isNeutralWhiteBalance(settings)}
+          className="p-1 text-purple-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title="Reset white balance"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WhiteBalanceControls;
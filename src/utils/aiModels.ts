@@ -0,0 +1,158 @@
+import * as ort from 'onnxruntime-web/wasm';
+import { PixelTile, createTile } from './tiling';
+import { WorkingSpace, decodeLevel, encodeLevel } from './colorSpace';
+
+// On-device AI models, run with ONNX Runtime on its WASM (CPU) execution
+// provider. A model maps a 1×3×H×W float tensor of sRGB values in 0-1 to
+// the same for an image `scale` times the size: 1 for a denoiser, 2 or 4
+// for a Real-ESRGAN-style upscaler.
+
+export type ModelKind = 'denoiser' | 'upscaler';
+
+export interface ImageModel {
+  path: string;
+  session: ort.InferenceSession;
+  scale: number;
+  // Input size of models exported without dynamic axes
+  inputSize: { width: number; height: number } | null;
+}
+
+// Windows fed to the network, and the context each one reads beyond the
+// part of its output that is kept, so seams between windows don't show
+const INFERENCE_WINDOW = 256;
+const INFERENCE_OVERLAP = 16;
+// Side of the blank image a model is tried on to find its scale
+const PROBE_SIZE = 16;
+
+// Threads need a cross-origin isolated page; processing already runs in a
+// worker of its own
+ort.env.wasm.numThreads = 1;
+
+const SCALES: Record<ModelKind, number[]> = {
+  denoiser: [1],
+  upscaler: [2, 4]
+};
+
+// Sessions by kind and path, shared by every job in this worker
+const models = new Map<string, Promise<ImageModel>>();
+
+async function runSession(session: ort.InferenceSession, input: Float32Array, width: number, height: number): Promise<ort.Tensor> {
+  const results = await session.run({
+    [session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, height, width])
+  });
+  const output = results[session.outputNames[0]];
+  if (output.type !== 'float32' || output.dims.length !== 4 || output.dims[1] !== 3) {
+    throw new Error('AI model must return a 1×3×H×W float32 image');
+  }
+  return output;
+}
+
+async function createModel(path: string, kind: ModelKind): Promise<ImageModel> {
+  let session: ort.InferenceSession;
+  try {
+    session = await ort.InferenceSession.create(path, {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all'
+    });
+  } catch (error) {
+    throw new Error(`Failed to load AI model "${path}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const input = session.inputMetadata[0];
+  if (session.inputNames.length !== 1 || !input?.isTensor || input.type !== 'float32') {
+    throw new Error(`AI model "${path}" must take a single float32 image`);
+  }
+  const [, , height, width] = input.shape;
+  const inputSize = typeof width === 'number' && typeof height === 'number' ? { width, height } : null;
+
+  // The scale is read off the output for a blank image
+  const probe = inputSize ?? { width: PROBE_SIZE, height: PROBE_SIZE };
+  const output = await runSession(session, new Float32Array(3 * probe.width * probe.height), probe.width, probe.height);
+  const scale = output.dims[3] / probe.width;
+  output.dispose();
+  if (!SCALES[kind].includes(scale)) {
+    await session.release();
+    throw new Error(`AI model "${path}" scales images ${scale}×; a ${kind} must scale ${SCALES[kind].join('× or ')}×`);
+  }
+
+  return { path, session, scale, inputSize };
+}
+
+export function loadModel(path: string, kind: ModelKind): Promise<ImageModel> {
+  const key = `${kind}:${path}`;
+  let model = models.get(key);
+  if (!model) {
+    model = createModel(path, kind);
+    // Failed loads are tried again by the next job
+    model.catch(() => models.delete(key));
+    models.set(key, model);
+  }
+  return model;
+}
+
+// Run a model over a tile window by window. The output is `model.scale`
+// times the size of the tile; alpha isn't modelled and is carried over
+// from the nearest source pixel.
+export async function runModel(model: ImageModel, tile: PixelTile, workingSpace: WorkingSpace): Promise<PixelTile> {
+  const { scale, inputSize } = model;
+  const { width, height, data } = tile;
+  const output = createTile(width * scale, height * scale);
+  const out = output.data;
+
+  // Models see display-encoded values whatever the working space
+  const toModel = workingSpace === 'linear' ? (level: number) => encodeLevel(level) / 255 : (level: number) => level / 255;
+  const fromModel = workingSpace === 'linear'
+    ? (value: number) => decodeLevel(value * 255)
+    : (value: number) => Math.min(255, Math.max(0, value * 255));
+
+  const windowWidth = inputSize?.width ?? INFERENCE_WINDOW;
+  const windowHeight = inputSize?.height ?? INFERENCE_WINDOW;
+  const overlap = Math.min(windowWidth, windowHeight) > INFERENCE_OVERLAP * 4 ? INFERENCE_OVERLAP : 0;
+  const stepX = windowWidth - overlap * 2;
+  const stepY = windowHeight - overlap * 2;
+
+  for (let y = 0; y < height; y += stepY) {
+    for (let x = 0; x < width; x += stepX) {
+      const coreWidth = Math.min(stepX, width - x);
+      const coreHeight = Math.min(stepY, height - y);
+      const left = Math.max(0, x - overlap);
+      const top = Math.max(0, y - overlap);
+      // Fixed-size models read past the tile edge, which is repeated
+      const inputWidth = inputSize?.width ?? Math.min(width, x + coreWidth + overlap) - left;
+      const inputHeight = inputSize?.height ?? Math.min(height, y + coreHeight + overlap) - top;
+
+      const plane = inputWidth * inputHeight;
+      const input = new Float32Array(plane * 3);
+      for (let iy = 0; iy < inputHeight; iy++) {
+        const sy = Math.min(height - 1, top + iy);
+        for (let ix = 0; ix < inputWidth; ix++) {
+          const from = (sy * width + Math.min(width - 1, left + ix)) * 4;
+          const to = iy * inputWidth + ix;
+          input[to] = toModel(data[from]);
+          input[plane + to] = toModel(data[from + 1]);
+          input[plane * 2 + to] = toModel(data[from + 2]);
+        }
+      }
+
+      const result = await runSession(model.session, input, inputWidth, inputHeight);
+      const values = result.data as Float32Array;
+      const resultWidth = inputWidth * scale;
+      const resultPlane = resultWidth * inputHeight * scale;
+
+      // Keep the core of the window
+      for (let oy = y * scale; oy < (y + coreHeight) * scale; oy++) {
+        for (let ox = x * scale; ox < (x + coreWidth) * scale; ox++) {
+          const from = (oy - top * scale) * resultWidth + ox - left * scale;
+          const to = (oy * output.width + ox) * 4;
+          out[to] = fromModel(values[from]);
+          out[to + 1] = fromModel(values[resultPlane + from]);
+          out[to + 2] = fromModel(values[resultPlane * 2 + from]);
+          out[to + 3] = data[(Math.floor(oy / scale) * width + Math.floor(ox / scale)) * 4 + 3];
+        }
+      }
+      result.dispose();
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,171 @@
+import { ProcessingClient, isAbortError } from './processingClient';
+import { ExportJob, loadExportSource, renderExport } from './exportRenderer';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: number;
+  file: File;
+  status: BatchItemStatus;
+  progress: number;
+  result: Blob | null;
+  error: string | null;
+}
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Runs a queue of uploads through a pool of processing workers. Items are
+// replaced rather than mutated on every change, and the whole list is handed
+// to `onUpdate`, so it can be fed straight into React state.
+export class BatchProcessor {
+  private items: BatchItem[] = [];
+  private nextId = 1;
+  private concurrency = 2;
+  private job: ExportJob | null = null;
+  // One client per concurrency slot; each runs a single item at a time
+  private clients: ProcessingClient[] = [];
+  private busySlots = new Set<number>();
+  private running = new Map<number, AbortController>();
+
+  constructor(private onUpdate: (items: BatchItem[], running: boolean) => void) {}
+
+  add(files: File[]) {
+    this.items = [
+      ...this.items,
+      ...files.map(file => ({
+        id: this.nextId++,
+        file,
+        status: 'queued' as const,
+        progress: 0,
+        result: null,
+        error: null
+      }))
+    ];
+    this.emit();
+    this.pump();
+  }
+
+  remove(id: number) {
+    this.running.get(id)?.abort();
+    this.items = this.items.filter(item => item.id !== id);
+    this.emit();
+  }
+
+  clear() {
+    this.cancel();
+    this.items = [];
+    this.emit();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Math.round(concurrency)));
+    this.pump();
+  }
+
+  // Process every queued item with `job`. Items added while the batch is
+  // running are picked up with the same job.
+  start(job: ExportJob) {
+    this.job = job;
+    this.pump();
+  }
+
+  // Stop the batch; queued items stay queued for the next start
+  cancel() {
+    this.job = null;
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
+    this.emit();
+  }
+
+  retry(id: number, job: ExportJob) {
+    this.update(id, { status: 'queued', progress: 0, error: null });
+    this.start(job);
+  }
+
+  // Re-queue everything that failed or was cancelled
+  retryFailed(job: ExportJob) {
+    this.items = this.items.map(item =>
+      item.status === 'failed' || item.status === 'cancelled'
+        ? { ...item, status: 'queued', progress: 0, error: null }
+        : item
+    );
+    this.start(job);
+  }
+
+  get isRunning(): boolean {
+    return this.job !== null && this.items.some(item => item.status === 'queued' || item.status === 'processing');
+  }
+
+  terminate() {
+    this.cancel();
+    this.clients.forEach(client => client.terminate());
+    this.clients = [];
+  }
+
+  private pump() {
+    // Drop the workers of slots above a lowered concurrency once idle
+    for (let slot = this.concurrency; slot < this.clients.length; slot++) {
+      if (!this.busySlots.has(slot)) this.clients[slot].terminate();
+    }
+
+    const job = this.job;
+    if (!job) return;
+
+    for (let slot = 0; slot < this.concurrency; slot++) {
+      if (this.busySlots.has(slot)) continue;
+
+      const item = this.items.find(candidate => candidate.status === 'queued');
+      if (!item) break;
+
+      this.clients[slot] ??= new ProcessingClient();
+      this.processItem(item, slot, job);
+    }
+
+    if (!this.isRunning) {
+      this.job = null;
+      this.emit();
+    }
+  }
+
+  private async processItem(item: BatchItem, slot: number, job: ExportJob) {
+    const controller = new AbortController();
+    this.busySlots.add(slot);
+    this.running.set(item.id, controller);
+    this.update(item.id, { status: 'processing', progress: 0, error: null });
+
+    try {
+      const source = await loadExportSource(this.clients[slot], item.file);
+      controller.signal.throwIfAborted();
+
+      const result = await renderExport(
+        this.clients[slot],
+        source,
+        job,
+        (progress) => this.update(item.id, { progress }),
+        controller.signal
+      );
+      this.update(item.id, { status: 'done', progress: 100, result });
+    } catch (error) {
+      this.update(item.id, isAbortError(error)
+        ? { status: 'cancelled', progress: 0 }
+        : { status: 'failed', progress: 0, error: error instanceof Error ? error.message : 'Processing failed' });
+    } finally {
+      this.running.delete(item.id);
+      this.busySlots.delete(slot);
+      this.pump();
+    }
+  }
+
+  private update(id: number, changes: Partial<BatchItem>) {
+    const index = this.items.findIndex(item => item.id === id);
+    if (index < 0) return;
+
+    this.items = this.items.map((item, i) => i === index ? { ...item, ...changes } : item);
+    this.emit();
+  }
+
+  private emit() {
+    this.onUpdate(this.items, this.isRunning);
+  }
+}
@@ -0,0 +1,171 @@
+import { PixelTile, Rect, createTile } from './tiling';
+import type { Raster } from './raster';
+
+// sRGB transfer functions and primaries, and the conversion between canvas
+// pixels and the working space the pipeline runs in
+
+export const srgbToLinear = (value: number): number =>
+  value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+
+export const linearToSrgb = (value: number): number =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+
+// Linear value of every 8-bit sRGB level
+export const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, i) => srgbToLinear(i / 255));
+
+// Rec. 709 luminance of linear RGB
+export const linearLuminance = (r: number, g: number, b: number): number =>
+  0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// Linear sRGB of the colour with chromaticity (x, y) and luminance 1
+export function xyToLinearSrgb(x: number, y: number): [number, number, number] {
+  const X = x / y;
+  const Z = (1 - x - y) / y;
+  return [
+    3.2404542 * X - 1.5371385 - 0.4985314 * Z,
+    -0.9692660 * X + 1.8760108 + 0.0415560 * Z,
+    0.0556434 * X - 0.2040259 + 1.0572252 * Z
+  ];
+}
+
+// Space the pipeline filters work in: gamma-encoded values as the canvas
+// holds them, or linear light
+export type WorkingSpace = 'srgb' | 'linear';
+
+export const WORKING_SPACES: WorkingSpace[] = ['srgb', 'linear'];
+export const COLOR_SPACES: PredefinedColorSpace[] = ['srgb', 'display-p3'];
+
+let displayP3Support: boolean | null = null;
+
+// Whether canvases can hold Display P3 pixels here
+export function supportsDisplayP3(): boolean {
+  if (displayP3Support === null) {
+    try {
+      const ctx = new OffscreenCanvas(1, 1).getContext('2d', { colorSpace: 'display-p3' });
+      displayP3Support = ctx?.getImageData(0, 0, 1, 1).colorSpace === 'display-p3';
+    } catch {
+      displayP3Support = false;
+    }
+  }
+  return displayP3Support;
+}
+
+// The canvas color space actually used for `requested`
+export const resolveColorSpace = (requested: PredefinedColorSpace): PredefinedColorSpace =>
+  requested === 'display-p3' && supportsDisplayP3() ? 'display-p3' : 'srgb';
+
+// Canvas pixels as a working-space tile. Display P3 shares the sRGB
+// transfer curve, so the same linearization applies to both.
+export function toWorkingTile(imageData: ImageData, workingSpace: WorkingSpace): PixelTile {
+  const source = imageData.data;
+  const tile = createTile(imageData.width, imageData.height);
+  const data = tile.data;
+
+  if (workingSpace === 'srgb') {
+    data.set(source);
+    return tile;
+  }
+
+  for (let i = 0; i < source.length; i += 4) {
+    data[i] = SRGB_TO_LINEAR[source[i]] * 255;
+    data[i + 1] = SRGB_TO_LINEAR[source[i + 1]] * 255;
+    data[i + 2] = SRGB_TO_LINEAR[source[i + 2]] * 255;
+    data[i + 3] = source[i + 3];
+  }
+  return tile;
+}
+
+// Encode a working-space tile back into canvas pixels
+export function fromWorkingTile(tile: PixelTile, workingSpace: WorkingSpace, colorSpace: PredefinedColorSpace): ImageData {
+  const data = tile.data;
+  const output = new Uint8ClampedArray(data.length);
+
+  if (workingSpace === 'srgb') {
+    output.set(data);
+  } else {
+    for (let i = 0; i < data.length; i += 4) {
+      output[i] = encodeLevel(data[i]);
+      output[i + 1] = encodeLevel(data[i + 1]);
+      output[i + 2] = encodeLevel(data[i + 2]);
+      output[i + 3] = data[i + 3];
+    }
+  }
+  return new ImageData(output, tile.width, tile.height, { colorSpace });
+}
+
+// Linear level to encoded level, both on the 0-255 scale
+export const encodeLevel = (level: number): number =>
+  linearToSrgb(Math.min(1, Math.max(0, level / 255))) * 255;
+
+export const decodeLevel = (level: number): number =>
+  srgbToLinear(Math.min(1, Math.max(0, level / 255))) * 255;
+
+// Linear sRGB to linear Display P3
+const SRGB_TO_P3 = [
+  [0.8224621, 0.1775380, 0],
+  [0.0331941, 0.9668058, 0],
+  [0.0170827, 0.0723974, 0.9105199]
+];
+
+let rasterLinearization: Float32Array | null = null;
+
+// Linear value of every 16-bit sRGB level, built on first use
+const linearize16 = (): Float32Array => {
+  rasterLinearization ??= Float32Array.from({ length: 65536 }, (_, i) => srgbToLinear(i / 65535));
+  return rasterLinearization;
+};
+
+// A region of a 16-bit sRGB raster as a working-space tile in `colorSpace`,
+// keeping the precision a canvas would throw away
+export function rasterToWorkingTile(
+  raster: Raster,
+  rect: Rect,
+  workingSpace: WorkingSpace,
+  colorSpace: PredefinedColorSpace
+): PixelTile {
+  const tile = createTile(rect.width, rect.height);
+  const data = tile.data;
+  const source = raster.data;
+  const p3 = colorSpace === 'display-p3';
+  const linear = linearize16();
+
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const from = ((rect.y + y) * raster.width + rect.x + x) * 4;
+      const to = (y * rect.width + x) * 4;
+      data[to + 3] = source[from + 3] / 257;
+
+      if (!p3 && workingSpace === 'srgb') {
+        data[to] = source[from] / 257;
+        data[to + 1] = source[from + 1] / 257;
+        data[to + 2] = source[from + 2] / 257;
+        continue;
+      }
+
+      let rgb = [linear[source[from]], linear[source[from + 1]], linear[source[from + 2]]];
+      if (p3) rgb = SRGB_TO_P3.map(([r, g, b]) => r * rgb[0] + g * rgb[1] + b * rgb[2]);
+      for (let c = 0; c < 3; c++) {
+        data[to + c] = workingSpace === 'linear' ? rgb[c] * 255 : linearToSrgb(rgb[c]) * 255;
+      }
+    }
+  }
+  return tile;
+}
+
+// Write a working-space tile into a 16-bit raster at `rect`
+export function writeWorkingTile(raster: Raster, tile: PixelTile, rect: Rect, workingSpace: WorkingSpace) {
+  const data = tile.data;
+  const target = raster.data;
+  const level = (value: number) => Math.round(Math.min(255, Math.max(0, value)) * 257);
+
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const from = (y * tile.width + x) * 4;
+      const to = ((rect.y + y) * raster.width + rect.x + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        target[to + c] = level(workingSpace === 'linear' ? encodeLevel(data[from + c]) : data[from + c]);
+      }
+      target[to + 3] = level(data[from + 3]);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Tone curves: control points on a monotone cubic spline, one curve for
+// all channels together and one for each of R, G and B
+
+export interface CurvePoint {
+  // Input and output level, 0-255
+  x: number;
+  y: number;
+}
+
+export type CurveChannel = 'master' | 'red' | 'green' | 'blue';
+
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+
+export const CURVE_CHANNELS: CurveChannel[] = ['master', 'red', 'green', 'blue'];
+
+export const MAX_CURVE_POINTS = 16;
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_CURVES: ToneCurves = {
+  master: IDENTITY_CURVE,
+  red: IDENTITY_CURVE,
+  green: IDENTITY_CURVE,
+  blue: IDENTITY_CURVE
+};
+
+// Points on the diagonal interpolate to the diagonal itself
+export const isIdentityCurve = (points: CurvePoint[]): boolean =>
+  points.every(point => point.x === point.y);
+
+export const hasCurveAdjustments = (curves: ToneCurves): boolean =>
+  CURVE_CHANNELS.some(channel => !isIdentityCurve(curves[channel]));
+
+// Fritsch–Carlson monotone cubic interpolation. Between two points the
+// curve never overshoots, so a rising curve keeps rising. Outside the first
+// and last point it stays flat.
+export function monotoneCurve(points: CurvePoint[]): (x: number) => number {
+  const sorted = [...points].sort((a, b) => a.x - b.x)
+    .filter((point, index, all) => index === 0 || point.x !== all[index - 1].x);
+  const n = sorted.length;
+  if (n === 0) return (x) => x;
+  if (n === 1) return () => sorted[0].y;
+
+  const xs = sorted.map(point => point.x);
+  const ys = sorted.map(point => point.y);
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  }
+
+  const tangents = new Array<number>(n);
+  tangents[0] = slopes[0];
+  tangents[n - 1] = slopes[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    tangents[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  }
+
+  // Limit tangents so each segment stays monotone
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      const t = 3 / length;
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  return (x) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+
+    let i = 0;
+    while (x > xs[i + 1]) i++;
+
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i] +
+           (t3 - 2 * t2 + t) * h * tangents[i] +
+           (-2 * t3 + 3 * t2) * ys[i + 1] +
+           (t3 - t2) * h * tangents[i + 1];
+  };
+}
+
+export function buildCurveLut(points: CurvePoint[]): Uint8ClampedArray {
+  const curve = monotoneCurve(points);
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) lut[i] = Math.round(curve(i));
+  return lut;
+}
+
+// Per-channel lookups with the master curve applied first
+export function buildChannelLuts(curves: ToneCurves): [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray] {
+  const master = buildCurveLut(curves.master);
+  return [curves.red, curves.green, curves.blue].map(points => {
+    const channel = buildCurveLut(points);
+    return master.map(value => channel[value]);
+  }) as [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+}
+
+const isLevel = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 255;
+
+// Whether `value` is a usable list of control points
+export const isValidCurve = (value: unknown): value is CurvePoint[] =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  value.length <= MAX_CURVE_POINTS &&
+  value.every(point => typeof point === 'object' && point !== null && isLevel(point.x) && isLevel(point.y));
+
+export function validateCurves(value: unknown): ToneCurves {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Curves must be an object');
+  }
+
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!CURVE_CHANNELS.includes(key as CurveChannel)) throw new Error(`Unknown curve channel "${key}"`);
+  }
+
+  const curves = { ...DEFAULT_CURVES };
+  for (const channel of CURVE_CHANNELS) {
+    if (record[channel] === undefined) continue;
+    if (!isValidCurve(record[channel])) throw new Error(`Invalid ${channel} curve`);
+    curves[channel] = (record[channel] as CurvePoint[]).map(({ x, y }) => ({ x, y }));
+  }
+  return curves;
+}
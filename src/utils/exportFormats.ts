@@ -0,0 +1,103 @@
+export type ExportMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/avif' | 'image/tiff';
+
+// Bits per channel of the lossless formats that can store more than 8
+export type BitDepth = 8 | 16;
+
+export type ExportFormat = ExportMimeType | 'original';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // Encoder quality (1-100) for the lossy formats
+  quality: number;
+  bitDepth: BitDepth;
+}
+
+// What the worker needs to encode the final render
+export interface EncodeOptions {
+  type: ExportMimeType;
+  quality: number;
+  // Only set for formats with high-bit-depth output
+  bitDepth?: BitDepth;
+}
+
+export interface ExportFormatInfo {
+  type: ExportMimeType;
+  label: string;
+  extension: string;
+  lossy: boolean;
+  supportsAlpha: boolean;
+  // Can be written at 16 bits per channel
+  highBitDepth: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { type: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true, supportsAlpha: false, highBitDepth: false },
+  { type: 'image/png', label: 'PNG', extension: 'png', lossy: false, supportsAlpha: true, highBitDepth: true },
+  { type: 'image/webp', label: 'WebP', extension: 'webp', lossy: true, supportsAlpha: true, highBitDepth: false },
+  { type: 'image/avif', label: 'AVIF', extension: 'avif', lossy: true, supportsAlpha: true, highBitDepth: false },
+  { type: 'image/tiff', label: 'TIFF', extension: 'tiff', lossy: false, supportsAlpha: true, highBitDepth: true }
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'original',
+  quality: 95,
+  bitDepth: 8
+};
+
+export const getExportFormatInfo = (type: string): ExportFormatInfo | undefined =>
+  EXPORT_FORMATS.find(format => format.type === type);
+
+// Turn the export settings into a concrete encoder configuration. Inputs
+// we cannot encode (BMP, GIF, ...) fall back to lossless PNG; TIFF is
+// written by our own encoder.
+export const resolveEncodeOptions = (settings: ExportSettings, inputType: string): EncodeOptions => {
+  const type = settings.format === 'original'
+    ? getExportFormatInfo(inputType)?.type ?? 'image/png'
+    : settings.format;
+  return getExportFormatInfo(type)?.highBitDepth
+    ? { type, quality: settings.quality / 100, bitDepth: settings.bitDepth }
+    : { type, quality: settings.quality / 100 };
+};
+
+// Canvas encoders silently fall back to PNG for types they do not support,
+// so the only reliable check is to encode a pixel and look at the result
+let avifSupport: Promise<boolean> | null = null;
+
+export const detectAvifSupport = (): Promise<boolean> => {
+  avifSupport ??= new OffscreenCanvas(1, 1)
+    .convertToBlob({ type: 'image/avif' })
+    .then(blob => blob.type === 'image/avif')
+    .catch(() => false);
+  return avifSupport;
+};
+
+export const DEFAULT_NAMING_TEMPLATE = 'enhanced_{name}';
+
+// Position of a file within a batch, used for {index}
+export interface NamingContext {
+  index?: number;
+  total?: number;
+}
+
+// Expand a naming template and append the extension matching the encoded
+// bytes. {index} is 1-based and zero-padded to the width of the total.
+export const getExportFileName = (
+  originalName: string,
+  type: string,
+  template: string = DEFAULT_NAMING_TEMPLATE,
+  context: NamingContext = {}
+): string => {
+  const baseName = originalName.replace(/\.[^./\\]+$/, '') || 'image';
+  const extension = getExportFormatInfo(type)?.extension ?? type.split('/')[1] ?? 'img';
+  const index = String(context.index ?? 1).padStart(String(context.total ?? 1).length, '0');
+
+  const name = template
+    .replace(/\{name\}/g, baseName)
+    .replace(/\{index\}/g, index)
+    .replace(/\{format\}/g, extension)
+    // Characters that aren't valid in file names on common systems
+    .replace(/[\\/:*?"<>|]/g, '_')
+    .trim();
+
+  return `${name || baseName}.${extension}`;
+};
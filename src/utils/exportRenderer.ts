@@ -0,0 +1,66 @@
+import { ImageProcessor, ProcessingSettings } from './imageProcessor';
+import { ProcessingClient } from './processingClient';
+import { ExportSettings, resolveEncodeOptions } from './exportFormats';
+import { EMPTY_METADATA, ImageMetadata, MetadataOptions, embedMetadata, readMetadata } from './metadata';
+import { resolveColorSpace } from './colorSpace';
+import { isRasterEncoding } from './raster';
+
+// Everything that decides how a source is rendered for export
+export interface ExportJob {
+  settings: ProcessingSettings;
+  exportSettings: ExportSettings;
+  metadataOptions: MetadataOptions;
+}
+
+// An upload with what the export needs to know about it
+export interface ExportSource {
+  file: File;
+  metadata: ImageMetadata;
+  // Upright size of the decoded image
+  width: number;
+  height: number;
+}
+
+export async function loadExportSource(client: ProcessingClient, file: File): Promise<ExportSource> {
+  const [info, metadata] = await Promise.all([
+    client.getImageInfo(file),
+    readMetadata(file).catch(() => EMPTY_METADATA)
+  ]);
+  return { file, metadata, width: info.width, height: info.height };
+}
+
+// Render a source at full resolution, encode it and carry its metadata over
+export async function renderExport(
+  client: ProcessingClient,
+  source: ExportSource,
+  job: ExportJob,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { file, metadata } = source;
+  const { settings, exportSettings, metadataOptions } = job;
+
+  // A carried-over ICC profile only describes the pixels if they were
+  // decoded without converting them to the display color space. Display P3
+  // renders are converted and tagged by the encoder instead. 16-bit and
+  // TIFF renders are always written as sRGB.
+  const encoding = resolveEncodeOptions(exportSettings, file.type);
+  const wideGamut = resolveColorSpace(settings.colorSpace) === 'display-p3' && !isRasterEncoding(encoding);
+  const keepIcc = metadataOptions.keepIcc && metadata.icc !== null && !wideGamut;
+  const rendered = await client.processImage(file, settings, {
+    encoding,
+    onProgress,
+    signal,
+    decode: keepIcc ? { colorSpaceConversion: 'none' } : undefined
+  });
+
+  // Rewriting the metadata drops the encoder's profile, so a Display P3
+  // render takes its own profile along in place of the original's
+  const outputIcc = wideGamut ? (await readMetadata(rendered).catch(() => EMPTY_METADATA)).icc : null;
+  const { width, height } = ImageProcessor.getOutputDimensions(source.width, source.height, settings);
+  const enhanced = wideGamut
+    ? await embedMetadata(rendered, { ...metadata, icc: outputIcc }, { ...metadataOptions, keepIcc: true }, width, height)
+    : await embedMetadata(rendered, metadata, metadataOptions, width, height);
+  signal?.throwIfAborted();
+  return enhanced;
+}
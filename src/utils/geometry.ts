@@ -0,0 +1,373 @@
+import { isRecord } from './pipeline';
+
+// Crop, rotation and flips of the upright image. The image is flipped,
+// turned by quarter turns, rotated by `angle` about its centre and then
+// cropped; the filters only ever see the result.
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+// Fractions of the turned image's width and height
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Geometry {
+  // Mirroring of the upright image, before it is turned
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // Clockwise quarter turns
+  rotation: QuarterTurn;
+  // Fine clockwise rotation in degrees, for straightening
+  angle: number;
+  crop: CropRect;
+}
+
+// Affine map of pixel coordinates: (x, y) → (a x + c y + e, b x + d y + f),
+// the same layout as canvas and CSS matrices
+export interface Affine {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+// Output of a geometry over an image of a given size
+export interface GeometryMapping {
+  width: number;
+  height: number;
+  // Output pixel coordinates to those of the image, and back
+  toSource: Affine;
+  fromSource: Affine;
+}
+
+// How a drag on the image edits the geometry
+export type GeometryTool = 'crop' | 'straighten';
+
+export type AspectPreset = 'free' | 'original' | '1:1' | '4:5' | '16:9' | 'custom';
+
+export const ASPECT_PRESETS: { id: AspectPreset; label: string; ratio?: number }[] = [
+  { id: 'free', label: 'Free' },
+  { id: 'original', label: 'Original' },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: 'custom', label: 'Custom' }
+];
+
+export const MAX_STRAIGHTEN_ANGLE = 45;
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_GEOMETRY: Geometry = {
+  flipHorizontal: false,
+  flipVertical: false,
+  rotation: 0,
+  angle: 0,
+  crop: FULL_CROP
+};
+
+const QUARTER_TURNS: QuarterTurn[] = [0, 90, 180, 270];
+
+// Crops closer than this (as fractions) are the same crop
+const CROP_EPSILON = 1e-6;
+
+export const IDENTITY_AFFINE: Affine = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+export const applyAffine = (m: Affine, x: number, y: number): { x: number; y: number } =>
+  ({ x: m.a * x + m.c * y + m.e, y: m.b * x + m.d * y + m.f });
+
+// `m` after `n`
+const multiplyAffine = (m: Affine, n: Affine): Affine => ({
+  a: m.a * n.a + m.c * n.b,
+  b: m.b * n.a + m.d * n.b,
+  c: m.a * n.c + m.c * n.d,
+  d: m.b * n.c + m.d * n.d,
+  e: m.a * n.e + m.c * n.f + m.e,
+  f: m.b * n.e + m.d * n.f + m.f
+});
+
+export function invertAffine(m: Affine): Affine {
+  const det = m.a * m.d - m.b * m.c;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det
+  };
+}
+
+// Clockwise rotation by `degrees` about (cx, cy); y points down
+const rotationAbout = (degrees: number, cx: number, cy: number): Affine => {
+  const radians = degrees * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { a: cos, b: sin, c: -sin, d: cos, e: cx - cos * cx + sin * cy, f: cy - sin * cx - cos * cy };
+};
+
+export const isFullCrop = (crop: CropRect): boolean =>
+  Math.abs(crop.x) < CROP_EPSILON && Math.abs(crop.y) < CROP_EPSILON &&
+  Math.abs(crop.width - 1) < CROP_EPSILON && Math.abs(crop.height - 1) < CROP_EPSILON;
+
+export const isIdentityGeometry = (geometry: Geometry): boolean =>
+  !geometry.flipHorizontal && !geometry.flipVertical && geometry.rotation === 0 &&
+  geometry.angle === 0 && isFullCrop(geometry.crop);
+
+// Size of a `width` × `height` image once turned
+export const turnedSize = (width: number, height: number, rotation: QuarterTurn): { width: number; height: number } =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+export function geometryMapping(width: number, height: number, geometry: Geometry): GeometryMapping {
+  const { flipHorizontal, flipVertical, rotation, angle, crop } = geometry;
+  const frame = turnedSize(width, height, rotation);
+
+  const flip: Affine = {
+    a: flipHorizontal ? -1 : 1,
+    b: 0,
+    c: 0,
+    d: flipVertical ? -1 : 1,
+    e: flipHorizontal ? width : 0,
+    f: flipVertical ? height : 0
+  };
+  const turn: Affine = rotation === 90
+    ? { a: 0, b: 1, c: -1, d: 0, e: height, f: 0 }
+    : rotation === 180
+      ? { a: -1, b: 0, c: 0, d: -1, e: width, f: height }
+      : rotation === 270
+        ? { a: 0, b: -1, c: 1, d: 0, e: 0, f: width }
+        : IDENTITY_AFFINE;
+  const rotate = angle === 0 ? IDENTITY_AFFINE : rotationAbout(angle, frame.width / 2, frame.height / 2);
+  // Whole-pixel offsets keep unrotated crops exact copies
+  const shift: Affine = {
+    ...IDENTITY_AFFINE,
+    e: -Math.round(crop.x * frame.width),
+    f: -Math.round(crop.y * frame.height)
+  };
+
+  const fromSource = multiplyAffine(shift, multiplyAffine(rotate, multiplyAffine(turn, flip)));
+  return {
+    width: Math.max(1, Math.round(crop.width * frame.width)),
+    height: Math.max(1, Math.round(crop.height * frame.height)),
+    toSource: invertAffine(fromSource),
+    fromSource
+  };
+}
+
+// Width over height a preset holds the crop to on a turned image of
+// `width` × `height`; null for free cropping
+export function presetAspect(
+  preset: AspectPreset,
+  custom: { width: number; height: number },
+  width: number,
+  height: number
+): number | null {
+  if (preset === 'free') return null;
+  if (preset === 'original') return width / height;
+  if (preset === 'custom') return custom.width > 0 && custom.height > 0 ? custom.width / custom.height : null;
+  return ASPECT_PRESETS.find(aspect => aspect.id === preset)?.ratio ?? null;
+}
+
+// Width over height of a crop, in pixels
+export const cropAspect = (crop: CropRect, frameWidth: number, frameHeight: number): number =>
+  (crop.width * frameWidth) / (crop.height * frameHeight);
+
+// Largest `scale` (up to 1) by which the crop can be shrunk about its
+// centre so every corner lies on the rotated image and inside the frame.
+// Negative when even its centre is off the image.
+function cropScale(crop: CropRect, frameWidth: number, frameHeight: number, angle: number): number {
+  const cx = (crop.x + crop.width / 2) * frameWidth;
+  const cy = (crop.y + crop.height / 2) * frameHeight;
+  const halfWidth = crop.width * frameWidth / 2;
+  const halfHeight = crop.height * frameHeight / 2;
+  const unrotate = rotationAbout(-angle, frameWidth / 2, frameHeight / 2);
+  const centre = applyAffine(unrotate, cx, cy);
+
+  let scale = 1;
+  // Each corner moves linearly with the scale: value + scale × step must
+  // stay within [0, limit]
+  const within = (value: number, step: number, limit: number) => {
+    if (value < -CROP_EPSILON || value > limit + CROP_EPSILON) scale = -1;
+    else if (step > 0) scale = Math.min(scale, (limit - value) / step);
+    else if (step < 0) scale = Math.min(scale, -value / step);
+  };
+
+  for (const [dx, dy] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+    const offsetX = dx * halfWidth;
+    const offsetY = dy * halfHeight;
+    // On the image, which lies unrotated in the frame
+    const corner = applyAffine({ ...unrotate, e: 0, f: 0 }, offsetX, offsetY);
+    within(centre.x, corner.x, frameWidth);
+    within(centre.y, corner.y, frameHeight);
+    // Inside the frame itself
+    within(cx, offsetX, frameWidth);
+    within(cy, offsetY, frameHeight);
+    if (scale < 0) return scale;
+  }
+  return scale;
+}
+
+const scaleCrop = (crop: CropRect, scale: number): CropRect => {
+  const width = crop.width * scale;
+  const height = crop.height * scale;
+  return {
+    x: crop.x + (crop.width - width) / 2,
+    y: crop.y + (crop.height - height) / 2,
+    width,
+    height
+  };
+};
+
+// The crop shrunk about its centre until no corner shows past the rotated
+// image. A crop centred off the image is moved to the middle first.
+export function fitCrop(crop: CropRect, frameWidth: number, frameHeight: number, angle: number): CropRect {
+  let scale = cropScale(crop, frameWidth, frameHeight, angle);
+  if (scale < 0) {
+    crop = { ...crop, x: (1 - crop.width) / 2, y: (1 - crop.height) / 2 };
+    scale = cropScale(crop, frameWidth, frameHeight, angle);
+  }
+  return scale >= 1 ? crop : scaleCrop(crop, Math.max(0, scale));
+}
+
+export const isCropInside = (crop: CropRect, frameWidth: number, frameHeight: number, angle: number): boolean =>
+  cropScale(crop, frameWidth, frameHeight, angle) >= 1 - CROP_EPSILON;
+
+// The largest crop of `aspect` in the middle of the frame
+export function maxCrop(aspect: number, frameWidth: number, frameHeight: number, angle: number): CropRect {
+  const width = Math.min(frameWidth, frameHeight * aspect);
+  const height = width / aspect;
+  const crop = {
+    x: (1 - width / frameWidth) / 2,
+    y: (1 - height / frameHeight) / 2,
+    width: width / frameWidth,
+    height: height / frameHeight
+  };
+  return fitCrop(crop, frameWidth, frameHeight, angle);
+}
+
+// How far from `previous` towards `next` a drag can go with the crop
+// staying on the image. `previous` is assumed to be valid.
+export function constrainCrop(previous: CropRect, next: CropRect, frameWidth: number, frameHeight: number, angle: number): CropRect {
+  if (isCropInside(next, frameWidth, frameHeight, angle)) return next;
+
+  const lerp = (t: number): CropRect => ({
+    x: previous.x + (next.x - previous.x) * t,
+    y: previous.y + (next.y - previous.y) * t,
+    width: previous.width + (next.width - previous.width) * t,
+    height: previous.height + (next.height - previous.height) * t
+  });
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 20; i++) {
+    const middle = (low + high) / 2;
+    if (isCropInside(lerp(middle), frameWidth, frameHeight, angle)) low = middle;
+    else high = middle;
+  }
+  return lerp(low);
+}
+
+const sameCrop = (a: CropRect, b: CropRect) =>
+  Math.abs(a.x - b.x) < CROP_EPSILON && Math.abs(a.y - b.y) < CROP_EPSILON &&
+  Math.abs(a.width - b.width) < CROP_EPSILON && Math.abs(a.height - b.height) < CROP_EPSILON;
+
+// Editing helpers over an upright image of `width` × `height`; all return
+// a new geometry
+
+// Straighten to `angle`. A crop that filled the image keeps filling it;
+// any other shrinks just enough to avoid blank corners.
+export function straightenGeometry(geometry: Geometry, angle: number, width: number, height: number): Geometry {
+  const frame = turnedSize(width, height, geometry.rotation);
+  const next = Math.min(MAX_STRAIGHTEN_ANGLE, Math.max(-MAX_STRAIGHTEN_ANGLE, angle));
+  const aspect = cropAspect(geometry.crop, frame.width, frame.height);
+  const filled = sameCrop(geometry.crop, maxCrop(aspect, frame.width, frame.height, geometry.angle));
+  return {
+    ...geometry,
+    angle: next,
+    crop: filled
+      ? maxCrop(aspect, frame.width, frame.height, next)
+      : fitCrop(geometry.crop, frame.width, frame.height, next)
+  };
+}
+
+// Fine rotation that levels a line drawn from `from` to `to` on the
+// output, to whichever of horizontal or vertical it is closer
+export function levelingAngle(from: { x: number; y: number }, to: { x: number; y: number }): number {
+  let degrees = Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI;
+  if (degrees > 90) degrees -= 180;
+  if (degrees <= -90) degrees += 180;
+  return -(Math.abs(degrees) > 45 ? degrees - Math.sign(degrees) * 90 : degrees);
+}
+
+// Turn the output a quarter clockwise (1) or anticlockwise (-1)
+export function rotateGeometry(geometry: Geometry, direction: 1 | -1): Geometry {
+  const { x, y, width, height } = geometry.crop;
+  return {
+    ...geometry,
+    rotation: QUARTER_TURNS[(QUARTER_TURNS.indexOf(geometry.rotation) + direction + 4) % 4],
+    crop: direction === 1
+      ? { x: 1 - y - height, y: x, width: height, height: width }
+      : { x: y, y: 1 - x - width, width: height, height: width }
+  };
+}
+
+// Mirror the output. Turned sideways, a horizontal flip of the output is a
+// vertical one of the upright image.
+export function flipGeometry(geometry: Geometry, axis: 'horizontal' | 'vertical'): Geometry {
+  const sideways = geometry.rotation % 180 !== 0;
+  const horizontal = (axis === 'horizontal') !== sideways;
+  const { crop } = geometry;
+  return {
+    ...geometry,
+    flipHorizontal: horizontal ? !geometry.flipHorizontal : geometry.flipHorizontal,
+    flipVertical: horizontal ? geometry.flipVertical : !geometry.flipVertical,
+    angle: geometry.angle === 0 ? 0 : -geometry.angle,
+    crop: axis === 'horizontal'
+      ? { ...crop, x: 1 - crop.x - crop.width }
+      : { ...crop, y: 1 - crop.y - crop.height }
+  };
+}
+
+// The largest crop of `aspect` (free when null), centred
+export function aspectGeometry(geometry: Geometry, aspect: number | null, width: number, height: number): Geometry {
+  if (aspect === null) return geometry;
+  const frame = turnedSize(width, height, geometry.rotation);
+  return { ...geometry, crop: maxCrop(aspect, frame.width, frame.height, geometry.angle) };
+}
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+// Validate a geometry read from a file
+export function parseGeometry(value: unknown): Geometry {
+  if (
+    !isRecord(value) ||
+    typeof value.flipHorizontal !== 'boolean' ||
+    typeof value.flipVertical !== 'boolean' ||
+    !QUARTER_TURNS.includes(value.rotation as QuarterTurn) ||
+    typeof value.angle !== 'number' || !(Math.abs(value.angle) <= MAX_STRAIGHTEN_ANGLE)
+  ) {
+    throw new Error('Invalid crop and rotation');
+  }
+
+  const crop = value.crop;
+  if (
+    !isRecord(crop) || !isFraction(crop.x) || !isFraction(crop.y) ||
+    !isFraction(crop.width) || !isFraction(crop.height) || crop.width === 0 || crop.height === 0 ||
+    crop.x + crop.width > 1 + CROP_EPSILON || crop.y + crop.height > 1 + CROP_EPSILON
+  ) {
+    throw new Error('Invalid crop rectangle');
+  }
+
+  return {
+    flipHorizontal: value.flipHorizontal,
+    flipVertical: value.flipVertical,
+    rotation: value.rotation as QuarterTurn,
+    angle: value.angle,
+    crop: { x: crop.x, y: crop.y, width: crop.width, height: crop.height }
+  };
+}
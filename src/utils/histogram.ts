@@ -0,0 +1,94 @@
+import type { ProcessingClient } from './processingClient';
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+  pixelCount: number;
+  // Pixels with at least one channel at 0 or 255
+  shadowClipped: number;
+  highlightClipped: number;
+}
+
+// Histograms are taken at preview size; larger images are scaled down first
+export const HISTOGRAM_MAX_SIZE = 800;
+
+export const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+export function computeHistogram(imageData: ImageData): Histogram {
+  const data = imageData.data;
+  const red = new Uint32Array(256);
+  const green = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const lumaBins = new Uint32Array(256);
+  let shadowClipped = 0;
+  let highlightClipped = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    red[r]++;
+    green[g]++;
+    blue[b]++;
+    lumaBins[Math.round(luma(r, g, b))]++;
+
+    if (r === 0 || g === 0 || b === 0) shadowClipped++;
+    if (r === 255 || g === 255 || b === 255) highlightClipped++;
+  }
+
+  return { red, green, blue, luma: lumaBins, pixelCount: data.length / 4, shadowClipped, highlightClipped };
+}
+
+// Pixels of `image` scaled to fit HISTOGRAM_MAX_SIZE. Uploads are decoded
+// by `decoder`'s worker, upright like every other view of the upload.
+export async function readAnalysisPixels(image: Blob, decoder?: ProcessingClient): Promise<ImageData> {
+  const bitmap = decoder ? (await decoder.decodePreview(image, HISTOGRAM_MAX_SIZE)).bitmap : await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, HISTOGRAM_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Transparent image marking clipped shadows in blue and clipped highlights
+// in red, to lay over the preview
+export async function createClippingOverlay(imageData: ImageData): Promise<Blob> {
+  const { data, width, height } = imageData;
+  const overlay = new ImageData(width, height);
+  const out = overlay.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (r === 255 || g === 255 || b === 255) {
+      out[i] = 255;
+      out[i + 1] = 0;
+      out[i + 2] = 64;
+      out[i + 3] = 255;
+    } else if (r === 0 || g === 0 || b === 0) {
+      out[i] = 0;
+      out[i + 1] = 96;
+      out[i + 2] = 255;
+      out[i + 3] = 255;
+    }
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.putImageData(overlay, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+}
@@ -0,0 +1,118 @@
+// Branching edit history. Every change adds a child of the current entry,
+// so stepping back and editing starts a new branch instead of discarding
+// the old one.
+
+export interface HistoryEntry<T> {
+  id: number;
+  parentId: number | null;
+  label: string;
+  state: T;
+  timestamp: number;
+}
+
+export interface History<T> {
+  entries: Record<number, HistoryEntry<T>>;
+  currentId: number;
+  nextId: number;
+  // Child each entry redoes into: the branch last visited from it
+  redoTargets: Record<number, number>;
+}
+
+// A named copy of a state, kept apart from the history tree
+export interface Snapshot<T> {
+  id: number;
+  name: string;
+  state: T;
+  timestamp: number;
+}
+
+export interface FlatHistoryEntry<T> {
+  entry: HistoryEntry<T>;
+  // Number of branch points between the root and this entry
+  depth: number;
+  current: boolean;
+}
+
+// Repeated changes with the same label inside this window (slider drags)
+// collapse into one entry
+const COALESCE_MS = 800;
+
+export const createHistory = <T>(state: T, label = 'Start'): History<T> => ({
+  entries: { 0: { id: 0, parentId: null, label, state, timestamp: Date.now() } },
+  currentId: 0,
+  nextId: 1,
+  redoTargets: {}
+});
+
+export const currentState = <T>(history: History<T>): T =>
+  history.entries[history.currentId].state;
+
+export function recordHistory<T>(history: History<T>, state: T, label: string, now = Date.now()): History<T> {
+  const current = history.entries[history.currentId];
+  if (state === current.state) return history;
+
+  const isLeaf = !Object.values(history.entries).some(entry => entry.parentId === current.id);
+
+  if (current.parentId !== null && isLeaf && current.label === label && now - current.timestamp < COALESCE_MS) {
+    return {
+      ...history,
+      entries: { ...history.entries, [current.id]: { ...current, state, timestamp: now } }
+    };
+  }
+
+  const entry: HistoryEntry<T> = { id: history.nextId, parentId: current.id, label, state, timestamp: now };
+  return {
+    entries: { ...history.entries, [entry.id]: entry },
+    currentId: entry.id,
+    nextId: entry.id + 1,
+    redoTargets: { ...history.redoTargets, [current.id]: entry.id }
+  };
+}
+
+export const canUndo = <T>(history: History<T>): boolean =>
+  history.entries[history.currentId].parentId !== null;
+
+export const canRedo = <T>(history: History<T>): boolean =>
+  history.redoTargets[history.currentId] !== undefined;
+
+export const undo = <T>(history: History<T>): History<T> => {
+  const parentId = history.entries[history.currentId].parentId;
+  return parentId === null ? history : jumpTo(history, parentId);
+};
+
+export const redo = <T>(history: History<T>): History<T> => {
+  const childId = history.redoTargets[history.currentId];
+  return childId === undefined ? history : jumpTo(history, childId);
+};
+
+// Make `id` current. Redo targets along its ancestry are pointed at it, so
+// redoing from an ancestor retraces the branch that was jumped to.
+export function jumpTo<T>(history: History<T>, id: number): History<T> {
+  if (!history.entries[id] || id === history.currentId) return history;
+
+  const redoTargets = { ...history.redoTargets };
+  for (let entry = history.entries[id]; entry.parentId !== null; entry = history.entries[entry.parentId]) {
+    redoTargets[entry.parentId] = entry.id;
+  }
+  return { ...history, currentId: id, redoTargets };
+}
+
+// Entries in depth-first order. The first child continues its parent's
+// column; later children are indented as branches.
+export function flattenHistory<T>(history: History<T>): FlatHistoryEntry<T>[] {
+  const children = new Map<number | null, HistoryEntry<T>[]>();
+  for (const entry of Object.values(history.entries)) {
+    const siblings = children.get(entry.parentId) ?? [];
+    siblings.push(entry);
+    children.set(entry.parentId, siblings);
+  }
+
+  const result: FlatHistoryEntry<T>[] = [];
+  const visit = (entry: HistoryEntry<T>, depth: number) => {
+    result.push({ entry, depth, current: entry.id === history.currentId });
+    const branches = (children.get(entry.id) ?? []).sort((a, b) => a.id - b.id);
+    branches.forEach((child, index) => visit(child, index === 0 ? depth : depth + 1));
+  };
+  (children.get(null) ?? []).forEach(root => visit(root, 0));
+  return result;
+}
@@ -0,0 +1,165 @@
+import { EXIF_TAGS, getExifEntry, parseExif, readExifNumbers, serializeExif, withExifNumber } from './metadata/exif';
+import { detectContainer, readMetadataBlocks, writeMetadataBlocks } from './metadata/containers';
+import { DemosaicAlgorithm, Raster, decodeRaster, orientRaster, rasterToImageData } from './raster';
+
+// A decoded upload, already turned upright
+export interface DecodedImage {
+  bitmap: ImageBitmap;
+  // EXIF orientation (1-8) of the file; 1 when it has none
+  orientation: number;
+  // Full-precision pixels of 16-bit PNGs, TIFFs and DNG raws, upright like
+  // `bitmap`
+  raster?: Raster;
+}
+
+// EXIF sits at the start of JPEG and PNG files, so there is no need to
+// read a whole 200MB upload to find it
+const HEADER_BYTES = 256 * 1024;
+
+export async function readOrientation(file: Blob): Promise<number> {
+  try {
+    const head = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    // WebP stores EXIF after the image data
+    const bytes = detectContainer(head) === 'webp' ? new Uint8Array(await file.arrayBuffer()) : head;
+    const { exif } = await readMetadataBlocks(bytes);
+    const parsed = exif ? parseExif(exif) : null;
+    if (!parsed) return 1;
+
+    const [orientation] = readExifNumbers(getExifEntry(parsed.ifd0, EXIF_TAGS.Orientation), parsed.littleEndian);
+    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+  } catch {
+    return 1;
+  }
+}
+
+// Whether createImageBitmap already applies EXIF orientation. Older engines
+// ignore it, so decode a 2×1 JPEG tagged "rotate 90°" and see if it comes
+// back as 1×2.
+let autoOrientation: Promise<boolean> | null = null;
+
+export const detectAutoOrientation = (): Promise<boolean> => {
+  autoOrientation ??= (async () => {
+    const canvas = new OffscreenCanvas(2, 1);
+    canvas.getContext('2d')?.fillRect(0, 0, 2, 1);
+    const jpeg = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/jpeg' })).arrayBuffer());
+
+    const exif = serializeExif({
+      littleEndian: false,
+      ifd0: withExifNumber({ entries: [] }, EXIF_TAGS.Orientation, 6, false)
+    });
+    const tagged = await writeMetadataBlocks(jpeg, { exif, xmp: null, icc: null });
+
+    const bitmap = await createImageBitmap(new Blob([tagged], { type: 'image/jpeg' }), { imageOrientation: 'from-image' });
+    const rotated = bitmap.width === 1 && bitmap.height === 2;
+    bitmap.close();
+    return rotated;
+  })().catch(() => true);
+  return autoOrientation;
+};
+
+// Redraw `bitmap` the way EXIF `orientation` says it should be displayed
+const applyOrientation = (bitmap: ImageBitmap, orientation: number): ImageBitmap => {
+  const { width, height } = bitmap;
+  const swapsAxes = orientation >= 5;
+  const canvas = new OffscreenCanvas(swapsAxes ? height : width, swapsAxes ? width : height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, width); break;
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  return canvas.transferToImageBitmap();
+};
+
+interface UprightRaster {
+  raster: Raster;
+  // 8-bit copy the bitmaps are made from
+  preview: ImageData;
+  orientation: number;
+}
+
+// Rasters of the last decoded file, by demosaicing algorithm. Previews
+// re-decode the upload on every change, which a JavaScript TIFF decoder or
+// raw development can't keep up with.
+let rasterCache: { file: Blob; decoded: Map<DemosaicAlgorithm, Promise<UprightRaster | null>> } | null = null;
+
+const decodeUprightRaster = (file: Blob, demosaic: DemosaicAlgorithm): Promise<UprightRaster | null> => {
+  if (rasterCache?.file !== file) rasterCache = { file, decoded: new Map() };
+  const cache = rasterCache.decoded;
+
+  let decoded = cache.get(demosaic);
+  if (!decoded) {
+    decoded = decodeRaster(file, demosaic).then(async (result) => {
+      if (!result) return null;
+      const orientation = result.orientation ?? await readOrientation(file);
+      const raster = orientRaster(result.raster, orientation);
+      return { raster, preview: rasterToImageData(raster), orientation };
+    });
+    cache.set(demosaic, decoded);
+    // A failed decode shouldn't stick
+    decoded.catch(() => cache.delete(demosaic));
+  }
+  return decoded;
+};
+
+// Decode an upload upright, whether or not the browser honors EXIF
+// orientation itself. `demosaic` only matters for raw files.
+export async function decodeImage(
+  file: Blob,
+  options: ImageBitmapOptions = {},
+  demosaic: DemosaicAlgorithm = 'ahd'
+): Promise<DecodedImage> {
+  const decoded = await decodeUprightRaster(file, demosaic);
+  if (decoded) {
+    const { raster, preview, orientation } = decoded;
+    return { bitmap: await createImageBitmap(preview, options), orientation, raster };
+  }
+
+  const [orientation, autoOriented] = await Promise.all([readOrientation(file), detectAutoOrientation()]);
+  const bitmap = await createImageBitmap(file, { ...options, imageOrientation: 'from-image' });
+  if (orientation === 1 || autoOriented) return { bitmap, orientation };
+
+  try {
+    return { bitmap: applyOrientation(bitmap, orientation), orientation };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// An upload decoded for display
+export interface DecodedPreview {
+  // No larger than the size it was asked for
+  bitmap: ImageBitmap;
+  // Upright size of the whole image
+  width: number;
+  height: number;
+  orientation: number;
+}
+
+// Decode an upload upright and scale it down to fit `maxSize`, if given
+export async function decodePreview(file: Blob, maxSize?: number): Promise<DecodedPreview> {
+  const { bitmap, orientation } = await decodeImage(file);
+  const { width, height } = bitmap;
+  const scale = maxSize === undefined ? 1 : Math.min(1, maxSize / Math.max(width, height));
+  if (scale === 1) return { bitmap, width, height, orientation };
+
+  try {
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { bitmap: canvas.transferToImageBitmap(), width, height, orientation };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -1,27 +1,121 @@
+import { PixelTile, Rect, TileLayer, TileStage, createTile, cropTile, expandRect, runTiled } from './tiling';
+import { EncodeOptions, getExportFormatInfo } from './exportFormats';
+import { PipelineStage, StageParams, isStageActive, resolveStageParams } from './pipeline';
+import { ToneCurves, buildChannelLuts } from './curves';
+import { buildWhiteBalanceLuts, whiteBalanceGains } from './whiteBalance';
+import {
+  WorkingSpace,
+  decodeLevel,
+  encodeLevel,
+  fromWorkingTile,
+  rasterToWorkingTile,
+  resolveColorSpace,
+  toWorkingTile,
+  writeWorkingTile
+} from './colorSpace';
+import { DemosaicAlgorithm, ImageSource, createRaster, encodeRaster, isRaster, isRasterEncoding } from './raster';
+import { loadModel, runModel } from './aiModels';
+import { MaskLayer, imageLuminance, isMaskActive, maskRenderSettings, maskWeights, needsLuminance } from './masks';
+import { Affine, Geometry, GeometryMapping, IDENTITY_AFFINE, applyAffine, geometryMapping, isIdentityGeometry } from './geometry';
+
+export type DenoiseBackend = 'bilateral' | 'guided';
+
+// 'model' runs the configured AI upscaler
+export type UpscaleAlgorithm = 'nearest' | 'bilinear' | 'bicubic' | 'lanczos3' | 'edge-directed' | 'model';
+
+// Algorithms that resample with a fixed kernel
+type ResampleAlgorithm = Exclude<UpscaleAlgorithm, 'model'>;
+
 export interface ProcessingSettings {
   sharpening: number;
   denoising: number;
+  denoiseBackend: DenoiseBackend;
+  // White balance: colour temperature in Kelvin and green-magenta tint
+  temperature: number;
+  tint: number;
   brightness: number;
   contrast: number;
   saturation: number;
+  // Master and per-channel tone curves
+  curves: ToneCurves;
   useAI: boolean;
+  // CLAHE cells per side and histogram clip limit for the AI stage
+  claheTileGrid: number;
+  claheClipLimit: number;
+  // Final render resolution multiplier (1-4) and the resampling kernel used
+  upscaleFactor: number;
+  upscaleAlgorithm: UpscaleAlgorithm;
+  // Paths of the ONNX models behind the AI stage and AI upscaling. Left
+  // empty, the built-in filters and Lanczos resampling are used instead.
+  denoiseModel: string;
+  upscaleModel: string;
+  // Ordered filter steps shared by the preview and the final render
+  pipeline: PipelineStage[];
+  // Encoding the filters see, and the color space of the canvases the image
+  // is read into and rendered from
+  workingSpace: WorkingSpace;
+  colorSpace: PredefinedColorSpace;
+  // How raw files are demosaiced when they are developed
+  demosaic: DemosaicAlgorithm;
+  // Crop, rotation and flips, applied to the upscaled image before the
+  // filters
+  geometry: Geometry;
+  // Local adjustments, blended over the result in order
+  masks: MaskLayer[];
+}
+
+// Cell grid and clipped equalization curves a CLAHE stage works out from
+// the whole image
+export interface ClaheAnalysis {
+  columns: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number;
+  lookup: Float32Array;
+}
+
+// The CLAHE analyses of a render, one per CLAHE stage in the order the
+// stages are built. Renders of the same source with the same settings build
+// the same stages, so each can pick up what the previous one saved.
+interface ClaheAnalyses {
+  saved: ClaheAnalysis[];
+  // Stages built so far
+  built: number;
 }
 
 export class ImageProcessor {
+  // Images above this size are processed tile by tile to bound memory.
+  // Float tiles take four times the space of canvas pixels.
+  private static readonly TILED_PIXEL_THRESHOLD = 4_000_000;
+  private static readonly TILE_SIZE = 1024;
+  private static readonly GUIDED_RADIUS_SCALE = 0.8;
+  private static readonly GUIDED_EPSILON_SCALE = 0.6;
+  // Pixels around each tile an AI model sees for context
+  private static readonly MODEL_CONTEXT = 16;
+  // Source pixels each upscale kernel reaches on either side of a sample
+  private static readonly UPSCALE_SUPPORT: Record<ResampleAlgorithm, number> = {
+    nearest: 1,
+    bilinear: 1,
+    bicubic: 2,
+    lanczos3: 3,
+    'edge-directed': 1
+  };
+
   // Advanced unsharp masking for professional sharpening
   private static applyUnsharpMask(
-    imageData: ImageData,
+    tile: PixelTile,
     width: number,
     height: number,
     amount: number,
     radius: number = 1,
-    threshold: number = 0
-  ): ImageData {
-    const data = imageData.data;
-    const outputData = new Uint8ClampedArray(data);
+    threshold: number = 0,
+    samples: number = 1
+  ): PixelTile {
+    const data = tile.data;
+    const outputData = new Float32Array(data);
     
     // Create Gaussian blur for unsharp mask
-    const blurred = this.gaussianBlur(imageData, width, height, radius);
+    const blurred = this.gaussianBlur(tile, width, height, radius, samples);
     
     for (let i = 0; i < data.length; i += 4) {
       for (let c = 0; c < 3; c++) { // RGB channels
@@ -39,26 +133,27 @@ export class ImageProcessor {
       outputData[i + 3] = data[i + 3]; // Alpha
     }
     
-    return new ImageData(outputData, width, height);
+    return createTile(width, height, outputData);
   }
 
   // Advanced Gaussian blur implementation
   private static gaussianBlur(
-    imageData: ImageData,
+    tile: PixelTile,
     width: number,
     height: number,
-    radius: number
-  ): ImageData {
-    const data = imageData.data;
-    const outputData = new Uint8ClampedArray(data);
+    radius: number,
+    samples: number = 1
+  ): PixelTile {
+    const data = tile.data;
+    const outputData = new Float32Array(data);
     
     // Generate Gaussian kernel
-    const kernel = this.generateGaussianKernel(radius);
+    const kernel = this.generateGaussianKernel(radius, samples);
     const kernelSize = kernel.length;
     const halfKernel = Math.floor(kernelSize / 2);
     
     // Horizontal pass
-    const tempData = new Uint8ClampedArray(data);
+    const tempData = new Float32Array(data);
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         for (let c = 0; c < 3; c++) {
@@ -102,10 +197,19 @@ export class ImageProcessor {
       }
     }
     
-    return new ImageData(outputData, width, height);
+    return createTile(width, height, outputData);
+  }
+
+  // Half-width of the kernel generateGaussianKernel builds for `radius`
+  private static gaussianKernelRadius(radius: number): number {
+    return Math.floor(Math.max(3, Math.ceil(radius * 6) | 1) / 2);
   }
 
-  private static generateGaussianKernel(radius: number): number[] {
+  // On an image shrunk `samples` times, each pixel averages samples ×
+  // samples pixels of the final render, so every tap is spread over the
+  // pixels it overlaps there. Kernels narrower than a pixel then still
+  // reach the neighbours as they would at full size, instead of vanishing.
+  private static generateGaussianKernel(radius: number, samples: number = 1): number[] {
     const size = Math.max(3, Math.ceil(radius * 6) | 1); // Ensure odd size
     const kernel = new Array(size);
     const sigma = radius / 3;
@@ -114,8 +218,11 @@ export class ImageProcessor {
     let sum = 0;
     
     for (let i = 0; i < size; i++) {
-      const x = i - center;
-      kernel[i] = Math.exp(-(x * x) / twoSigmaSquare);
+      kernel[i] = 0;
+      for (let offset = 1 - samples; offset < samples; offset++) {
+        const x = i - center + offset / samples;
+        kernel[i] += (samples - Math.abs(offset)) * Math.exp(-(x * x) / twoSigmaSquare);
+      }
       sum += kernel[i];
     }
     
@@ -129,31 +236,15 @@ export class ImageProcessor {
 
   // Advanced brightness and contrast with tone mapping
   private static applyAdvancedToneMapping(
-    imageData: ImageData,
+    tile: PixelTile,
     brightness: number,
     contrast: number
-  ): ImageData {
-    const data = imageData.data;
-    
-    // Calculate histogram for adaptive processing
-    const histogram = new Array(256).fill(0);
-    for (let i = 0; i < data.length; i += 4) {
-      const luminance = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-      histogram[luminance]++;
-    }
-    
-    // Calculate cumulative distribution
-    const cdf = new Array(256);
-    cdf[0] = histogram[0];
-    for (let i = 1; i < 256; i++) {
-      cdf[i] = cdf[i - 1] + histogram[i];
-    }
-    
-    const totalPixels = data.length / 4;
+  ): PixelTile {
+    const data = tile.data;
     
     for (let i = 0; i < data.length; i += 4) {
       for (let c = 0; c < 3; c++) {
-        let value = data[i + c];
+        const value = data[i + c];
         
         // Apply contrast with S-curve
         const normalized = value / 255;
@@ -166,7 +257,7 @@ export class ImageProcessor {
       }
     }
     
-    return imageData;
+    return tile;
   }
 
   private static applySCurve(value: number, strength: number): number {
@@ -184,8 +275,8 @@ export class ImageProcessor {
   }
 
   // Advanced saturation with luminance preservation
-  private static applyAdvancedSaturation(imageData: ImageData, saturation: number): ImageData {
-    const data = imageData.data;
+  private static applyAdvancedSaturation(tile: PixelTile, saturation: number): PixelTile {
+    const data = tile.data;
     const factor = (saturation + 100) / 100;
     
     for (let i = 0; i < data.length; i += 4) {
@@ -234,19 +325,19 @@ export class ImageProcessor {
       data[i + 2] = Math.min(255, Math.max(0, (bPrime + m) * 255));
     }
     
-    return imageData;
+    return tile;
   }
 
   // Advanced noise reduction using bilateral filtering
   private static applyBilateralFilter(
-    imageData: ImageData,
+    tile: PixelTile,
     width: number,
     height: number,
     spatialSigma: number,
     intensitySigma: number
-  ): ImageData {
-    const data = imageData.data;
-    const outputData = new Uint8ClampedArray(data);
+  ): PixelTile {
+    const data = tile.data;
+    const outputData = new Float32Array(data);
     const radius = Math.ceil(spatialSigma * 2);
     
     for (let y = radius; y < height - radius; y++) {
@@ -282,96 +373,276 @@ export class ImageProcessor {
       }
     }
     
-    return new ImageData(outputData, width, height);
+    return createTile(width, height, outputData);
   }
 
-  // Advanced AI enhancement with multiple techniques
-  private static applyAdvancedAIEnhancement(imageData: ImageData, width: number, height: number): ImageData {
-    const data = imageData.data;
-    
-    // Step 1: Edge-preserving smoothing
-    let enhanced = this.applyBilateralFilter(imageData, width, height, 3, 25);
-    
-    // Step 2: Local contrast enhancement (CLAHE simulation)
-    enhanced = this.applyCLAHE(enhanced, width, height);
-    
-    // Step 3: Detail enhancement
-    enhanced = this.enhanceDetails(enhanced, width, height);
-    
-    // Step 4: Color enhancement
-    enhanced = this.enhanceColors(enhanced);
-    
-    return enhanced;
+  // Fast edge-preserving smoothing with a self-guided filter (He et al.).
+  // Every step is a box mean computed with running sums, so the cost per
+  // pixel does not depend on the radius.
+  private static applyGuidedFilter(
+    tile: PixelTile,
+    width: number,
+    height: number,
+    radius: number,
+    epsilon: number
+  ): PixelTile {
+    const data = tile.data;
+    const outputData = new Float32Array(data);
+    const pixelCount = width * height;
+
+    const guide = new Float32Array(pixelCount);
+    const squared = new Float32Array(pixelCount);
+    const meanGuide = new Float32Array(pixelCount);
+    const meanSquared = new Float32Array(pixelCount);
+    const scratch = new Float32Array(pixelCount);
+
+    for (let c = 0; c < 3; c++) {
+      for (let i = 0; i < pixelCount; i++) {
+        const value = data[i * 4 + c];
+        guide[i] = value;
+        squared[i] = value * value;
+      }
+
+      this.boxMean(guide, meanGuide, scratch, width, height, radius);
+      this.boxMean(squared, meanSquared, scratch, width, height, radius);
+
+      // Per-window linear coefficients; `guide` and `squared` are free to
+      // hold a and b from here on
+      for (let i = 0; i < pixelCount; i++) {
+        const mean = meanGuide[i];
+        const variance = meanSquared[i] - mean * mean;
+        const a = variance / (variance + epsilon);
+        squared[i] = a;
+        meanSquared[i] = mean - a * mean;
+      }
+
+      this.boxMean(squared, squared, scratch, width, height, radius);
+      this.boxMean(meanSquared, meanSquared, scratch, width, height, radius);
+
+      for (let i = 0; i < pixelCount; i++) {
+        const value = data[i * 4 + c];
+        outputData[i * 4 + c] = Math.min(255, Math.max(0, squared[i] * value + meanSquared[i]));
+      }
+    }
+
+    return createTile(width, height, outputData);
   }
 
-  // Contrast Limited Adaptive Histogram Equalization simulation
-  private static applyCLAHE(imageData: ImageData, width: number, height: number): ImageData {
-    const data = imageData.data;
-    const blockSize = 64;
-    const clipLimit = 3.0;
-    
-    for (let by = 0; by < height; by += blockSize) {
-      for (let bx = 0; bx < width; bx += blockSize) {
-        const endY = Math.min(by + blockSize, height);
-        const endX = Math.min(bx + blockSize, width);
-        
-        // Calculate histogram for this block
-        const histogram = new Array(256).fill(0);
-        let pixelCount = 0;
-        
-        for (let y = by; y < endY; y++) {
-          for (let x = bx; x < endX; x++) {
-            const idx = (y * width + x) * 4;
-            const luminance = Math.round(0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2]);
-            histogram[luminance]++;
-            pixelCount++;
+  // Separable box mean over a (2r+1)² window, clipped at the image border.
+  // A fractional radius weights the outermost pixels by the fraction, so
+  // windows keep shrinking below a pixel at preview scale. `output` may
+  // alias `input`.
+  private static boxMean(
+    input: Float32Array,
+    output: Float32Array,
+    scratch: Float32Array,
+    width: number,
+    height: number,
+    radius: number
+  ) {
+    const reach = Math.floor(radius);
+    const edge = radius - reach;
+
+    // Horizontal pass
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      let sum = 0;
+      for (let x = 0; x < Math.min(reach, width); x++) sum += input[row + x];
+
+      for (let x = 0; x < width; x++) {
+        const enter = x + reach;
+        const leave = x - reach - 1;
+        if (enter < width) sum += input[row + enter];
+        if (leave >= 0) sum -= input[row + leave];
+        let total = sum;
+        let count = Math.min(width - 1, enter) - Math.max(0, x - reach) + 1;
+        if (edge > 0) {
+          if (leave >= 0) {
+            total += input[row + leave] * edge;
+            count += edge;
           }
-        }
-        
-        // Apply contrast limiting
-        const clipValue = (clipLimit * pixelCount) / 256;
-        let excess = 0;
-        for (let i = 0; i < 256; i++) {
-          if (histogram[i] > clipValue) {
-            excess += histogram[i] - clipValue;
-            histogram[i] = clipValue;
+          if (enter + 1 < width) {
+            total += input[row + enter + 1] * edge;
+            count += edge;
           }
         }
-        
-        // Redistribute excess
-        const redistribute = excess / 256;
-        for (let i = 0; i < 256; i++) {
-          histogram[i] += redistribute;
+        scratch[row + x] = total / count;
+      }
+    }
+
+    // Vertical pass
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let y = 0; y < Math.min(reach, height); y++) sum += scratch[y * width + x];
+
+      for (let y = 0; y < height; y++) {
+        const enter = y + reach;
+        const leave = y - reach - 1;
+        if (enter < height) sum += scratch[enter * width + x];
+        if (leave >= 0) sum -= scratch[leave * width + x];
+        let total = sum;
+        let count = Math.min(height - 1, enter) - Math.max(0, y - reach) + 1;
+        if (edge > 0) {
+          if (leave >= 0) {
+            total += scratch[leave * width + x] * edge;
+            count += edge;
+          }
+          if (enter + 1 < height) {
+            total += scratch[(enter + 1) * width + x] * edge;
+            count += edge;
+          }
         }
-        
-        // Calculate CDF
-        const cdf = new Array(256);
-        cdf[0] = histogram[0];
-        for (let i = 1; i < 256; i++) {
-          cdf[i] = cdf[i - 1] + histogram[i];
+        output[y * width + x] = total / count;
+      }
+    }
+  }
+
+  // Advanced AI enhancement with multiple techniques
+  private static advancedAIEnhancementStages(params: StageParams['ai'], samples: number, analyses?: ClaheAnalyses): TileStage[] {
+    return [
+      // Step 1: Edge-preserving smoothing
+      this.denoiseStage(params.smoothingSigma, 25, params.backend, samples),
+      // Step 2: Local contrast enhancement (CLAHE)
+      this.claheStage(params.claheTileGrid, params.claheClipLimit, analyses),
+      // Step 3: Detail enhancement
+      {
+        inputRect: (output, width, height) => expandRect(output, this.gaussianKernelRadius(params.detailRadius), width, height),
+        apply: (tile) => this.enhanceDetails(tile, tile.width, tile.height, params.detailRadius, samples)
+      },
+      // Step 4: Color enhancement
+      this.pointStage((tile) => this.enhanceColors(tile))
+    ];
+  }
+
+  // Contrast Limited Adaptive Histogram Equalization on luminance. The
+  // image is split into a tileGrid × tileGrid grid of cells; each cell gets a
+  // clipped equalization curve and every pixel blends the curves of its four
+  // nearest cell centres, so there are no seams at cell borders.
+  private static claheStage(tileGrid: number, clipLimit: number, analyses?: ClaheAnalyses): TileStage {
+    // Where this stage's analysis is kept for later renders
+    const slot = analyses ? analyses.built++ : -1;
+    let analysis = analyses?.saved[slot] ?? null;
+    let columns = 0;
+    let rows = 0;
+    let cellWidth = 0;
+    let cellHeight = 0;
+    let histograms: Uint32Array | null = null;
+
+    const apply = (tile: PixelTile, rect: Rect): PixelTile => {
+      if (!analysis) {
+        if (!histograms) return tile;
+        analysis = { columns, rows, cellWidth, cellHeight, lookup: this.buildCLAHELookup(histograms, columns * rows, clipLimit) };
+        if (analyses) analyses.saved[slot] = analysis;
+      }
+      return this.applyCLAHE(tile, rect, analysis);
+    };
+
+    // A saved analysis spares the passes over the whole image
+    if (analysis) return { inputRect: (output) => output, apply };
+
+    return {
+      inputRect: (output) => output,
+      analyze: (tile, rect, width, height) => {
+        if (!histograms) {
+          columns = Math.max(1, Math.min(tileGrid, width));
+          rows = Math.max(1, Math.min(tileGrid, height));
+          cellWidth = width / columns;
+          cellHeight = height / rows;
+          histograms = new Uint32Array(columns * rows * 256);
         }
-        
-        // Apply equalization to block
-        for (let y = by; y < endY; y++) {
-          for (let x = bx; x < endX; x++) {
-            const idx = (y * width + x) * 4;
-            for (let c = 0; c < 3; c++) {
-              const value = data[idx + c];
-              const newValue = (cdf[value] / pixelCount) * 255;
-              data[idx + c] = Math.min(255, Math.max(0, newValue));
-            }
+
+        const data = tile.data;
+        for (let y = 0; y < tile.height; y++) {
+          const row = Math.min(rows - 1, Math.floor((rect.y + y) / cellHeight));
+          for (let x = 0; x < tile.width; x++) {
+            const column = Math.min(columns - 1, Math.floor((rect.x + x) / cellWidth));
+            const idx = (y * tile.width + x) * 4;
+            const luminance = Math.round(0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2]);
+            histograms[(row * columns + column) * 256 + luminance]++;
           }
         }
+      },
+      apply
+    };
+  }
+
+  private static applyCLAHE(tile: PixelTile, rect: Rect, { columns, rows, cellWidth, cellHeight, lookup }: ClaheAnalysis): PixelTile {
+    const data = tile.data;
+    for (let y = 0; y < tile.height; y++) {
+      const [row0, row1, wy] = this.claheNeighbours(rect.y + y, cellHeight, rows);
+
+      for (let x = 0; x < tile.width; x++) {
+        const [column0, column1, wx] = this.claheNeighbours(rect.x + x, cellWidth, columns);
+        const idx = (y * tile.width + x) * 4;
+        const luminance = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+        const bin = Math.round(luminance);
+
+        const top = lookup[(row0 * columns + column0) * 256 + bin] * (1 - wx) +
+                    lookup[(row0 * columns + column1) * 256 + bin] * wx;
+        const bottom = lookup[(row1 * columns + column0) * 256 + bin] * (1 - wx) +
+                       lookup[(row1 * columns + column1) * 256 + bin] * wx;
+
+        // Shifting R, G and B by the same amount changes Y only and
+        // leaves the Cb/Cr chroma untouched
+        const delta = top * (1 - wy) + bottom * wy - luminance;
+        for (let c = 0; c < 3; c++) {
+          data[idx + c] = Math.min(255, Math.max(0, data[idx + c] + delta));
+        }
       }
     }
-    
-    return imageData;
+
+    return tile;
+  }
+
+  // Cells whose centres surround `position`, plus the blend weight of the second
+  private static claheNeighbours(position: number, cellSize: number, count: number): [number, number, number] {
+    const offset = (position + 0.5) / cellSize - 0.5;
+    const first = Math.max(0, Math.min(count - 1, Math.floor(offset)));
+    const second = Math.min(count - 1, first + 1);
+    const weight = second === first ? 0 : Math.min(1, Math.max(0, offset - first));
+    return [first, second, weight];
+  }
+
+  // Clip each cell histogram, redistribute the excess and turn the result
+  // into a luminance mapping
+  private static buildCLAHELookup(histograms: Uint32Array, cellCount: number, clipLimit: number): Float32Array {
+    const lookup = new Float32Array(cellCount * 256);
+    const histogram = new Float64Array(256);
+
+    for (let cell = 0; cell < cellCount; cell++) {
+      let pixelCount = 0;
+      for (let i = 0; i < 256; i++) {
+        histogram[i] = histograms[cell * 256 + i];
+        pixelCount += histogram[i];
+      }
+      if (pixelCount === 0) continue;
+
+      // Apply contrast limiting
+      const clipValue = (clipLimit * pixelCount) / 256;
+      let excess = 0;
+      for (let i = 0; i < 256; i++) {
+        if (histogram[i] > clipValue) {
+          excess += histogram[i] - clipValue;
+          histogram[i] = clipValue;
+        }
+      }
+
+      // Redistribute excess and accumulate the CDF
+      const redistribute = excess / 256;
+      let cdf = 0;
+      for (let i = 0; i < 256; i++) {
+        cdf += histogram[i] + redistribute;
+        lookup[cell * 256 + i] = (cdf / pixelCount) * 255;
+      }
+    }
+
+    return lookup;
   }
 
   // Detail enhancement using high-pass filtering
-  private static enhanceDetails(imageData: ImageData, width: number, height: number): ImageData {
-    const blurred = this.gaussianBlur(imageData, width, height, 2);
-    const data = imageData.data;
+  private static enhanceDetails(tile: PixelTile, width: number, height: number, radius: number, samples: number): PixelTile {
+    const blurred = this.gaussianBlur(tile, width, height, radius, samples);
+    const data = tile.data;
     const blurredData = blurred.data;
     
     for (let i = 0; i < data.length; i += 4) {
@@ -382,23 +653,19 @@ export class ImageProcessor {
       }
     }
     
-    return imageData;
+    return tile;
   }
 
-  // Advanced color enhancement
-  private static enhanceColors(imageData: ImageData): ImageData {
-    const data = imageData.data;
+  // Advanced color enhancement. Greys stay grey; colour casts are left to
+  // the white balance stage.
+  private static enhanceColors(tile: PixelTile): PixelTile {
+    const data = tile.data;
     
     for (let i = 0; i < data.length; i += 4) {
       let r = data[i] / 255;
       let g = data[i + 1] / 255;
       let b = data[i + 2] / 255;
       
-      // Apply color temperature adjustment
-      r = Math.pow(r, 0.9) * 1.05;
-      g = Math.pow(g, 0.95) * 1.02;
-      b = Math.pow(b, 1.1) * 0.98;
-      
       // Enhance color separation
       const max = Math.max(r, g, b);
       const min = Math.min(r, g, b);
@@ -414,240 +681,807 @@ export class ImageProcessor {
       data[i + 2] = Math.min(255, Math.max(0, b * 255));
     }
     
-    return imageData;
+    return tile;
   }
 
-  // Bicubic upscaling for better quality
-  private static bicubicUpscale(imageData: ImageData, scaleFactor: number): ImageData {
-    const srcWidth = imageData.width;
-    const srcHeight = imageData.height;
-    const dstWidth = Math.round(srcWidth * scaleFactor);
-    const dstHeight = Math.round(srcHeight * scaleFactor);
-    
-    const srcData = imageData.data;
-    const dstData = new Uint8ClampedArray(dstWidth * dstHeight * 4);
-    
-    for (let y = 0; y < dstHeight; y++) {
-      for (let x = 0; x < dstWidth; x++) {
-        const srcX = x / scaleFactor;
-        const srcY = y / scaleFactor;
-        
+  // Upscale the part of the image needed for `output`. `source` holds the
+  // pixels of `sourceRect`, which has to include the kernel support around
+  // the area `output` maps back to (see upscaleSourceRect).
+  private static upscaleRegion(
+    source: PixelTile,
+    sourceRect: Rect,
+    output: Rect,
+    scaleFactor: number,
+    algorithm: ResampleAlgorithm,
+    imageWidth: number,
+    imageHeight: number
+  ): PixelTile {
+    if (algorithm === 'edge-directed') {
+      return this.edgeDirectedUpscale(source, sourceRect, output, scaleFactor, imageWidth, imageHeight);
+    }
+
+    const srcData = source.data;
+    const srcWidth = source.width;
+    const dstData = new Float32Array(output.width * output.height * 4);
+    const kernel = this.upscaleKernel(algorithm);
+    const support = this.UPSCALE_SUPPORT[algorithm];
+
+    const columns = this.upscaleAxisWeights(output.x, output.width, scaleFactor, sourceRect.x, imageWidth, kernel, support);
+    const rows = this.upscaleAxisWeights(output.y, output.height, scaleFactor, sourceRect.y, imageHeight, kernel, support);
+    const taps = support * 2;
+
+    // Horizontal pass
+    const tempData = new Float32Array(output.width * source.height * 4);
+    for (let y = 0; y < source.height; y++) {
+      for (let x = 0; x < output.width; x++) {
         for (let c = 0; c < 4; c++) {
-          const value = this.bicubicInterpolate(srcData, srcWidth, srcHeight, srcX, srcY, c);
-          dstData[(y * dstWidth + x) * 4 + c] = Math.min(255, Math.max(0, value));
+          let value = 0;
+          for (let k = 0; k < taps; k++) {
+            const tap = x * taps + k;
+            value += srcData[(y * srcWidth + columns.indices[tap]) * 4 + c] * columns.weights[tap];
+          }
+          tempData[(y * output.width + x) * 4 + c] = value;
         }
       }
     }
-    
-    return new ImageData(dstData, dstWidth, dstHeight);
+
+    // Vertical pass
+    for (let y = 0; y < output.height; y++) {
+      for (let x = 0; x < output.width; x++) {
+        for (let c = 0; c < 4; c++) {
+          let value = 0;
+          for (let k = 0; k < taps; k++) {
+            const tap = y * taps + k;
+            value += tempData[(rows.indices[tap] * output.width + x) * 4 + c] * rows.weights[tap];
+          }
+          dstData[(y * output.width + x) * 4 + c] = Math.min(255, Math.max(0, value));
+        }
+      }
+    }
+
+    return createTile(output.width, output.height, dstData);
+  }
+
+  // Source taps and normalized weights for every output pixel along one axis.
+  // Indices are relative to `sourceStart` and clamped to the image edge.
+  private static upscaleAxisWeights(
+    outputStart: number,
+    outputLength: number,
+    scaleFactor: number,
+    sourceStart: number,
+    sourceLength: number,
+    kernel: (t: number) => number,
+    support: number
+  ): { indices: Int32Array; weights: Float32Array } {
+    const taps = support * 2;
+    const indices = new Int32Array(outputLength * taps);
+    const weights = new Float32Array(outputLength * taps);
+
+    for (let i = 0; i < outputLength; i++) {
+      const center = (outputStart + i + 0.5) / scaleFactor - 0.5;
+      const first = Math.floor(center) - support + 1;
+      let weightSum = 0;
+
+      for (let k = 0; k < taps; k++) {
+        const weight = kernel(center - (first + k));
+        indices[i * taps + k] = Math.min(sourceLength - 1, Math.max(0, first + k)) - sourceStart;
+        weights[i * taps + k] = weight;
+        weightSum += weight;
+      }
+
+      for (let k = 0; k < taps; k++) {
+        weights[i * taps + k] /= weightSum;
+      }
+    }
+
+    return { indices, weights };
+  }
+
+  private static upscaleKernel(algorithm: ResampleAlgorithm): (t: number) => number {
+    switch (algorithm) {
+      case 'nearest':
+        return (t) => (t > -0.5 && t <= 0.5 ? 1 : 0);
+      case 'bilinear':
+        return (t) => Math.max(0, 1 - Math.abs(t));
+      case 'lanczos3':
+        return (t) => {
+          if (t === 0) return 1;
+          if (Math.abs(t) >= 3) return 0;
+          const x = Math.PI * t;
+          return (3 * Math.sin(x) * Math.sin(x / 3)) / (x * x);
+        };
+      default:
+        return this.cubicWeight;
+    }
   }
 
-  private static bicubicInterpolate(
-    data: Uint8ClampedArray,
+  // Keys cubic convolution kernel (a = -0.5) used for bicubic upscaling
+  private static cubicWeight(t: number): number {
+    const a = -0.5;
+    const absT = Math.abs(t);
+    if (absT <= 1) {
+      return (a + 2) * absT * absT * absT - (a + 3) * absT * absT + 1;
+    } else if (absT <= 2) {
+      return a * absT * absT * absT - 5 * a * absT * absT + 8 * a * absT - 4 * a;
+    }
+    return 0;
+  }
+
+  // Edge-directed interpolation: within each 2×2 source cell, blend the
+  // bilinear estimate towards interpolation along whichever diagonal has the
+  // smaller luminance change, so edges stay crisp instead of staircasing
+  private static edgeDirectedUpscale(
+    source: PixelTile,
+    sourceRect: Rect,
+    output: Rect,
+    scaleFactor: number,
+    imageWidth: number,
+    imageHeight: number
+  ): PixelTile {
+    const srcData = source.data;
+    const srcWidth = source.width;
+    const dstData = new Float32Array(output.width * output.height * 4);
+
+    const index = (px: number, py: number): number => {
+      const x = Math.min(imageWidth - 1, Math.max(0, px)) - sourceRect.x;
+      const y = Math.min(imageHeight - 1, Math.max(0, py)) - sourceRect.y;
+      return (y * srcWidth + x) * 4;
+    };
+    const luminance = (idx: number): number =>
+      0.299 * srcData[idx] + 0.587 * srcData[idx + 1] + 0.114 * srcData[idx + 2];
+
+    for (let y = 0; y < output.height; y++) {
+      const srcY = (output.y + y + 0.5) / scaleFactor - 0.5;
+      const y0 = Math.floor(srcY);
+      const fy = srcY - y0;
+
+      for (let x = 0; x < output.width; x++) {
+        const srcX = (output.x + x + 0.5) / scaleFactor - 0.5;
+        const x0 = Math.floor(srcX);
+        const fx = srcX - x0;
+
+        const i00 = index(x0, y0);
+        const i10 = index(x0 + 1, y0);
+        const i01 = index(x0, y0 + 1);
+        const i11 = index(x0 + 1, y0 + 1);
+
+        // Luminance change along the main and the anti-diagonal
+        const mainChange = Math.abs(luminance(i00) - luminance(i11));
+        const antiChange = Math.abs(luminance(i10) - luminance(i01));
+        const edgeStrength = Math.abs(mainChange - antiChange) / (mainChange + antiChange + 1);
+        const alongMain = mainChange < antiChange;
+        const t = alongMain ? (fx + fy) / 2 : (fx + 1 - fy) / 2;
+
+        for (let c = 0; c < 4; c++) {
+          const bilinear =
+            (srcData[i00 + c] * (1 - fx) + srcData[i10 + c] * fx) * (1 - fy) +
+            (srcData[i01 + c] * (1 - fx) + srcData[i11 + c] * fx) * fy;
+          const directional = alongMain
+            ? srcData[i00 + c] * (1 - t) + srcData[i11 + c] * t
+            : srcData[i01 + c] * (1 - t) + srcData[i10 + c] * t;
+          const value = bilinear * (1 - edgeStrength) + directional * edgeStrength;
+          dstData[(y * output.width + x) * 4 + c] = Math.min(255, Math.max(0, value));
+        }
+      }
+    }
+
+    return createTile(output.width, output.height, dstData);
+  }
+
+  // Source area (kernel support included) that an upscaled `output` rect maps back to
+  private static upscaleSourceRect(
+    output: Rect,
+    scaleFactor: number,
+    algorithm: ResampleAlgorithm,
+    imageWidth: number,
+    imageHeight: number
+  ): Rect {
+    const support = this.UPSCALE_SUPPORT[algorithm];
+    const x0 = Math.max(0, Math.floor((output.x + 0.5) / scaleFactor - 0.5) - support);
+    const y0 = Math.max(0, Math.floor((output.y + 0.5) / scaleFactor - 0.5) - support);
+    const x1 = Math.min(imageWidth, Math.ceil((output.x + output.width - 0.5) / scaleFactor - 0.5) + support + 1);
+    const y1 = Math.min(imageHeight, Math.ceil((output.y + output.height - 0.5) / scaleFactor - 0.5) + support + 1);
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+  }
+
+  // Size of the upscaled source, and where the crop and rotation take it
+  private static outputGeometry(
     width: number,
     height: number,
-    x: number,
-    y: number,
-    channel: number
-  ): number {
-    const x1 = Math.floor(x);
-    const y1 = Math.floor(y);
-    const dx = x - x1;
-    const dy = y - y1;
-    
-    const getValue = (px: number, py: number): number => {
-      px = Math.min(width - 1, Math.max(0, px));
-      py = Math.min(height - 1, Math.max(0, py));
-      return data[(py * width + px) * 4 + channel];
-    };
-    
-    const cubic = (t: number): number => {
-      const a = -0.5;
-      const absT = Math.abs(t);
-      if (absT <= 1) {
-        return (a + 2) * absT * absT * absT - (a + 3) * absT * absT + 1;
-      } else if (absT <= 2) {
-        return a * absT * absT * absT - 5 * a * absT * absT + 8 * a * absT - 4 * a;
-      }
-      return 0;
+    settings: ProcessingSettings
+  ): { upscaled: { width: number; height: number }; mapping: GeometryMapping } {
+    const upscaled = {
+      width: Math.round(width * settings.upscaleFactor),
+      height: Math.round(height * settings.upscaleFactor)
     };
-    
-    let result = 0;
-    for (let m = -1; m <= 2; m++) {
-      for (let n = -1; n <= 2; n++) {
-        const value = getValue(x1 + n, y1 + m);
-        const weight = cubic(dx - n) * cubic(dy - m);
-        result += value * weight;
+    return { upscaled, mapping: geometryMapping(upscaled.width, upscaled.height, settings.geometry) };
+  }
+
+  // Output size for a source image, its upscale factor and geometry
+  static getOutputDimensions(width: number, height: number, settings: ProcessingSettings): { width: number; height: number } {
+    const { mapping } = this.outputGeometry(width, height, settings);
+    return { width: mapping.width, height: mapping.height };
+  }
+
+  // Area of the image (bicubic support included) that an output `rect`
+  // maps back to through `toSource`. Empty when it misses the image.
+  private static transformSourceRect(output: Rect, toSource: Affine, imageWidth: number, imageHeight: number): Rect {
+    const corners = [
+      applyAffine(toSource, output.x, output.y),
+      applyAffine(toSource, output.x + output.width, output.y),
+      applyAffine(toSource, output.x, output.y + output.height),
+      applyAffine(toSource, output.x + output.width, output.y + output.height)
+    ];
+    const x0 = Math.max(0, Math.floor(Math.min(...corners.map(corner => corner.x)) - 0.5) - 1);
+    const y0 = Math.max(0, Math.floor(Math.min(...corners.map(corner => corner.y)) - 0.5) - 1);
+    const x1 = Math.min(imageWidth, Math.ceil(Math.max(...corners.map(corner => corner.x)) - 0.5) + 3);
+    const y1 = Math.min(imageHeight, Math.ceil(Math.max(...corners.map(corner => corner.y)) - 0.5) + 3);
+    return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+  }
+
+  // Resample `source`, which holds `sourceRect` of the image, onto an
+  // output `rect`. Output pixels off the image are transparent.
+  private static transformRegion(
+    source: PixelTile,
+    sourceRect: Rect,
+    output: Rect,
+    toSource: Affine,
+    imageWidth: number,
+    imageHeight: number
+  ): PixelTile {
+    const result = createTile(output.width, output.height);
+    const out = result.data;
+    const data = source.data;
+    const xWeights = new Float32Array(4);
+    const yWeights = new Float32Array(4);
+    const columns = new Int32Array(4);
+    const rows = new Int32Array(4);
+
+    for (let y = 0; y < output.height; y++) {
+      for (let x = 0; x < output.width; x++) {
+        const point = applyAffine(toSource, output.x + x + 0.5, output.y + y + 0.5);
+        if (point.x < 0 || point.y < 0 || point.x > imageWidth || point.y > imageHeight) continue;
+
+        // Bicubic taps around the point, clamped to the image edge
+        const fx = point.x - 0.5;
+        const fy = point.y - 0.5;
+        const ix = Math.floor(fx);
+        const iy = Math.floor(fy);
+        for (let k = 0; k < 4; k++) {
+          xWeights[k] = this.cubicWeight(fx - (ix + k - 1));
+          yWeights[k] = this.cubicWeight(fy - (iy + k - 1));
+          columns[k] = Math.min(imageWidth - 1, Math.max(0, ix + k - 1)) - sourceRect.x;
+          rows[k] = Math.min(imageHeight - 1, Math.max(0, iy + k - 1)) - sourceRect.y;
+        }
+
+        const o = (y * output.width + x) * 4;
+        for (let c = 0; c < 4; c++) {
+          let value = 0;
+          for (let j = 0; j < 4; j++) {
+            const row = rows[j] * source.width;
+            let sum = 0;
+            for (let i = 0; i < 4; i++) sum += data[(row + columns[i]) * 4 + c] * xWeights[i];
+            value += sum * yWeights[j];
+          }
+          out[o + c] = Math.min(255, Math.max(0, value));
+        }
       }
     }
-    
     return result;
   }
 
-  private static createOptimizedCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
-    const canvas = document.createElement('canvas');
+  private static createOptimizedCanvas(
+    width: number,
+    height: number,
+    colorSpace: PredefinedColorSpace = 'srgb'
+  ): { canvas: OffscreenCanvas; ctx: OffscreenCanvasRenderingContext2D } {
+    const canvas = new OffscreenCanvas(width, height);
     const ctx = canvas.getContext('2d', {
-      alpha: false,
+      alpha: true,
       desynchronized: true,
-      willReadFrequently: true
+      willReadFrequently: true,
+      colorSpace
     });
     
     if (!ctx) throw new Error('Canvas context not available');
     
-    canvas.width = width;
-    canvas.height = height;
-    
     return { canvas, ctx };
   }
 
-  // Real-time processing with aggressive enhancements
-  static async processImageRealtime(
-    file: File,
-    settings: ProcessingSettings
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-
-      img.onload = () => {
-        try {
-          // Use moderate size for real-time processing
-          const maxSize = 800;
-          const scale = Math.min(maxSize / img.width, maxSize / img.height, 1);
-          const width = Math.floor(img.width * scale);
-          const height = Math.floor(img.height * scale);
-
-          const { canvas, ctx } = this.createOptimizedCanvas(width, height);
-          ctx.drawImage(img, 0, 0, width, height);
-
-          let imageData = ctx.getImageData(0, 0, width, height);
-
-          // Apply aggressive enhancements for real-time preview
-          if (settings.denoising > 0) {
-            const spatialSigma = 2 + (settings.denoising / 100) * 3;
-            const intensitySigma = 15 + (settings.denoising / 100) * 35;
-            imageData = this.applyBilateralFilter(imageData, width, height, spatialSigma, intensitySigma);
-          }
+  // Composite the image onto white for formats that cannot store alpha,
+  // which would otherwise turn transparent areas black
+  private static flattenOntoWhite(ctx: OffscreenCanvasRenderingContext2D, width: number, height: number) {
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
 
-          if (settings.brightness !== 0 || settings.contrast !== 0) {
-            imageData = this.applyAdvancedToneMapping(imageData, settings.brightness, settings.contrast);
-          }
+  // Drop the canvas backing store right away instead of waiting for GC
+  private static releaseCanvas(canvas: OffscreenCanvas) {
+    canvas.width = 0;
+    canvas.height = 0;
+  }
 
-          if (settings.saturation !== 0) {
-            imageData = this.applyAdvancedSaturation(imageData, settings.saturation);
-          }
+  // Yield to the event loop between stages so a pending cancel message can
+  // be handled, then bail out if the job was aborted
+  private static async checkpoint(signal?: AbortSignal): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    signal?.throwIfAborted();
+  }
 
-          if (settings.sharpening > 0) {
-            const amount = 0.5 + (settings.sharpening / 100) * 2;
-            const radius = 1 + (settings.sharpening / 100) * 1.5;
-            imageData = this.applyUnsharpMask(imageData, width, height, amount, radius, 3);
-          }
+  // Read a region of the source through a scratch canvas so the full
+  // image never has to be copied into a pixel buffer. Rasters are read
+  // directly at full precision.
+  private static readRegion(
+    source: ImageSource,
+    rect: Rect,
+    settings: ProcessingSettings,
+    colorSpace: PredefinedColorSpace
+  ): PixelTile {
+    if (isRaster(source)) return rasterToWorkingTile(source, rect, settings.workingSpace, colorSpace);
 
-          if (settings.useAI) {
-            imageData = this.applyAdvancedAIEnhancement(imageData, width, height);
-          }
+    const { canvas, ctx } = this.createOptimizedCanvas(rect.width, rect.height, colorSpace);
+    ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    const imageData = ctx.getImageData(0, 0, rect.width, rect.height, { colorSpace });
+    this.releaseCanvas(canvas);
+    return toWorkingTile(imageData, settings.workingSpace);
+  }
+
+  // Stage that only looks at each pixel on its own
+  private static pointStage(apply: (tile: PixelTile) => PixelTile): TileStage {
+    return { inputRect: (output) => output, apply };
+  }
+
+  // Point stage mapping each channel through its own 256-entry lookup
+  // table, interpolating between entries. With `encoded`, the tables are
+  // indexed by gamma-encoded levels even in linear light.
+  private static lutStage(
+    [red, green, blue]: ArrayLike<number>[],
+    workingSpace: WorkingSpace,
+    encoded: boolean
+  ): TileStage {
+    const lookup = (table: ArrayLike<number>, level: number) => {
+      const x = Math.min(255, Math.max(0, level));
+      const i = Math.min(254, Math.floor(x));
+      return table[i] + (table[i + 1] - table[i]) * (x - i);
+    };
+    const convert = encoded && workingSpace === 'linear';
 
-          ctx.putImageData(imageData, 0, 0);
-          resolve(canvas.toDataURL('image/jpeg', 0.9));
-        } catch (error) {
-          reject(error);
+    return this.pointStage((tile) => {
+      const data = tile.data;
+      for (let i = 0; i < data.length; i += 4) {
+        if (convert) {
+          data[i] = decodeLevel(lookup(red, encodeLevel(data[i])));
+          data[i + 1] = decodeLevel(lookup(green, encodeLevel(data[i + 1])));
+          data[i + 2] = decodeLevel(lookup(blue, encodeLevel(data[i + 2])));
+        } else {
+          data[i] = lookup(red, data[i]);
+          data[i + 1] = lookup(green, data[i + 1]);
+          data[i + 2] = lookup(blue, data[i + 2]);
         }
+      }
+      return tile;
+    });
+  }
+
+  // Per-channel multipliers on linear values
+  private static gainStage([red, green, blue]: [number, number, number]): TileStage {
+    return this.pointStage((tile) => {
+      const data = tile.data;
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = Math.min(255, data[i] * red);
+        data[i + 1] = Math.min(255, data[i + 1] * green);
+        data[i + 2] = Math.min(255, data[i + 2] * blue);
+      }
+      return tile;
+    });
+  }
+
+  // Edge-preserving noise reduction through the selected backend. The
+  // guided filter parameters are tuned to track the bilateral result.
+  private static denoiseStage(
+    spatialSigma: number,
+    intensitySigma: number,
+    backend: DenoiseBackend,
+    samples: number
+  ): TileStage {
+    if (backend === 'guided') {
+      // Windows are 2r + 1 pixels wide. On an image shrunk `samples` times
+      // they cover as much of the picture as at full size, which takes a
+      // fractional radius below a pixel at preview scale.
+      const radius = Math.max(0, spatialSigma * this.GUIDED_RADIUS_SCALE - (1 - 1 / samples) / 2);
+      const epsilon = (intensitySigma * this.GUIDED_EPSILON_SCALE) ** 2;
+      return {
+        // Two rounds of box means, each reaching `radius` pixels out
+        inputRect: (output, width, height) => expandRect(output, Math.ceil(radius) * 2, width, height),
+        apply: (tile) => this.applyGuidedFilter(tile, tile.width, tile.height, radius, epsilon)
       };
+    }
+
+    return {
+      inputRect: (output, width, height) => expandRect(output, Math.ceil(spatialSigma * 2), width, height),
+      apply: (tile) => this.applyBilateralFilter(tile, tile.width, tile.height, spatialSigma, intensitySigma)
+    };
+  }
+
+  // The configured AI denoiser, run on each tile with some context around
+  // it. The model is loaded on first use and kept for later jobs.
+  private static modelDenoiseStage(path: string, workingSpace: WorkingSpace): TileStage {
+    return {
+      inputRect: (output, width, height) => expandRect(output, this.MODEL_CONTEXT, width, height),
+      apply: async (tile) => runModel(await loadModel(path, 'denoiser'), tile, workingSpace)
+    };
+  }
+
+  private static unsharpMaskStage(amount: number, radius: number, threshold: number, samples: number): TileStage {
+    return {
+      inputRect: (output, width, height) => expandRect(output, this.gaussianKernelRadius(radius), width, height),
+      apply: (tile) => this.applyUnsharpMask(tile, tile.width, tile.height, amount, radius, threshold, samples)
+    };
+  }
 
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
+  // Tile stages of one pipeline step on an image `scale` times the size of
+  // the final output
+  private static stepStages(
+    stage: PipelineStage,
+    settings: ProcessingSettings,
+    scale: number,
+    analyses?: ClaheAnalyses
+  ): TileStage[] {
+    // Final-render pixels across each pixel of the image being filtered
+    const samples = Math.max(1, Math.round(1 / scale));
+
+    switch (stage.kind) {
+      case 'whiteBalance': {
+        // White balance is always worked out in linear light
+        const balance = resolveStageParams(stage, settings, scale);
+        return [settings.workingSpace === 'linear'
+          ? this.gainStage(whiteBalanceGains(balance.temperature, balance.tint))
+          : this.lutStage(buildWhiteBalanceLuts(balance), 'srgb', false)];
+      }
+      case 'denoise': {
+        const { spatialSigma, intensitySigma, backend } = resolveStageParams(stage, settings, scale);
+        return [this.denoiseStage(spatialSigma, intensitySigma, backend, samples)];
+      }
+      case 'ai': {
+        // The heuristic filters stand in when no model is configured
+        const params = resolveStageParams(stage, settings, scale);
+        return params.model
+          ? [this.modelDenoiseStage(params.model, settings.workingSpace)]
+          : this.advancedAIEnhancementStages(params, samples, analyses);
+      }
+      case 'tone': {
+        const { brightness, contrast } = resolveStageParams(stage, settings, scale);
+        return [this.pointStage((tile) => this.applyAdvancedToneMapping(tile, brightness, contrast))];
+      }
+      case 'curves':
+        // Curves are drawn over display levels, so they apply to those
+        return [this.lutStage(buildChannelLuts(resolveStageParams(stage, settings, scale)), settings.workingSpace, true)];
+      case 'saturation': {
+        const { saturation } = resolveStageParams(stage, settings, scale);
+        return [this.pointStage((tile) => this.applyAdvancedSaturation(tile, saturation))];
+      }
+      case 'sharpen': {
+        const { amount, radius, threshold } = resolveStageParams(stage, settings, scale);
+        return [this.unsharpMaskStage(amount, radius, threshold, samples)];
+      }
+    }
+  }
+
+  // The configured pipeline, run identically by the preview and the final
+  // render
+  private static pipelineStages(settings: ProcessingSettings, scale: number = 1, analyses?: ClaheAnalyses): TileStage[] {
+    return settings.pipeline
+      .filter(stage => isStageActive(stage, settings))
+      .flatMap(stage => this.stepStages(stage, settings, scale, analyses));
+  }
+
+  // The active masks as layers over an image of `width` × `height`, each
+  // running its own pipeline on the same input. Masks are drawn on the
+  // image before the crop and rotation, which `toSource` undoes.
+  private static maskLayers(
+    settings: ProcessingSettings,
+    scale: number,
+    read: (rect: Rect) => PixelTile | Promise<PixelTile>,
+    width: number,
+    height: number,
+    toSource: Affine,
+    analyses?: ClaheAnalyses
+  ): TileLayer[] {
+    return settings.masks.filter(isMaskActive).map(mask => ({
+      stages: this.pipelineStages(maskRenderSettings(settings, mask), scale, analyses),
+      weights: async (rect) => maskWeights(
+        mask,
+        rect,
+        width,
+        height,
+        needsLuminance(mask) ? this.displayLuminance(await read(rect), settings.workingSpace) : null,
+        toSource
+      )
+    }));
+  }
+
+  // Luminance ranges are measured on display-encoded values, as in the
+  // mask overlay
+  private static displayLuminance(tile: PixelTile, workingSpace: WorkingSpace): Float32Array {
+    if (workingSpace === 'srgb') return imageLuminance(tile.data);
+    return imageLuminance(tile.data.map((level, i) => i % 4 === 3 ? level : encodeLevel(level)));
+  }
+
+  // Run the filters and masks over a whole image held in a working-space
+  // tile, `scale` times the size of the final output; upscaling, the crop
+  // and color conversion are left out. Needs no canvas, so the parity check
+  // can run both renders through it outside the browser.
+  static async processTile(
+    image: PixelTile,
+    settings: ProcessingSettings,
+    { scale = 1, tileSize = this.TILE_SIZE }: { scale?: number; tileSize?: number } = {}
+  ): Promise<PixelTile> {
+    const { width, height } = image;
+    const full: Rect = { x: 0, y: 0, width, height };
+    const output = createTile(width, height);
+    // Stages may filter their input in place, so the image is never handed
+    // out itself
+    const read = (rect: Rect) => {
+      const tile = cropTile(image, full, rect);
+      return tile === image ? createTile(width, height, image.data.slice()) : tile;
+    };
+
+    await runTiled(this.pipelineStages(settings, scale), width, height, {
+      tileSize,
+      read,
+      layers: this.maskLayers(settings, scale, read, width, height, IDENTITY_AFFINE),
+      write: (tile, rect) => {
+        for (let y = 0; y < rect.height; y++) {
+          const start = ((rect.y + y) * width + rect.x) * 4;
+          output.data.set(tile.data.subarray(y * rect.width * 4, (y + 1) * rect.width * 4), start);
+        }
+      },
+      checkpoint: () => this.checkpoint()
     });
+    return output;
   }
 
-  // Full quality processing with maximum enhancement
-  static async processImage(
-    file: File,
+  // Downscaled preview through the same pipeline as the final render
+  static async processImageRealtime(
+    source: ImageBitmap,
     settings: ProcessingSettings,
-    onProgress?: (progress: number) => void
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-
-      img.onload = () => {
-        try {
-          // Optional upscaling for better quality
-          let scale = 1;
-          if (img.width * img.height < 1000000) { // Less than 1MP
-            scale = Math.min(2, 1500 / Math.max(img.width, img.height));
-          }
-          
-          const width = Math.floor(img.width * scale);
-          const height = Math.floor(img.height * scale);
+    signal?: AbortSignal,
+    // WebP keeps transparency visible in the preview
+    encoding: EncodeOptions = { type: 'image/webp', quality: 0.9 }
+  ): Promise<Blob> {
+    signal?.throwIfAborted();
 
-          const { canvas, ctx } = this.createOptimizedCanvas(width, height);
-          ctx.drawImage(img, 0, 0, width, height);
-          onProgress?.(10);
+    // Use moderate size for real-time processing
+    const maxSize = 800;
+    const scale = Math.min(maxSize / source.width, maxSize / source.height, 1);
+    const width = Math.floor(source.width * scale);
+    const height = Math.floor(source.height * scale);
 
-          let imageData = ctx.getImageData(0, 0, width, height);
+    // The crop and rotation are drawn straight into the preview canvas
+    const mapping = geometryMapping(width, height, settings.geometry);
+    const colorSpace = resolveColorSpace(settings.colorSpace);
+    const { canvas, ctx } = this.createOptimizedCanvas(mapping.width, mapping.height, colorSpace);
+    try {
+      ctx.imageSmoothingQuality = 'high';
+      const { a, b, c, d, e, f } = mapping.fromSource;
+      ctx.setTransform(a, b, c, d, e, f);
+      ctx.drawImage(source, 0, 0, width, height);
+      ctx.resetTransform();
 
-          // Apply comprehensive enhancement pipeline
-          if (settings.denoising > 0) {
-            const spatialSigma = 3 + (settings.denoising / 100) * 4;
-            const intensitySigma = 20 + (settings.denoising / 100) * 50;
-            imageData = this.applyBilateralFilter(imageData, width, height, spatialSigma, intensitySigma);
-            onProgress?.(25);
-          }
+      // Kernels shrink with the preview so it shows what the final render
+      // will look like at this size
+      const { upscaled } = this.outputGeometry(source.width, source.height, settings);
 
-          if (settings.useAI) {
-            imageData = this.applyAdvancedAIEnhancement(imageData, width, height);
-            onProgress?.(50);
-          }
+      // The preview is a single tile, so it is read in full before being
+      // written back into the same canvas
+      const scale = width / upscaled.width;
+      const read = (rect: Rect) =>
+        toWorkingTile(ctx.getImageData(rect.x, rect.y, rect.width, rect.height, { colorSpace }), settings.workingSpace);
+      await runTiled(this.pipelineStages(settings, scale), mapping.width, mapping.height, {
+        tileSize: Math.max(mapping.width, mapping.height),
+        read,
+        layers: this.maskLayers(settings, scale, read, width, height, mapping.toSource),
+        write: (tile, rect) => ctx.putImageData(fromWorkingTile(tile, settings.workingSpace, colorSpace), rect.x, rect.y),
+        checkpoint: () => this.checkpoint(signal)
+      });
 
-          if (settings.brightness !== 0 || settings.contrast !== 0) {
-            imageData = this.applyAdvancedToneMapping(imageData, settings.brightness, settings.contrast);
-            onProgress?.(65);
-          }
+      return await canvas.convertToBlob(encoding);
+    } finally {
+      this.releaseCanvas(canvas);
+    }
+  }
 
-          if (settings.saturation !== 0) {
-            imageData = this.applyAdvancedSaturation(imageData, settings.saturation);
-            onProgress?.(80);
-          }
+  // Reads output-resolution tiles of `source`. Upscaling, then the crop
+  // and rotation, happen while reading each tile, so the filters see the
+  // image at output resolution without it ever being held in full.
+  private static outputReader(
+    source: ImageSource,
+    settings: ProcessingSettings,
+    colorSpace: PredefinedColorSpace
+  ): (rect: Rect) => PixelTile | Promise<PixelTile> {
+    const { upscaled, mapping } = this.outputGeometry(source.width, source.height, settings);
+    const read = this.upscaledReader(source, settings, upscaled.width, colorSpace);
+    if (isIdentityGeometry(settings.geometry)) return read;
 
-          if (settings.sharpening > 0) {
-            const amount = 1 + (settings.sharpening / 100) * 3;
-            const radius = 1.2 + (settings.sharpening / 100) * 2;
-            imageData = this.applyUnsharpMask(imageData, width, height, amount, radius, 2);
-            onProgress?.(95);
-          }
+    return async (rect) => {
+      const sourceRect = this.transformSourceRect(rect, mapping.toSource, upscaled.width, upscaled.height);
+      if (sourceRect.width === 0 || sourceRect.height === 0) return createTile(rect.width, rect.height);
+      return this.transformRegion(await read(sourceRect), sourceRect, rect, mapping.toSource, upscaled.width, upscaled.height);
+    };
+  }
 
-          ctx.putImageData(imageData, 0, 0);
-          onProgress?.(100);
+  // Tiles of `source` upscaled to `outputWidth`
+  private static upscaledReader(
+    source: ImageSource,
+    settings: ProcessingSettings,
+    outputWidth: number,
+    colorSpace: PredefinedColorSpace
+  ): (rect: Rect) => PixelTile | Promise<PixelTile> {
+    const scaleFactor = outputWidth / source.width;
+    if (scaleFactor === 1) return (rect) => this.readRegion(source, rect, settings, colorSpace);
+    if (settings.upscaleAlgorithm === 'model' && settings.upscaleModel) {
+      return this.modelUpscaleReader(source, settings, scaleFactor, colorSpace);
+    }
 
-          resolve(canvas.toDataURL('image/jpeg', 0.98));
-        } catch (error) {
-          reject(error);
-        }
+    // AI upscaling without a model falls back to Lanczos
+    const algorithm = settings.upscaleAlgorithm === 'model' ? 'lanczos3' : settings.upscaleAlgorithm;
+    return (rect) => {
+      const sourceRect = this.upscaleSourceRect(rect, scaleFactor, algorithm, source.width, source.height);
+      return this.upscaleRegion(
+        this.readRegion(source, sourceRect, settings, colorSpace),
+        sourceRect,
+        rect,
+        scaleFactor,
+        algorithm,
+        source.width,
+        source.height
+      );
+    };
+  }
+
+  // Output tiles through the AI upscaler. The model enlarges by its own
+  // factor (2 or 4) and bicubic resampling takes that to the exact one.
+  private static modelUpscaleReader(
+    source: ImageSource,
+    settings: ProcessingSettings,
+    scaleFactor: number,
+    colorSpace: PredefinedColorSpace
+  ): (rect: Rect) => Promise<PixelTile> {
+    return async (rect) => {
+      const model = await loadModel(settings.upscaleModel, 'upscaler');
+      const { scale } = model;
+      const modelWidth = source.width * scale;
+      const modelHeight = source.height * scale;
+      const ratio = scaleFactor / scale;
+
+      // Area of the model output the resampling needs, then the source
+      // pixels under it plus context
+      const needed = this.upscaleSourceRect(rect, ratio, 'bicubic', modelWidth, modelHeight);
+      const x0 = Math.floor(needed.x / scale);
+      const y0 = Math.floor(needed.y / scale);
+      const sourceRect = expandRect({
+        x: x0,
+        y: y0,
+        width: Math.ceil((needed.x + needed.width) / scale) - x0,
+        height: Math.ceil((needed.y + needed.height) / scale) - y0
+      }, this.MODEL_CONTEXT, source.width, source.height);
+
+      const upscaled = await runModel(model, this.readRegion(source, sourceRect, settings, colorSpace), settings.workingSpace);
+      const upscaledRect: Rect = {
+        x: sourceRect.x * scale,
+        y: sourceRect.y * scale,
+        width: sourceRect.width * scale,
+        height: sourceRect.height * scale
       };
+      return this.upscaleRegion(upscaled, upscaledRect, rect, ratio, 'bicubic', modelWidth, modelHeight);
+    };
+  }
 
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
-    });
+  // Full quality processing at output resolution
+  static async processImage(
+    source: ImageSource,
+    settings: ProcessingSettings,
+    encoding: EncodeOptions,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    signal?.throwIfAborted();
+
+    const { upscaled, mapping } = this.outputGeometry(source.width, source.height, settings);
+    const { width, height } = mapping;
+    const tileSize = width * height > this.TILED_PIXEL_THRESHOLD
+      ? this.TILE_SIZE
+      : Math.max(width, height);
+
+    // High-bit-depth renders skip the canvas and are kept as sRGB
+    if (isRasterEncoding(encoding)) {
+      const output = createRaster(width, height);
+      const read = this.outputReader(source, settings, 'srgb');
+      onProgress?.(10);
+      await runTiled(this.pipelineStages(settings), width, height, {
+        tileSize,
+        read,
+        layers: this.maskLayers(settings, 1, read, upscaled.width, upscaled.height, mapping.toSource),
+        write: (tile, rect) => writeWorkingTile(output, tile, rect, settings.workingSpace),
+        checkpoint: () => this.checkpoint(signal),
+        onProgress: (fraction) => onProgress?.(10 + Math.round(fraction * 85))
+      });
+      const blob = await encodeRaster(output, encoding);
+      onProgress?.(100);
+      return blob;
+    }
+
+    const colorSpace = resolveColorSpace(settings.colorSpace);
+    const read = this.outputReader(source, settings, colorSpace);
+    const { canvas, ctx } = this.createOptimizedCanvas(width, height, colorSpace);
+    try {
+      onProgress?.(10);
+
+      await runTiled(this.pipelineStages(settings), width, height, {
+        tileSize,
+        read,
+        layers: this.maskLayers(settings, 1, read, upscaled.width, upscaled.height, mapping.toSource),
+        write: (tile, rect) => ctx.putImageData(fromWorkingTile(tile, settings.workingSpace, colorSpace), rect.x, rect.y),
+        checkpoint: () => this.checkpoint(signal),
+        onProgress: (fraction) => onProgress?.(10 + Math.round(fraction * 85))
+      });
+
+      if (!getExportFormatInfo(encoding.type)?.supportsAlpha) {
+        this.flattenOntoWhite(ctx, width, height);
+      }
+
+      onProgress?.(100);
+
+      return await canvas.convertToBlob(encoding);
+    } finally {
+      this.releaseCanvas(canvas);
+    }
   }
 
-  static async getImageInfo(file: File): Promise<{
-    width: number;
-    height: number;
-    size: number;
-    type: string;
-  }> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-
-      img.onload = () => {
-        resolve({
-          width: img.width,
-          height: img.height,
-          size: file.size,
-          type: file.type
-        });
-      };
+  // One area of the full-resolution render, for close inspection. `region`
+  // is in output pixels; the result is exactly that part of processImage.
+  // `claheAnalyses` come from an earlier region of the same source with the
+  // same settings, and collect the ones this render works out.
+  static async processRegion(
+    source: ImageSource,
+    settings: ProcessingSettings,
+    region: Rect,
+    encoding: EncodeOptions,
+    signal?: AbortSignal,
+    claheAnalyses: ClaheAnalysis[] = []
+  ): Promise<Blob> {
+    signal?.throwIfAborted();
 
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
-    });
+    const { upscaled, mapping } = this.outputGeometry(source.width, source.height, settings);
+    const { width, height } = mapping;
+    const x = Math.max(0, Math.min(width - 1, Math.floor(region.x)));
+    const y = Math.max(0, Math.min(height - 1, Math.floor(region.y)));
+    const clipped: Rect = {
+      x,
+      y,
+      width: Math.max(1, Math.min(width - x, Math.ceil(region.width))),
+      height: Math.max(1, Math.min(height - y, Math.ceil(region.height)))
+    };
+
+    const colorSpace = resolveColorSpace(settings.colorSpace);
+    const read = this.outputReader(source, settings, colorSpace);
+    const analyses: ClaheAnalyses = { saved: claheAnalyses, built: 0 };
+    const { canvas, ctx } = this.createOptimizedCanvas(clipped.width, clipped.height, colorSpace);
+    try {
+      await runTiled(this.pipelineStages(settings, 1, analyses), width, height, {
+        tileSize: this.TILE_SIZE,
+        region: clipped,
+        read,
+        layers: this.maskLayers(settings, 1, read, upscaled.width, upscaled.height, mapping.toSource, analyses),
+        write: (tile, rect) => ctx.putImageData(fromWorkingTile(tile, settings.workingSpace, colorSpace), rect.x - clipped.x, rect.y - clipped.y),
+        checkpoint: () => this.checkpoint(signal)
+      });
+
+      return await canvas.convertToBlob(encoding);
+    } finally {
+      this.releaseCanvas(canvas);
+    }
   }
 }
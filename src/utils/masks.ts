@@ -0,0 +1,404 @@
+import type { ProcessingSettings } from './imageProcessor';
+import type { Rect } from './tiling';
+import { isRecord } from './pipeline';
+import { Affine, IDENTITY_AFFINE, applyAffine, invertAffine } from './geometry';
+
+// Local adjustments. Each mask carries its own settings; the image is
+// rendered with them as well and blended into the result by the mask's
+// weight, pixel by pixel. Geometry is stored relative to the image (0-1 on
+// both axes), so the same mask fits the preview, the final render and any
+// upscaled size.
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+// A brush or eraser stroke. The radius is a fraction of the image width;
+// feather is the soft part of the radius, 0 for a hard edge.
+export interface BrushStroke {
+  points: MaskPoint[];
+  radius: number;
+  feather: number;
+  erase: boolean;
+}
+
+export type MaskShape =
+  | { type: 'brush' }
+  // Full effect before `start`, fading out towards `end`
+  | { type: 'linear'; start: MaskPoint; end: MaskPoint }
+  // Full effect inside the ellipse, fading out over its outer `feather`
+  | { type: 'radial'; center: MaskPoint; radiusX: number; radiusY: number; feather: number }
+  // Pixels of the original whose luminance (0-1) lies in the range
+  | { type: 'luminance'; min: number; max: number; feather: number };
+
+export type MaskType = MaskShape['type'];
+
+// Settings a mask renders with. Resolution, crop, color management and raw
+// development always follow the image's own settings.
+export type MaskSettings = Omit<ProcessingSettings, 'masks'>;
+
+export interface MaskLayer {
+  id: string;
+  name: string;
+  enabled: boolean;
+  shape: MaskShape;
+  // Painted over the shape in order: brush strokes add, eraser ones remove
+  strokes: BrushStroke[];
+  // Invert the shape (strokes are applied after)
+  invert: boolean;
+  opacity: number;
+  settings: MaskSettings;
+}
+
+// How a drag on the image edits a mask
+export type MaskTool = 'paint' | 'erase' | 'shape';
+
+export interface BrushOptions {
+  radius: number;
+  feather: number;
+}
+
+export const MASK_TYPES: MaskType[] = ['brush', 'linear', 'radial', 'luminance'];
+
+export const MASK_LABELS: Record<MaskType, string> = {
+  brush: 'Brush',
+  linear: 'Linear Gradient',
+  radial: 'Radial Gradient',
+  luminance: 'Luminance Range'
+};
+
+// Points closer than this fraction of the brush radius aren't recorded
+const STROKE_SPACING = 0.25;
+
+// Brush radius range, as a fraction of the image width
+export const MIN_BRUSH_RADIUS = 0.005;
+export const MAX_BRUSH_RADIUS = 0.2;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const smoothstep = (value: number) => {
+  const t = clamp01(value);
+  return t * t * (3 - 2 * t);
+};
+
+export const createMaskId = (): string =>
+  `mask-${Math.random().toString(36).slice(2, 10)}`;
+
+const defaultShape = (type: MaskType): MaskShape => {
+  switch (type) {
+    case 'brush':
+      return { type };
+    case 'linear':
+      return { type, start: { x: 0.5, y: 0 }, end: { x: 0.5, y: 0.5 } };
+    case 'radial':
+      return { type, center: { x: 0.5, y: 0.5 }, radiusX: 0.25, radiusY: 0.25, feather: 0.5 };
+    case 'luminance':
+      return { type, min: 0.6, max: 1, feather: 0.1 };
+  }
+};
+
+// Masks don't nest, so their settings have none of their own
+const withoutMasks = (settings: ProcessingSettings): MaskSettings => {
+  const copy: Partial<ProcessingSettings> = { ...settings };
+  delete copy.masks;
+  return copy as MaskSettings;
+};
+
+// A new mask starts from the image's current settings
+export function createMask(type: MaskType, settings: ProcessingSettings, index: number): MaskLayer {
+  return {
+    id: createMaskId(),
+    name: `${MASK_LABELS[type]} ${index + 1}`,
+    enabled: true,
+    shape: defaultShape(type),
+    strokes: [],
+    invert: false,
+    opacity: 1,
+    settings: withoutMasks(settings)
+  };
+}
+
+export const isMaskActive = (mask: MaskLayer): boolean =>
+  mask.enabled && mask.opacity > 0 && (mask.shape.type !== 'brush' || mask.invert || mask.strokes.some(stroke => !stroke.erase));
+
+// Settings a mask is rendered with
+export const maskRenderSettings = (settings: ProcessingSettings, mask: MaskLayer): ProcessingSettings => ({
+  ...mask.settings,
+  upscaleFactor: settings.upscaleFactor,
+  upscaleAlgorithm: settings.upscaleAlgorithm,
+  upscaleModel: settings.upscaleModel,
+  workingSpace: settings.workingSpace,
+  colorSpace: settings.colorSpace,
+  demosaic: settings.demosaic,
+  geometry: settings.geometry,
+  masks: []
+});
+
+export const needsLuminance = (mask: MaskLayer): boolean => mask.shape.type === 'luminance';
+
+// Weight of a luminance within [min, max], fading over `feather` outside
+const rangeWeight = (value: number, min: number, max: number, feather: number) => {
+  if (value >= min && value <= max) return 1;
+  if (feather <= 0) return 0;
+  return smoothstep(1 - (value < min ? min - value : value - max) / feather);
+};
+
+function shapeWeights(shape: MaskShape, rect: Rect, width: number, height: number, luminance: Float32Array | null, toImage: Affine): Float32Array {
+  const weights = new Float32Array(rect.width * rect.height);
+
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const { x: px, y: py } = applyAffine(toImage, rect.x + x + 0.5, rect.y + y + 0.5);
+      const i = y * rect.width + x;
+      switch (shape.type) {
+        case 'linear': {
+          const ax = shape.start.x * width;
+          const ay = shape.start.y * height;
+          const dx = shape.end.x * width - ax;
+          const dy = shape.end.y * height - ay;
+          const length = dx * dx + dy * dy;
+          // A gradient without length covers nothing
+          const t = length > 0 ? ((px - ax) * dx + (py - ay) * dy) / length : 1;
+          weights[i] = 1 - smoothstep(t);
+          break;
+        }
+        case 'radial': {
+          const dx = (px - shape.center.x * width) / Math.max(1e-6, shape.radiusX * width);
+          const dy = (py - shape.center.y * height) / Math.max(1e-6, shape.radiusY * height);
+          const distance = Math.sqrt(dx * dx + dy * dy);
+          const inner = 1 - shape.feather;
+          weights[i] = distance <= inner ? 1 : distance >= 1 ? 0 : smoothstep((1 - distance) / shape.feather);
+          break;
+        }
+        case 'luminance':
+          weights[i] = luminance ? rangeWeight(luminance[i], shape.min, shape.max, shape.feather) : 0;
+          break;
+        case 'brush':
+          break;
+      }
+    }
+  }
+  return weights;
+}
+
+// Coverage of one stroke over `rect`, segment by segment so only the
+// pixels near the stroke are visited
+function strokeCoverage(
+  stroke: BrushStroke,
+  rect: Rect,
+  width: number,
+  height: number,
+  toImage: Affine,
+  fromImage: Affine
+): Float32Array | null {
+  const coverage = new Float32Array(rect.width * rect.height);
+  const radius = stroke.radius * width;
+  const inner = radius * (1 - stroke.feather);
+  const points = stroke.points.map(point => ({ x: point.x * width, y: point.y * height }));
+  let touched = false;
+
+  // A single point is a segment of length zero
+  const segments = Math.max(1, points.length - 1);
+  for (let s = 0; s < segments; s++) {
+    const a = points[s];
+    const b = points[Math.min(s + 1, points.length - 1)];
+
+    // Pixels of `rect` around the segment's bounds on the image
+    const corners = [
+      applyAffine(fromImage, Math.min(a.x, b.x) - radius, Math.min(a.y, b.y) - radius),
+      applyAffine(fromImage, Math.max(a.x, b.x) + radius, Math.min(a.y, b.y) - radius),
+      applyAffine(fromImage, Math.min(a.x, b.x) - radius, Math.max(a.y, b.y) + radius),
+      applyAffine(fromImage, Math.max(a.x, b.x) + radius, Math.max(a.y, b.y) + radius)
+    ];
+    const x0 = Math.max(rect.x, Math.floor(Math.min(...corners.map(corner => corner.x))));
+    const y0 = Math.max(rect.y, Math.floor(Math.min(...corners.map(corner => corner.y))));
+    const x1 = Math.min(rect.x + rect.width, Math.ceil(Math.max(...corners.map(corner => corner.x))));
+    const y1 = Math.min(rect.y + rect.height, Math.ceil(Math.max(...corners.map(corner => corner.y))));
+    if (x0 >= x1 || y0 >= y1) continue;
+    touched = true;
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = dx * dx + dy * dy;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const point = applyAffine(toImage, x + 0.5, y + 0.5);
+        const px = point.x - a.x;
+        const py = point.y - a.y;
+        const t = length > 0 ? clamp01((px * dx + py * dy) / length) : 0;
+        const distance = Math.hypot(px - t * dx, py - t * dy);
+        if (distance >= radius) continue;
+
+        const value = distance <= inner ? 1 : smoothstep((radius - distance) / (radius - inner));
+        const i = (y - rect.y) * rect.width + x - rect.x;
+        if (value > coverage[i]) coverage[i] = value;
+      }
+    }
+  }
+  return touched ? coverage : null;
+}
+
+// Weight (0-1) of every pixel of `rect` in an image of `width` × `height`.
+// Luminance masks need the luminance of the original over the same rect.
+// Pixels of a cropped or rotated output are placed on the image by
+// `toImage`.
+export function maskWeights(
+  mask: MaskLayer,
+  rect: Rect,
+  width: number,
+  height: number,
+  luminance: Float32Array | null,
+  toImage: Affine = IDENTITY_AFFINE
+): Float32Array {
+  const fromImage = invertAffine(toImage);
+  const weights = shapeWeights(mask.shape, rect, width, height, luminance, toImage);
+  if (mask.invert) {
+    for (let i = 0; i < weights.length; i++) weights[i] = 1 - weights[i];
+  }
+
+  for (const stroke of mask.strokes) {
+    const coverage = strokeCoverage(stroke, rect, width, height, toImage, fromImage);
+    if (!coverage) continue;
+    for (let i = 0; i < weights.length; i++) {
+      weights[i] = stroke.erase ? Math.min(weights[i], 1 - coverage[i]) : Math.max(weights[i], coverage[i]);
+    }
+  }
+
+  if (mask.opacity < 1) {
+    for (let i = 0; i < weights.length; i++) weights[i] *= mask.opacity;
+  }
+  return weights;
+}
+
+// Editing: a drag on the image starts at `start` and is now at `point`.
+// Points past the edge of the image are pulled onto it.
+
+const clampPoint = (point: MaskPoint): MaskPoint => ({ x: clamp01(point.x), y: clamp01(point.y) });
+
+export function startMaskEdit(mask: MaskLayer, tool: MaskTool, start: MaskPoint, brush: BrushOptions): MaskLayer {
+  const point = clampPoint(start);
+  if (tool !== 'shape') {
+    const stroke: BrushStroke = { points: [point], radius: brush.radius, feather: brush.feather, erase: tool === 'erase' };
+    return { ...mask, strokes: [...mask.strokes, stroke] };
+  }
+  return continueMaskEdit(mask, tool, point, point);
+}
+
+export function continueMaskEdit(mask: MaskLayer, tool: MaskTool, dragStart: MaskPoint, current: MaskPoint): MaskLayer {
+  const start = clampPoint(dragStart);
+  const point = clampPoint(current);
+  if (tool !== 'shape') {
+    const stroke = mask.strokes[mask.strokes.length - 1];
+    const last = stroke?.points[stroke.points.length - 1];
+    if (!stroke || !last || Math.hypot(point.x - last.x, point.y - last.y) < stroke.radius * STROKE_SPACING) return mask;
+    return { ...mask, strokes: [...mask.strokes.slice(0, -1), { ...stroke, points: [...stroke.points, point] }] };
+  }
+
+  const shape = mask.shape;
+  switch (shape.type) {
+    case 'linear':
+      return { ...mask, shape: { ...shape, start, end: point } };
+    case 'radial':
+      return {
+        ...mask,
+        shape: {
+          ...shape,
+          center: start,
+          radiusX: Math.max(0.01, Math.abs(point.x - start.x)),
+          radiusY: Math.max(0.01, Math.abs(point.y - start.y))
+        }
+      };
+    default:
+      return mask;
+  }
+}
+
+// Translucent red over the masked area of `imageData`, to lay over the
+// preview while a mask is being edited
+export async function createMaskOverlay(mask: MaskLayer, imageData: ImageData): Promise<Blob> {
+  const { data, width, height } = imageData;
+  const luminance = needsLuminance(mask) ? imageLuminance(data) : null;
+  const weights = maskWeights({ ...mask, opacity: 1 }, { x: 0, y: 0, width, height }, width, height, luminance);
+
+  const overlay = new ImageData(width, height);
+  const out = overlay.data;
+  for (let i = 0; i < weights.length; i++) {
+    out[i * 4] = 255;
+    out[i * 4 + 1] = 32;
+    out[i * 4 + 2] = 96;
+    out[i * 4 + 3] = Math.round(weights[i] * 128);
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.putImageData(overlay, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+}
+
+// Rec. 709 luma (0-1) of display-encoded RGBA levels on the 0-255 scale
+export function imageLuminance(data: ArrayLike<number>): Float32Array {
+  const luminance = new Float32Array(data.length / 4);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+  }
+  return luminance;
+}
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+// Points lie on the image
+const isPoint = (value: unknown): value is MaskPoint =>
+  isRecord(value) && isFraction(value.x) && isFraction(value.y);
+
+const isRadius = (value: unknown): value is number =>
+  isFraction(value) && value > 0;
+
+function parseShape(value: unknown): MaskShape {
+  if (!isRecord(value)) throw new Error('Mask has no shape');
+  const valid = value.type === 'brush' ||
+    (value.type === 'linear' && isPoint(value.start) && isPoint(value.end)) ||
+    (value.type === 'radial' && isPoint(value.center) && isFraction(value.feather) &&
+      isRadius(value.radiusX) && isRadius(value.radiusY)) ||
+    (value.type === 'luminance' && isFraction(value.min) && isFraction(value.max) && value.min <= value.max &&
+      isFraction(value.feather));
+  if (!valid) throw new Error('Mask has an invalid shape');
+  return value as MaskShape;
+}
+
+function parseStroke(value: unknown): BrushStroke {
+  if (
+    !isRecord(value) || !Array.isArray(value.points) || !value.points.every(isPoint) ||
+    typeof value.radius !== 'number' || value.radius < MIN_BRUSH_RADIUS || value.radius > MAX_BRUSH_RADIUS ||
+    !isFraction(value.feather) || typeof value.erase !== 'boolean'
+  ) {
+    throw new Error('Mask has an invalid brush stroke');
+  }
+  return value as unknown as BrushStroke;
+}
+
+// Validate masks read from a file, keeping every shape and stroke on the
+// image and within the ranges of the controls. The settings of each mask
+// go through `parseSettings`, which checks them like any other settings.
+export function parseMasks(value: unknown, parseSettings: (settings: unknown) => ProcessingSettings): MaskLayer[] {
+  if (!Array.isArray(value)) throw new Error('Masks must be a list');
+
+  return value.map((mask): MaskLayer => {
+    if (!isRecord(mask) || typeof mask.enabled !== 'boolean' || typeof mask.invert !== 'boolean' || !isFraction(mask.opacity)) {
+      throw new Error('Settings contain an invalid mask');
+    }
+    if (!Array.isArray(mask.strokes)) throw new Error('Mask strokes must be a list');
+
+    return {
+      id: typeof mask.id === 'string' ? mask.id : createMaskId(),
+      name: typeof mask.name === 'string' ? mask.name : 'Mask',
+      enabled: mask.enabled,
+      shape: parseShape(mask.shape),
+      strokes: mask.strokes.map(parseStroke),
+      invert: mask.invert,
+      opacity: mask.opacity,
+      settings: withoutMasks(parseSettings(mask.settings))
+    };
+  });
+}
@@ -0,0 +1,384 @@
+import { crc32 } from '../crc32';
+
+// Raw metadata blocks as stored in a container, independent of its format
+export interface MetadataBlocks {
+  // TIFF-structured EXIF data, without the JPEG "Exif\0\0" header
+  exif: Uint8Array | null;
+  xmp: string | null;
+  icc: Uint8Array | null;
+}
+
+export type ContainerFormat = 'jpeg' | 'png' | 'webp';
+
+const EXIF_HEADER = new TextEncoder().encode('Exif\0\0');
+const XMP_HEADER = new TextEncoder().encode('http://ns.adobe.com/xap/1.0/\0');
+const ICC_HEADER = new TextEncoder().encode('ICC_PROFILE\0');
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// Largest payload of a JPEG marker segment (length field minus itself)
+const JPEG_SEGMENT_MAX = 65533;
+const ICC_CHUNK_MAX = JPEG_SEGMENT_MAX - ICC_HEADER.length - 2;
+
+const WEBP_FLAG_ICC = 0x20;
+const WEBP_FLAG_ALPHA = 0x10;
+const WEBP_FLAG_EXIF = 0x08;
+const WEBP_FLAG_XMP = 0x04;
+
+const startsWith = (bytes: Uint8Array, prefix: Uint8Array, offset = 0) =>
+  bytes.length >= offset + prefix.length && prefix.every((value, i) => bytes[offset + i] === value);
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const detectContainer = (bytes: Uint8Array): ContainerFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (startsWith(bytes, PNG_SIGNATURE)) return 'png';
+  if (bytes.length >= 12 && fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') return 'webp';
+  return null;
+};
+
+export async function readMetadataBlocks(bytes: Uint8Array): Promise<MetadataBlocks> {
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return readJpeg(bytes);
+    case 'png':
+      return readPng(bytes);
+    case 'webp':
+      return readWebp(bytes);
+    default:
+      return { exif: null, xmp: null, icc: null };
+  }
+}
+
+// Replace the metadata of an encoded image with `blocks`. Containers we
+// can't write (AVIF) come back unchanged.
+export async function writeMetadataBlocks(bytes: Uint8Array, blocks: MetadataBlocks): Promise<Uint8Array> {
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return writeJpeg(bytes, blocks);
+    case 'png':
+      return writePng(bytes, blocks);
+    case 'webp':
+      return writeWebp(bytes, blocks);
+    default:
+      return bytes;
+  }
+}
+
+// JPEG
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+  payload: Uint8Array;
+}
+
+// Marker segments up to (not including) the start of scan
+const jpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; scanStart: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (end > bytes.length) break;
+
+    segments.push({ marker, start: offset, end, payload: bytes.subarray(offset + 4, end) });
+    offset = end;
+  }
+
+  return { segments, scanStart: offset };
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) =>
+  concat([new Uint8Array([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload]);
+
+function readJpeg(bytes: Uint8Array): MetadataBlocks {
+  const blocks: MetadataBlocks = { exif: null, xmp: null, icc: null };
+  const iccChunks: { index: number; data: Uint8Array }[] = [];
+
+  for (const { marker, payload } of jpegSegments(bytes).segments) {
+    if (marker === 0xe1 && startsWith(payload, EXIF_HEADER)) {
+      blocks.exif ??= payload.slice(EXIF_HEADER.length);
+    } else if (marker === 0xe1 && startsWith(payload, XMP_HEADER)) {
+      blocks.xmp ??= new TextDecoder().decode(payload.subarray(XMP_HEADER.length));
+    } else if (marker === 0xe2 && startsWith(payload, ICC_HEADER)) {
+      const dataStart = ICC_HEADER.length + 2;
+      iccChunks.push({ index: payload[ICC_HEADER.length], data: payload.subarray(dataStart) });
+    }
+  }
+
+  if (iccChunks.length > 0) {
+    blocks.icc = concat(iccChunks.sort((a, b) => a.index - b.index).map(chunk => chunk.data));
+  }
+
+  return blocks;
+}
+
+function writeJpeg(bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array {
+  const { segments, scanStart } = jpegSegments(bytes);
+  const inserted: Uint8Array[] = [];
+
+  if (blocks.exif && EXIF_HEADER.length + blocks.exif.length <= JPEG_SEGMENT_MAX) {
+    inserted.push(jpegSegment(0xe1, concat([EXIF_HEADER, blocks.exif])));
+  }
+
+  // Extended XMP is not supported, so oversized packets are dropped
+  const xmp = blocks.xmp ? new TextEncoder().encode(blocks.xmp) : null;
+  if (xmp && XMP_HEADER.length + xmp.length <= JPEG_SEGMENT_MAX) {
+    inserted.push(jpegSegment(0xe1, concat([XMP_HEADER, xmp])));
+  }
+
+  if (blocks.icc) {
+    const count = Math.ceil(blocks.icc.length / ICC_CHUNK_MAX);
+    for (let i = 0; i < count; i++) {
+      const data = blocks.icc.subarray(i * ICC_CHUNK_MAX, (i + 1) * ICC_CHUNK_MAX);
+      inserted.push(jpegSegment(0xe2, concat([ICC_HEADER, new Uint8Array([i + 1, count]), data])));
+    }
+  }
+
+  // Keep the encoder's JFIF header first, drop its own APP1/APP2 segments
+  const app0 = segments.filter(segment => segment.marker === 0xe0);
+  const rest = segments.filter(segment => segment.marker !== 0xe0 && segment.marker !== 0xe1 && segment.marker !== 0xe2);
+
+  return concat([
+    bytes.subarray(0, 2),
+    ...app0.map(segment => bytes.subarray(segment.start, segment.end)),
+    ...inserted,
+    ...rest.map(segment => bytes.subarray(segment.start, segment.end)),
+    bytes.subarray(scanStart)
+  ]);
+}
+
+// PNG
+
+interface PngChunk {
+  type: string;
+  start: number;
+  end: number;
+  data: Uint8Array;
+}
+
+const pngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+
+    chunks.push({ type: fourCC(bytes, offset + 4), start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+  }
+
+  return chunks;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const isXmpChunk = (chunk: PngChunk) =>
+  chunk.type === 'iTXt' && startsWith(chunk.data, new TextEncoder().encode(`${PNG_XMP_KEYWORD}\0`));
+
+async function readPng(bytes: Uint8Array): Promise<MetadataBlocks> {
+  const blocks: MetadataBlocks = { exif: null, xmp: null, icc: null };
+
+  for (const chunk of pngChunks(bytes)) {
+    if (chunk.type === 'eXIf') {
+      blocks.exif ??= chunk.data.slice();
+    } else if (isXmpChunk(chunk)) {
+      // keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+      let offset = PNG_XMP_KEYWORD.length + 1;
+      const compressed = chunk.data[offset] === 1;
+      offset += 2;
+      offset = chunk.data.indexOf(0, offset) + 1;
+      offset = chunk.data.indexOf(0, offset) + 1;
+      if (offset <= 0) continue;
+
+      const text = compressed
+        ? await pipeThrough(chunk.data.subarray(offset), new DecompressionStream('deflate')).catch(() => null)
+        : chunk.data.subarray(offset);
+      if (text) blocks.xmp ??= new TextDecoder().decode(text);
+    } else if (chunk.type === 'iCCP') {
+      // profileName\0 compressionMethod zlibData
+      const nameEnd = chunk.data.indexOf(0);
+      if (nameEnd < 0) continue;
+      blocks.icc ??= await pipeThrough(chunk.data.subarray(nameEnd + 2), new DecompressionStream('deflate')).catch(() => null);
+    }
+  }
+
+  return blocks;
+}
+
+async function writePng(bytes: Uint8Array, blocks: MetadataBlocks): Promise<Uint8Array> {
+  const chunks = pngChunks(bytes);
+  const ihdr = chunks.find(chunk => chunk.type === 'IHDR');
+  if (!ihdr) return bytes;
+
+  const inserted: Uint8Array[] = [];
+  if (blocks.icc) {
+    const compressed = await pipeThrough(blocks.icc, new CompressionStream('deflate'));
+    inserted.push(pngChunk('iCCP', concat([new TextEncoder().encode('ICC Profile\0\0'), compressed])));
+  }
+  if (blocks.exif) {
+    inserted.push(pngChunk('eXIf', blocks.exif));
+  }
+  if (blocks.xmp) {
+    const header = new TextEncoder().encode(`${PNG_XMP_KEYWORD}\0\0\0\0\0`);
+    inserted.push(pngChunk('iTXt', concat([header, new TextEncoder().encode(blocks.xmp)])));
+  }
+
+  // An embedded profile overrides the encoder's sRGB/gAMA/cHRM hints
+  const replaced = (chunk: PngChunk) =>
+    chunk.type === 'iCCP' || chunk.type === 'eXIf' || isXmpChunk(chunk) ||
+    (blocks.icc !== null && (chunk.type === 'sRGB' || chunk.type === 'gAMA' || chunk.type === 'cHRM'));
+
+  return concat([
+    PNG_SIGNATURE,
+    bytes.subarray(ihdr.start, ihdr.end),
+    ...inserted,
+    ...chunks.filter(chunk => chunk !== ihdr && !replaced(chunk)).map(chunk => bytes.subarray(chunk.start, chunk.end))
+  ]);
+}
+
+// WebP
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const riffChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (offset + 8 + size > bytes.length) break;
+
+    chunks.push({ type: fourCC(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+
+  return chunks;
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(new TextEncoder().encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+function readWebp(bytes: Uint8Array): MetadataBlocks {
+  const blocks: MetadataBlocks = { exif: null, xmp: null, icc: null };
+
+  for (const chunk of riffChunks(bytes)) {
+    if (chunk.type === 'EXIF') {
+      // Some writers keep the JPEG-style header inside the chunk
+      const data = startsWith(chunk.data, EXIF_HEADER) ? chunk.data.subarray(EXIF_HEADER.length) : chunk.data;
+      blocks.exif ??= data.slice();
+    } else if (chunk.type === 'XMP ') {
+      blocks.xmp ??= new TextDecoder().decode(chunk.data);
+    } else if (chunk.type === 'ICCP') {
+      blocks.icc ??= chunk.data.slice();
+    }
+  }
+
+  return blocks;
+}
+
+// Canvas size and alpha flag of a simple or extended WebP
+const webpCanvas = (chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } | null => {
+  for (const { type, data } of chunks) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (type === 'VP8X' && data.length >= 10) {
+      return {
+        width: (view.getUint32(4, true) & 0xffffff) + 1,
+        height: (view.getUint32(6, true) >>> 8) + 1,
+        alpha: (data[0] & WEBP_FLAG_ALPHA) !== 0
+      };
+    }
+    if (type === 'VP8 ' && data.length >= 10) {
+      return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, alpha: false };
+    }
+    if (type === 'VP8L' && data.length >= 5) {
+      const bits = view.getUint32(1, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+    }
+  }
+  return null;
+};
+
+function writeWebp(bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array {
+  const chunks = riffChunks(bytes);
+  const canvas = webpCanvas(chunks);
+  if (!canvas) return bytes;
+
+  const hasAlphaChunk = chunks.some(chunk => chunk.type === 'ALPH');
+  const flags =
+    (blocks.icc ? WEBP_FLAG_ICC : 0) |
+    (canvas.alpha || hasAlphaChunk ? WEBP_FLAG_ALPHA : 0) |
+    (blocks.exif ? WEBP_FLAG_EXIF : 0) |
+    (blocks.xmp ? WEBP_FLAG_XMP : 0) |
+    (chunks.find(chunk => chunk.type === 'VP8X')?.data[0] ?? 0) & 0x02;
+
+  // flags, 3 reserved bytes, then canvas width-1 and height-1 as 24-bit LE
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = flags;
+  [canvas.width - 1, canvas.height - 1].forEach((value, i) => {
+    vp8x[4 + i * 3] = value & 0xff;
+    vp8x[5 + i * 3] = (value >> 8) & 0xff;
+    vp8x[6 + i * 3] = (value >> 16) & 0xff;
+  });
+
+  // Extended layout: VP8X, ICCP, image data, EXIF, XMP
+  const image = chunks.filter(chunk => !['VP8X', 'ICCP', 'EXIF', 'XMP '].includes(chunk.type));
+  const body = concat([
+    new TextEncoder().encode('WEBP'),
+    riffChunk('VP8X', vp8x),
+    ...(blocks.icc ? [riffChunk('ICCP', blocks.icc)] : []),
+    ...image.map(chunk => riffChunk(chunk.type, chunk.data)),
+    ...(blocks.exif ? [riffChunk('EXIF', blocks.exif)] : []),
+    ...(blocks.xmp ? [riffChunk('XMP ', new TextEncoder().encode(blocks.xmp))] : [])
+  ]);
+
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat([header, body]);
+}
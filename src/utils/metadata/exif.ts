@@ -0,0 +1,288 @@
+// Minimal TIFF/EXIF reader and writer. Entries keep their raw value bytes in
+// the byte order of the source, so a parsed block can be filtered and
+// written back without interpreting every tag.
+
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;
+}
+
+export interface ExifIfd {
+  entries: ExifEntry[];
+  exif?: ExifIfd;
+  gps?: ExifIfd;
+  interop?: ExifIfd;
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  ifd0: ExifIfd;
+}
+
+export const EXIF_TAGS = {
+  ImageWidth: 0x0100,
+  ImageLength: 0x0101,
+  ImageDescription: 0x010e,
+  Make: 0x010f,
+  Model: 0x0110,
+  Orientation: 0x0112,
+  Software: 0x0131,
+  DateTime: 0x0132,
+  Artist: 0x013b,
+  Copyright: 0x8298,
+  ExposureTime: 0x829a,
+  FNumber: 0x829d,
+  ExifIfdPointer: 0x8769,
+  GpsIfdPointer: 0x8825,
+  IsoSpeed: 0x8827,
+  DateTimeOriginal: 0x9003,
+  FocalLength: 0x920a,
+  XPAuthor: 0x9c9d,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+  InteropIfdPointer: 0xa005,
+  CameraOwnerName: 0xa430,
+  BodySerialNumber: 0xa431,
+  LensModel: 0xa434
+} as const;
+
+export const GPS_TAGS = {
+  LatitudeRef: 0x0001,
+  Latitude: 0x0002,
+  LongitudeRef: 0x0003,
+  Longitude: 0x0004,
+  Altitude: 0x0006
+} as const;
+
+// Tags that identify the photographer or the owner of the camera
+export const EXIF_AUTHOR_TAGS: number[] = [
+  EXIF_TAGS.Artist,
+  EXIF_TAGS.Copyright,
+  EXIF_TAGS.XPAuthor,
+  EXIF_TAGS.CameraOwnerName,
+  EXIF_TAGS.BodySerialNumber
+];
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+// Byte size of one value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4
+};
+
+const MAX_IFD_DEPTH = 4;
+
+export function parseExif(tiff: Uint8Array): ExifData | null {
+  if (tiff.length < 8) return null;
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const visited = new Set<number>();
+
+  const readIfd = (offset: number, depth: number): ExifIfd | undefined => {
+    if (offset < 8 || offset + 2 > tiff.length || depth > MAX_IFD_DEPTH || visited.has(offset)) {
+      return undefined;
+    }
+    visited.add(offset);
+
+    const ifd: ExifIfd = { entries: [] };
+    const entryCount = view.getUint16(offset, littleEndian);
+
+    for (let i = 0; i < entryCount; i++) {
+      const base = offset + 2 + i * 12;
+      if (base + 12 > tiff.length) break;
+
+      const tag = view.getUint16(base, littleEndian);
+      const type = view.getUint16(base + 2, littleEndian);
+      const count = view.getUint32(base + 4, littleEndian);
+
+      switch (tag) {
+        case EXIF_TAGS.ExifIfdPointer:
+          ifd.exif = readIfd(view.getUint32(base + 8, littleEndian), depth + 1);
+          continue;
+        case EXIF_TAGS.GpsIfdPointer:
+          ifd.gps = readIfd(view.getUint32(base + 8, littleEndian), depth + 1);
+          continue;
+        case EXIF_TAGS.InteropIfdPointer:
+          ifd.interop = readIfd(view.getUint32(base + 8, littleEndian), depth + 1);
+          continue;
+      }
+
+      const size = TYPE_SIZES[type];
+      if (!size) continue;
+
+      const byteLength = size * count;
+      const valueOffset = byteLength <= 4 ? base + 8 : view.getUint32(base + 8, littleEndian);
+      if (valueOffset + byteLength > tiff.length) continue;
+
+      ifd.entries.push({ tag, type, count, value: tiff.slice(valueOffset, valueOffset + byteLength) });
+    }
+
+    return ifd;
+  };
+
+  const ifd0 = readIfd(view.getUint32(4, littleEndian), 0);
+  return ifd0 ? { littleEndian, ifd0 } : null;
+}
+
+const subIfds = (ifd: ExifIfd): [number, ExifIfd][] => {
+  const children: [number, ExifIfd][] = [];
+  if (ifd.exif) children.push([EXIF_TAGS.ExifIfdPointer, ifd.exif]);
+  if (ifd.gps) children.push([EXIF_TAGS.GpsIfdPointer, ifd.gps]);
+  if (ifd.interop) children.push([EXIF_TAGS.InteropIfdPointer, ifd.interop]);
+  return children;
+};
+
+const padded = (length: number) => length + (length & 1);
+
+// Write IFD0 and its sub-IFDs back into a TIFF block. IFD1 (the embedded
+// thumbnail) is not carried over since it would show the unedited image.
+export function serializeExif(data: ExifData): Uint8Array {
+  const { littleEndian } = data;
+
+  const order: ExifIfd[] = [];
+  const visit = (ifd: ExifIfd) => {
+    order.push(ifd);
+    subIfds(ifd).forEach(([, child]) => visit(child));
+  };
+  visit(data.ifd0);
+
+  const offsets = new Map<ExifIfd, number>();
+  let size = 8;
+  for (const ifd of order) {
+    offsets.set(ifd, size);
+    const entryCount = ifd.entries.length + subIfds(ifd).length;
+    const dataSize = ifd.entries.reduce((sum, entry) => sum + (entry.value.length > 4 ? padded(entry.value.length) : 0), 0);
+    size += 2 + entryCount * 12 + 4 + dataSize;
+  }
+
+  const buffer = new Uint8Array(size);
+  const view = new DataView(buffer.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+
+  for (const ifd of order) {
+    const offset = offsets.get(ifd)!;
+    const fields = [
+      ...ifd.entries.map(entry => ({ ...entry, pointer: undefined as number | undefined })),
+      ...subIfds(ifd).map(([tag, child]) => ({
+        tag,
+        type: TYPE_LONG,
+        count: 1,
+        value: new Uint8Array(0),
+        pointer: offsets.get(child)
+      }))
+    ].sort((a, b) => a.tag - b.tag);
+
+    view.setUint16(offset, fields.length, littleEndian);
+    let dataOffset = offset + 2 + fields.length * 12 + 4;
+
+    fields.forEach((field, index) => {
+      const base = offset + 2 + index * 12;
+      view.setUint16(base, field.tag, littleEndian);
+      view.setUint16(base + 2, field.type, littleEndian);
+      view.setUint32(base + 4, field.count, littleEndian);
+
+      if (field.pointer !== undefined) {
+        view.setUint32(base + 8, field.pointer, littleEndian);
+      } else if (field.value.length <= 4) {
+        buffer.set(field.value, base + 8);
+      } else {
+        view.setUint32(base + 8, dataOffset, littleEndian);
+        buffer.set(field.value, dataOffset);
+        dataOffset += padded(field.value.length);
+      }
+    });
+
+    // No next IFD
+    view.setUint32(offset + 2 + fields.length * 12, 0, littleEndian);
+  }
+
+  return buffer;
+}
+
+export const getExifEntry = (ifd: ExifIfd | undefined, tag: number): ExifEntry | undefined =>
+  ifd?.entries.find(entry => entry.tag === tag);
+
+export function readExifString(entry: ExifEntry | undefined): string | null {
+  if (!entry) return null;
+
+  // XP* tags are UTF-16LE stored as bytes
+  const text = entry.tag === EXIF_TAGS.XPAuthor
+    ? new TextDecoder('utf-16le').decode(entry.value)
+    : new TextDecoder().decode(entry.value);
+  const trimmed = text.replace(/\0+$/, '').trim();
+  return trimmed || null;
+}
+
+export function readExifNumbers(entry: ExifEntry | undefined, littleEndian: boolean): number[] {
+  if (!entry) return [];
+
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  const values: number[] = [];
+
+  for (let i = 0; i < entry.count; i++) {
+    switch (entry.type) {
+      case 1: values.push(view.getUint8(i)); break;
+      case 3: values.push(view.getUint16(i * 2, littleEndian)); break;
+      case 4: values.push(view.getUint32(i * 4, littleEndian)); break;
+      case 5: {
+        const denominator = view.getUint32(i * 8 + 4, littleEndian);
+        values.push(denominator ? view.getUint32(i * 8, littleEndian) / denominator : 0);
+        break;
+      }
+      case 6: values.push(view.getInt8(i)); break;
+      case 8: values.push(view.getInt16(i * 2, littleEndian)); break;
+      case 9: values.push(view.getInt32(i * 4, littleEndian)); break;
+      case 10: {
+        const denominator = view.getInt32(i * 8 + 4, littleEndian);
+        values.push(denominator ? view.getInt32(i * 8, littleEndian) / denominator : 0);
+        break;
+      }
+      case 11: values.push(view.getFloat32(i * 4, littleEndian)); break;
+      case 12: values.push(view.getFloat64(i * 8, littleEndian)); break;
+    }
+  }
+
+  return values;
+}
+
+// Copy of `ifd` without the given tags
+export const withoutExifTags = (ifd: ExifIfd, tags: number[]): ExifIfd => ({
+  ...ifd,
+  entries: ifd.entries.filter(entry => !tags.includes(entry.tag))
+});
+
+// Copy of `ifd` with a single SHORT or LONG value set, replacing any
+// existing entry for the tag
+export function withExifNumber(
+  ifd: ExifIfd,
+  tag: number,
+  value: number,
+  littleEndian: boolean,
+  type: typeof TYPE_SHORT | typeof TYPE_LONG = TYPE_SHORT
+): ExifIfd {
+  const bytes = new Uint8Array(type === TYPE_SHORT ? 2 : 4);
+  const view = new DataView(bytes.buffer);
+  if (type === TYPE_SHORT) view.setUint16(0, value, littleEndian);
+  else view.setUint32(0, value, littleEndian);
+
+  return {
+    ...ifd,
+    entries: [
+      ...ifd.entries.filter(entry => entry.tag !== tag),
+      { tag, type, count: 1, value: bytes }
+    ]
+  };
+}
+
+export const EXIF_TYPE_LONG = TYPE_LONG;
@@ -0,0 +1,47 @@
+export interface IccProfileInfo {
+  description: string | null;
+  colorSpace: string;
+  version: string;
+}
+
+const readTag = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4)).trim();
+
+// Read the header and the profile description tag. Handles both the v2
+// 'desc' (ASCII) and v4 'mluc' (UTF-16BE) encodings of the description.
+export function parseIccProfile(icc: Uint8Array): IccProfileInfo | null {
+  if (icc.length < 132 || readTag(icc, 36) !== 'acsp') return null;
+
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+  const info: IccProfileInfo = {
+    description: null,
+    colorSpace: readTag(icc, 16),
+    version: `${icc[8]}.${icc[9] >> 4}`
+  };
+
+  const tagCount = view.getUint32(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > icc.length) break;
+    if (readTag(icc, entry) !== 'desc') continue;
+
+    const offset = view.getUint32(entry + 4);
+    const size = view.getUint32(entry + 8);
+    if (offset + size > icc.length || size < 12) break;
+
+    const type = readTag(icc, offset);
+    if (type === 'desc') {
+      const length = view.getUint32(offset + 8);
+      const text = icc.subarray(offset + 12, Math.min(offset + 12 + length, offset + size));
+      info.description = new TextDecoder('latin1').decode(text).replace(/\0+$/, '') || null;
+    } else if (type === 'mluc' && size >= 28) {
+      const length = view.getUint32(offset + 20);
+      const start = offset + view.getUint32(offset + 24);
+      const text = icc.subarray(start, Math.min(start + length, offset + size));
+      info.description = new TextDecoder('utf-16be').decode(text).replace(/\0+$/, '') || null;
+    }
+    break;
+  }
+
+  return info;
+}
@@ -0,0 +1,168 @@
+import {
+  EXIF_AUTHOR_TAGS,
+  EXIF_TAGS,
+  EXIF_TYPE_LONG,
+  ExifData,
+  GPS_TAGS,
+  getExifEntry,
+  parseExif,
+  readExifNumbers,
+  readExifString,
+  serializeExif,
+  withExifNumber,
+  withoutExifTags
+} from './exif';
+import { editXmp, readXmpProperty } from './xmp';
+import { parseIccProfile } from './icc';
+import { readMetadataBlocks, writeMetadataBlocks } from './containers';
+
+export interface ImageMetadata {
+  exif: ExifData | null;
+  xmp: string | null;
+  icc: Uint8Array | null;
+}
+
+// Human-readable fields shown next to the image information
+export interface MetadataSummary {
+  camera: string | null;
+  lens: string | null;
+  capturedAt: string | null;
+  exposure: string | null;
+  location: { latitude: number; longitude: number } | null;
+  author: string | null;
+  copyright: string | null;
+  software: string | null;
+  colorProfile: string | null;
+}
+
+export interface MetadataOptions {
+  keepExif: boolean;
+  keepXmp: boolean;
+  keepIcc: boolean;
+  stripGps: boolean;
+  stripAuthor: boolean;
+}
+
+export const DEFAULT_METADATA_OPTIONS: MetadataOptions = {
+  keepExif: true,
+  keepXmp: true,
+  keepIcc: true,
+  stripGps: false,
+  stripAuthor: false
+};
+
+export const EMPTY_METADATA: ImageMetadata = { exif: null, xmp: null, icc: null };
+
+export const hasMetadata = (metadata: ImageMetadata): boolean =>
+  metadata.exif !== null || metadata.xmp !== null || metadata.icc !== null;
+
+export async function readMetadata(file: Blob): Promise<ImageMetadata> {
+  const blocks = await readMetadataBlocks(new Uint8Array(await file.arrayBuffer()));
+  return {
+    exif: blocks.exif ? parseExif(blocks.exif) : null,
+    xmp: blocks.xmp,
+    icc: blocks.icc
+  };
+}
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}s`;
+
+// Degrees/minutes/seconds rationals plus an N/S or E/W reference
+const gpsCoordinate = (exif: ExifData, valueTag: number, refTag: number, negativeRef: string): number | null => {
+  const [degrees, minutes = 0, seconds = 0] = readExifNumbers(getExifEntry(exif.ifd0.gps, valueTag), exif.littleEndian);
+  if (degrees === undefined) return null;
+
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return readExifString(getExifEntry(exif.ifd0.gps, refTag)) === negativeRef ? -value : value;
+};
+
+export function summarizeMetadata(metadata: ImageMetadata): MetadataSummary {
+  const { exif, xmp } = metadata;
+  const ifd0 = exif?.ifd0;
+  const littleEndian = exif?.littleEndian ?? false;
+  const text = (tag: number, ifd = ifd0) => readExifString(getExifEntry(ifd, tag));
+  const number = (tag: number, ifd = ifd0?.exif) => readExifNumbers(getExifEntry(ifd, tag), littleEndian)[0];
+
+  const make = text(EXIF_TAGS.Make);
+  const model = text(EXIF_TAGS.Model);
+  // Most models already start with the make
+  const camera = model && make && !model.startsWith(make) ? `${make} ${model}` : model ?? make;
+
+  const exposureTime = number(EXIF_TAGS.ExposureTime);
+  const fNumber = number(EXIF_TAGS.FNumber);
+  const iso = number(EXIF_TAGS.IsoSpeed);
+  const focalLength = number(EXIF_TAGS.FocalLength);
+  const exposure = [
+    exposureTime ? formatExposureTime(exposureTime) : null,
+    fNumber ? `f/${fNumber.toFixed(1)}` : null,
+    iso ? `ISO ${iso}` : null,
+    focalLength ? `${Math.round(focalLength)}mm` : null
+  ].filter(Boolean).join(' · ') || null;
+
+  const latitude = exif ? gpsCoordinate(exif, GPS_TAGS.Latitude, GPS_TAGS.LatitudeRef, 'S') : null;
+  const longitude = exif ? gpsCoordinate(exif, GPS_TAGS.Longitude, GPS_TAGS.LongitudeRef, 'W') : null;
+
+  return {
+    camera,
+    lens: text(EXIF_TAGS.LensModel, ifd0?.exif),
+    capturedAt: text(EXIF_TAGS.DateTimeOriginal, ifd0?.exif) ?? text(EXIF_TAGS.DateTime),
+    exposure,
+    location: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+    author: text(EXIF_TAGS.Artist) ?? text(EXIF_TAGS.XPAuthor) ?? (xmp ? readXmpProperty(xmp, 'dc', 'creator') : null),
+    copyright: text(EXIF_TAGS.Copyright) ?? (xmp ? readXmpProperty(xmp, 'dc', 'rights') : null),
+    software: text(EXIF_TAGS.Software),
+    colorProfile: metadata.icc ? parseIccProfile(metadata.icc)?.description ?? 'Embedded profile' : null
+  };
+}
+
+// EXIF as it should appear in the export: privacy edits applied, the pixel
+// dimensions updated to the rendered size and the orientation reset, since
+// uploads are decoded upright
+const exportExif = (exif: ExifData, options: MetadataOptions, width: number, height: number): ExifData => {
+  const { littleEndian } = exif;
+  let ifd0 = options.stripAuthor ? withoutExifTags(exif.ifd0, EXIF_AUTHOR_TAGS) : exif.ifd0;
+  if (options.stripGps) ifd0 = { ...ifd0, gps: undefined };
+  if (getExifEntry(ifd0, EXIF_TAGS.Orientation)) {
+    ifd0 = withExifNumber(ifd0, EXIF_TAGS.Orientation, 1, littleEndian);
+  }
+
+  // Width and length only belong in IFD0 of an actual TIFF file
+  ifd0 = withoutExifTags(ifd0, [EXIF_TAGS.ImageWidth, EXIF_TAGS.ImageLength]);
+
+  if (ifd0.exif) {
+    let exifIfd = options.stripAuthor ? withoutExifTags(ifd0.exif, EXIF_AUTHOR_TAGS) : ifd0.exif;
+    exifIfd = withExifNumber(exifIfd, EXIF_TAGS.PixelXDimension, width, littleEndian, EXIF_TYPE_LONG);
+    exifIfd = withExifNumber(exifIfd, EXIF_TAGS.PixelYDimension, height, littleEndian, EXIF_TYPE_LONG);
+    ifd0 = { ...ifd0, exif: exifIfd };
+  }
+
+  return { littleEndian, ifd0 };
+};
+
+// Write the selected metadata of the source into an encoded export
+export async function embedMetadata(
+  image: Blob,
+  metadata: ImageMetadata,
+  options: MetadataOptions,
+  width: number,
+  height: number
+): Promise<Blob> {
+  const exif = options.keepExif && metadata.exif
+    ? serializeExif(exportExif(metadata.exif, options, width, height))
+    : null;
+  const xmp = options.keepXmp && metadata.xmp
+    ? editXmp(metadata.xmp, {
+        stripGps: options.stripGps,
+        stripAuthor: options.stripAuthor,
+        width,
+        height,
+        resetOrientation: true
+      })
+    : null;
+  const icc = options.keepIcc ? metadata.icc : null;
+  if (!exif && !xmp && !icc) return image;
+
+  const bytes = await writeMetadataBlocks(new Uint8Array(await image.arrayBuffer()), { exif, xmp, icc });
+  return new Blob([bytes], { type: image.type });
+}
@@ -0,0 +1,118 @@
+// XMP packets are RDF/XML. Properties may appear either as attributes on an
+// rdf:Description or as child elements, so edits have to cover both forms.
+
+const NS = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  xmpRights: 'http://ns.adobe.com/xap/1.0/rights/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  iptcCore: 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/'
+} as const;
+
+export interface XmpEdits {
+  stripGps: boolean;
+  stripAuthor: boolean;
+  // Pixel size of the exported image
+  width?: number;
+  height?: number;
+  // Mark the pixels as upright
+  resetOrientation?: boolean;
+}
+
+const isGpsProperty = (node: Element | Attr) =>
+  node.namespaceURI === NS.exif && node.localName.startsWith('GPS');
+
+const isAuthorProperty = (node: Element | Attr) => {
+  switch (node.namespaceURI) {
+    case NS.dc:
+      return node.localName === 'creator' || node.localName === 'rights';
+    case NS.xmpRights:
+      return true;
+    case NS.photoshop:
+      return ['AuthorsPosition', 'CaptionWriter', 'Credit'].includes(node.localName);
+    case NS.iptcCore:
+      return node.localName === 'CreatorContactInfo';
+    default:
+      return false;
+  }
+};
+
+const parseXmp = (xmp: string): Document | null => {
+  const doc = new DOMParser().parseFromString(xmp, 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const descriptions = (doc: Document) => Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'));
+
+const findProperty = (description: Element, ns: string, name: string) =>
+  Array.from(description.children).find(child => child.namespaceURI === ns && child.localName === name);
+
+const hasProperty = (description: Element, ns: string, name: string) =>
+  description.hasAttributeNS(ns, name) || findProperty(description, ns, name) !== undefined;
+
+// Set a simple property, preferring whichever form the packet already uses
+const setProperty = (description: Element, ns: string, prefix: string, name: string, value: string) => {
+  const element = findProperty(description, ns, name);
+  if (element) {
+    element.textContent = value;
+  } else {
+    description.setAttributeNS(ns, `${prefix}:${name}`, value);
+  }
+};
+
+// Apply privacy edits to an XMP packet. Returns null when the packet cannot
+// be parsed and edits were requested, since it can't be cleaned safely.
+export function editXmp(xmp: string, edits: XmpEdits): string | null {
+  const needsEdit = edits.stripGps || edits.stripAuthor || edits.width !== undefined || edits.resetOrientation;
+  if (!needsEdit) return xmp;
+
+  const doc = parseXmp(xmp);
+  if (!doc) return edits.stripGps || edits.stripAuthor ? null : xmp;
+
+  const shouldRemove = (node: Element | Attr) =>
+    (edits.stripGps && isGpsProperty(node)) || (edits.stripAuthor && isAuthorProperty(node));
+
+  for (const description of descriptions(doc)) {
+    for (const attribute of Array.from(description.attributes)) {
+      if (shouldRemove(attribute)) description.removeAttributeNode(attribute);
+    }
+    for (const child of Array.from(description.children)) {
+      if (shouldRemove(child)) child.remove();
+    }
+
+    if (hasProperty(description, NS.exif, 'PixelXDimension') && edits.width !== undefined && edits.height !== undefined) {
+      setProperty(description, NS.exif, 'exif', 'PixelXDimension', String(edits.width));
+      setProperty(description, NS.exif, 'exif', 'PixelYDimension', String(edits.height));
+    }
+
+    if (edits.resetOrientation && hasProperty(description, NS.tiff, 'Orientation')) {
+      setProperty(description, NS.tiff, 'tiff', 'Orientation', '1');
+    }
+  }
+
+  return new XMLSerializer().serializeToString(doc);
+}
+
+// Text of a simple, array or language-alternative property
+export function readXmpProperty(xmp: string, ns: keyof typeof NS, name: string): string | null {
+  const doc = parseXmp(xmp);
+  if (!doc) return null;
+
+  for (const description of descriptions(doc)) {
+    const attribute = description.getAttributeNS(NS[ns], name);
+    if (attribute) return attribute;
+
+    const element = findProperty(description, NS[ns], name);
+    if (!element) continue;
+
+    const items = Array.from(element.getElementsByTagNameNS(NS.rdf, 'li'));
+    const text = items.length > 0
+      ? items.map(item => item.textContent?.trim()).filter(Boolean).join(', ')
+      : element.textContent?.trim();
+    if (text) return text;
+  }
+
+  return null;
+}
@@ -0,0 +1,137 @@
+import type { DenoiseBackend, ProcessingSettings } from './imageProcessor';
+import type { ToneCurves } from './curves';
+import { MAX_TEMPERATURE, MAX_TINT, MIN_TEMPERATURE, WhiteBalance } from './whiteBalance';
+
+// Parameters of each stage kind, as the filters consume them. Lengths are
+// in pixels of the final output.
+export interface StageParams {
+  whiteBalance: WhiteBalance;
+  denoise: { spatialSigma: number; intensitySigma: number; backend: DenoiseBackend };
+  ai: {
+    smoothingSigma: number;
+    detailRadius: number;
+    claheTileGrid: number;
+    claheClipLimit: number;
+    backend: DenoiseBackend;
+    // ONNX denoiser that replaces the filters above; empty for none
+    model: string;
+  };
+  tone: { brightness: number; contrast: number };
+  curves: ToneCurves;
+  saturation: { saturation: number };
+  sharpen: { amount: number; radius: number; threshold: number };
+}
+
+export type StageKind = keyof StageParams;
+
+type SliderKey =
+  | 'sharpening'
+  | 'denoising'
+  | 'temperature'
+  | 'tint'
+  | 'brightness'
+  | 'contrast'
+  | 'saturation'
+  | 'claheTileGrid'
+  | 'claheClipLimit';
+
+// Range of each numeric slider
+export const SLIDER_RANGES: Record<SliderKey, { min: number; max: number }> = {
+  sharpening: { min: 0, max: 100 },
+  denoising: { min: 0, max: 100 },
+  temperature: { min: MIN_TEMPERATURE, max: MAX_TEMPERATURE },
+  tint: { min: -MAX_TINT, max: MAX_TINT },
+  brightness: { min: -50, max: 50 },
+  contrast: { min: -50, max: 50 },
+  saturation: { min: -50, max: 50 },
+  claheTileGrid: { min: 2, max: 16 },
+  claheClipLimit: { min: 1, max: 10 }
+};
+
+// The one mapping from the enhancement sliders to filter parameters, used
+// by the preview and the final render alike
+const SETTINGS_PARAMS: { [K in StageKind]: (settings: ProcessingSettings) => StageParams[K] } = {
+  whiteBalance: (settings) => ({ temperature: settings.temperature, tint: settings.tint }),
+  denoise: (settings) => ({
+    spatialSigma: 3 + (settings.denoising / 100) * 4,
+    intensitySigma: 20 + (settings.denoising / 100) * 50,
+    backend: settings.denoiseBackend
+  }),
+  ai: (settings) => ({
+    smoothingSigma: 3,
+    detailRadius: 2,
+    claheTileGrid: settings.claheTileGrid,
+    claheClipLimit: settings.claheClipLimit,
+    backend: settings.denoiseBackend,
+    model: settings.denoiseModel
+  }),
+  tone: (settings) => ({ brightness: settings.brightness, contrast: settings.contrast }),
+  curves: (settings) => settings.curves,
+  saturation: (settings) => ({ saturation: settings.saturation }),
+  sharpen: (settings) => ({
+    amount: 1 + (settings.sharpening / 100) * 3,
+    radius: 1.2 + (settings.sharpening / 100) * 2,
+    threshold: 2
+  })
+};
+
+// Parameters measured in pixels. Everything else (strengths, thresholds,
+// the CLAHE grid, which is relative to the image) is resolution independent.
+const SPATIAL_PARAMS: { [K in StageKind]: (keyof StageParams[K])[] } = {
+  whiteBalance: [],
+  denoise: ['spatialSigma'],
+  ai: ['smoothingSigma', 'detailRadius'],
+  tone: [],
+  curves: [],
+  saturation: [],
+  sharpen: ['radius']
+};
+
+// The slider each numeric parameter follows; null for parameters the
+// sliders never change
+const PARAM_SLIDERS: { [K in StageKind]: Partial<Record<keyof StageParams[K], SliderKey | null>> } = {
+  whiteBalance: { temperature: 'temperature', tint: 'tint' },
+  denoise: { spatialSigma: 'denoising', intensitySigma: 'denoising' },
+  ai: { smoothingSigma: null, detailRadius: null, claheTileGrid: 'claheTileGrid', claheClipLimit: 'claheClipLimit' },
+  tone: { brightness: 'brightness', contrast: 'contrast' },
+  curves: {},
+  saturation: { saturation: 'saturation' },
+  sharpen: { amount: 'sharpening', radius: 'sharpening', threshold: null }
+};
+
+// Values a numeric parameter can take at output resolution: whatever its
+// slider maps to over the slider's range, or its fixed value. Null for
+// parameters that aren't numbers.
+export function stageParamRange(kind: StageKind, key: string): { min: number; max: number } | null {
+  const slider = (PARAM_SLIDERS[kind] as Record<string, SliderKey | null | undefined>)[key];
+  if (slider === undefined) return null;
+
+  // A numeric parameter only reads its own slider
+  const valueAt = (value?: number) => {
+    const settings = (slider === null ? {} : { [slider]: value }) as unknown as ProcessingSettings;
+    return (SETTINGS_PARAMS[kind](settings) as unknown as Record<string, number>)[key];
+  };
+  if (slider === null) {
+    const value = valueAt();
+    return { min: value, max: value };
+  }
+
+  const low = valueAt(SLIDER_RANGES[slider].min);
+  const high = valueAt(SLIDER_RANGES[slider].max);
+  return { min: Math.min(low, high), max: Math.max(low, high) };
+}
+
+export const mapStageParams = <K extends StageKind>(kind: K, settings: ProcessingSettings): StageParams[K] =>
+  SETTINGS_PARAMS[kind](settings);
+
+// Shrink kernel sizes for an image `scale` times the size of the final
+// output, so a filter covers the same part of the picture in the preview
+export function scaleStageParams<K extends StageKind>(kind: K, params: StageParams[K], scale: number): StageParams[K] {
+  if (scale === 1) return params;
+
+  const scaled = { ...params };
+  for (const key of SPATIAL_PARAMS[kind]) {
+    scaled[key] = ((params[key] as number) * scale) as StageParams[K][keyof StageParams[K]];
+  }
+  return scaled;
+}
@@ -0,0 +1,161 @@
+import { ImageProcessor, ProcessingSettings } from './imageProcessor';
+import type { ProcessingClient } from './processingClient';
+import type { EncodeOptions } from './exportFormats';
+import { PixelTile, createTile } from './tiling';
+import { decodeLevel, encodeLevel } from './colorSpace';
+
+export interface ParityReport {
+  width: number;
+  height: number;
+  // Per-channel RGB differences on the 0-255 scale
+  meanError: number;
+  maxError: number;
+  psnr: number;
+  passed: boolean;
+}
+
+// Largest mean difference between the preview and the downscaled final
+// render that still counts as a match. Small kernels can't be reproduced
+// exactly at preview size, so the two never agree bit for bit.
+export const PARITY_MEAN_TOLERANCE = 4;
+
+// Both renders are compared losslessly
+const LOSSLESS: EncodeOptions = { type: 'image/png', quality: 1 };
+
+// Compare the RGB channels of two RGBA images of `width` × `height`.
+// Values are rounded to 8-bit levels first, as an encoded render would be.
+export function measureParity(expected: ArrayLike<number>, actual: ArrayLike<number>, width: number, height: number): ParityReport {
+  const level = (value: number) => Math.round(Math.min(255, Math.max(0, value)));
+
+  let sum = 0;
+  let squaredSum = 0;
+  let maxError = 0;
+  for (let i = 0; i < width * height * 4; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const error = Math.abs(level(expected[i + c]) - level(actual[i + c]));
+      sum += error;
+      squaredSum += error * error;
+      maxError = Math.max(maxError, error);
+    }
+  }
+
+  const samples = width * height * 3;
+  const meanError = sum / samples;
+  const mse = squaredSum / samples;
+  const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+
+  return { width, height, meanError, maxError, psnr, passed: meanError <= PARITY_MEAN_TOLERANCE };
+}
+
+const readPixels = async (blob: Blob, width: number, height: number): Promise<Uint8ClampedArray> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Render `file` through both entry points, shrink the final render to the
+// preview size and measure how far apart they are
+export async function checkPreviewParity(
+  client: ProcessingClient,
+  file: File,
+  settings: ProcessingSettings,
+  signal?: AbortSignal
+): Promise<ParityReport> {
+  const preview = await client.processImageRealtime(file, settings, signal, LOSSLESS);
+  const final = await client.processImage(file, settings, { encoding: LOSSLESS, signal });
+
+  const previewBitmap = await createImageBitmap(preview);
+  const { width, height } = previewBitmap;
+  previewBitmap.close();
+
+  const [expected, actual] = await Promise.all([
+    readPixels(final, width, height),
+    readPixels(preview, width, height)
+  ]);
+  return measureParity(expected, actual, width, height);
+}
+
+// Test image with smooth gradients, hard edges, fine texture and noise, so
+// every kind of filter has something to work on. Deterministic.
+export function syntheticImage(width: number, height: number): PixelTile {
+  const tile = createTile(width, height);
+  let seed = 12345;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return (seed / 0x100000000 - 0.5) * 12;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const block = (Math.floor(x / 48) + Math.floor(y / 48)) % 2 === 0 ? 40 : -40;
+      const texture = 20 * Math.sin(x * 0.35) * Math.sin(y * 0.27);
+      tile.data[i] = 40 + (x / width) * 170 + block + texture + noise();
+      tile.data[i + 1] = 60 + (y / height) * 140 - block / 2 + texture + noise();
+      tile.data[i + 2] = 200 - (x / width) * 120 + (y / height) * 40 + noise();
+      tile.data[i + 3] = 255;
+    }
+    for (let c = 0; c < 3; c++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4 + c;
+        tile.data[i] = Math.min(255, Math.max(0, tile.data[i]));
+      }
+    }
+  }
+  return tile;
+}
+
+// Shrink by a whole `factor`, averaging each block of pixels
+export function shrinkTile(tile: PixelTile, factor: number): PixelTile {
+  const width = Math.floor(tile.width / factor);
+  const height = Math.floor(tile.height / factor);
+  const output = createTile(width, height);
+  const area = factor * factor;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          const i = ((y * factor + dy) * tile.width + x * factor + dx) * 4;
+          for (let c = 0; c < 4; c++) output.data[o + c] += tile.data[i + c] / area;
+        }
+      }
+    }
+  }
+  return output;
+}
+
+// Copy of `tile` with `convert` applied to the RGB levels
+const mapLevels = (tile: PixelTile, convert: (level: number) => number): PixelTile =>
+  createTile(tile.width, tile.height, tile.data.map((level, i) => i % 4 === 3 ? level : convert(level)));
+
+// Parity of the two renders without a browser: the final render runs on
+// `image` in tiles of `tileSize`, then shrinks by `factor`; the preview
+// shrinks first and runs with kernels scaled to match, as
+// `processImageRealtime` does. `image` holds display levels, which are
+// what gets shrunk and compared, as in the browser.
+export async function checkPipelineParity(
+  image: PixelTile,
+  settings: ProcessingSettings,
+  factor: number,
+  tileSize: number
+): Promise<ParityReport> {
+  const linear = settings.workingSpace === 'linear';
+  const toWorking = (tile: PixelTile) => linear ? mapLevels(tile, decodeLevel) : tile;
+  const toDisplay = (tile: PixelTile) => linear ? mapLevels(tile, encodeLevel) : tile;
+
+  const final = shrinkTile(toDisplay(await ImageProcessor.processTile(toWorking(image), settings, { tileSize })), factor);
+  const preview = toDisplay(await ImageProcessor.processTile(toWorking(shrinkTile(image, factor)), settings, { scale: 1 / factor }));
+  return measureParity(final.data, preview.data, preview.width, preview.height);
+}
@@ -0,0 +1,254 @@
+import type { DenoiseBackend, ProcessingSettings, UpscaleAlgorithm } from './imageProcessor';
+import { StageKind, StageParams, mapStageParams, scaleStageParams, stageParamRange } from './parameterMapping';
+import { hasCurveAdjustments, isValidCurve } from './curves';
+import { isNeutralWhiteBalance } from './whiteBalance';
+import { COLOR_SPACES, WORKING_SPACES, WorkingSpace } from './colorSpace';
+import { DEFAULT_GEOMETRY, Geometry, parseGeometry } from './geometry';
+import { MaskLayer, parseMasks } from './masks';
+import { DEMOSAIC_ALGORITHMS, DemosaicAlgorithm } from './raster';
+
+export type { StageKind, StageParams } from './parameterMapping';
+
+// One step of the pipeline. Parameters not set in `params` follow the
+// enhancement sliders; set ones are pinned.
+export type PipelineStage = {
+  [K in StageKind]: {
+    id: string;
+    kind: K;
+    enabled: boolean;
+    params?: Partial<StageParams[K]>;
+  }
+}[StageKind];
+
+export type PipelineStageOf<K extends StageKind> = Extract<PipelineStage, { kind: K }>;
+
+// A pipeline saved to disk. All parameters are pinned, so loading it
+// reproduces the same output whatever the sliders are set to.
+export interface PipelineFile {
+  version: 1;
+  stages: PipelineStage[];
+  upscaleFactor: number;
+  upscaleAlgorithm: UpscaleAlgorithm;
+  // ONNX upscaler used by the 'model' algorithm
+  upscaleModel: string;
+  workingSpace: WorkingSpace;
+  // Crop, rotation and flips, applied before the first stage
+  geometry: Geometry;
+  colorSpace: PredefinedColorSpace;
+  // Local adjustments, each with its own settings
+  masks: MaskLayer[];
+  // How raw files are demosaiced
+  demosaic: DemosaicAlgorithm;
+}
+
+export const PIPELINE_FILE_VERSION = 1;
+
+export const STAGE_LABELS: Record<StageKind, string> = {
+  whiteBalance: 'White Balance',
+  denoise: 'Denoise',
+  ai: 'AI Enhancement',
+  tone: 'Tone',
+  curves: 'Curves',
+  saturation: 'Saturation',
+  sharpen: 'Sharpen'
+};
+
+const STAGE_KINDS = Object.keys(STAGE_LABELS) as StageKind[];
+
+export const DENOISE_BACKENDS: DenoiseBackend[] = ['bilateral', 'guided'];
+export const UPSCALE_ALGORITHMS: UpscaleAlgorithm[] = ['nearest', 'bilinear', 'bicubic', 'lanczos3', 'edge-directed', 'model'];
+
+// Parameter names of each stage kind, used to validate loaded files
+const PARAM_KEYS: { [K in StageKind]: (keyof StageParams[K])[] } = {
+  whiteBalance: ['temperature', 'tint'],
+  denoise: ['spatialSigma', 'intensitySigma', 'backend'],
+  ai: ['smoothingSigma', 'detailRadius', 'claheTileGrid', 'claheClipLimit', 'backend', 'model'],
+  tone: ['brightness', 'contrast'],
+  curves: ['master', 'red', 'green', 'blue'],
+  saturation: ['saturation'],
+  sharpen: ['amount', 'radius', 'threshold']
+};
+
+export const createStageId = (kind: StageKind): string =>
+  `${kind}-${Math.random().toString(36).slice(2, 10)}`;
+
+const createStage = (kind: StageKind): PipelineStage =>
+  ({ id: createStageId(kind), kind, enabled: true }) as PipelineStage;
+
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+  { id: 'whiteBalance', kind: 'whiteBalance', enabled: true },
+  { id: 'denoise', kind: 'denoise', enabled: true },
+  { id: 'ai', kind: 'ai', enabled: true },
+  { id: 'tone', kind: 'tone', enabled: true },
+  { id: 'curves', kind: 'curves', enabled: true },
+  { id: 'saturation', kind: 'saturation', enabled: true },
+  { id: 'sharpen', kind: 'sharpen', enabled: true }
+];
+
+// Whether the sliders switch a stage kind on at all
+const SETTINGS_ACTIVE: Record<StageKind, (settings: ProcessingSettings) => boolean> = {
+  whiteBalance: (settings) => !isNeutralWhiteBalance(settings),
+  denoise: (settings) => settings.denoising > 0,
+  ai: (settings) => settings.useAI,
+  tone: (settings) => settings.brightness !== 0 || settings.contrast !== 0,
+  curves: (settings) => hasCurveAdjustments(settings.curves),
+  saturation: (settings) => settings.saturation !== 0,
+  sharpen: (settings) => settings.sharpening > 0
+};
+
+export const isPinned = (stage: PipelineStage): boolean =>
+  stage.params !== undefined && Object.keys(stage.params).length > 0;
+
+export const isStageActive = (stage: PipelineStage, settings: ProcessingSettings): boolean =>
+  stage.enabled && (isPinned(stage) || SETTINGS_ACTIVE[stage.kind](settings));
+
+// Parameters a stage runs with on an image `scale` times the size of the
+// final output. Pinned values are stored at output resolution as well.
+export function resolveStageParams<K extends StageKind>(
+  stage: PipelineStageOf<K>,
+  settings: ProcessingSettings,
+  scale: number = 1
+): StageParams[K] {
+  const kind: K = stage.kind;
+  return scaleStageParams(kind, { ...mapStageParams(kind, settings), ...stage.params }, scale);
+}
+
+// Editing helpers; all return a new list
+
+export const moveStage = (stages: PipelineStage[], index: number, offset: number): PipelineStage[] => {
+  const target = index + offset;
+  if (target < 0 || target >= stages.length) return stages;
+
+  const next = [...stages];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const duplicateStage = (stages: PipelineStage[], index: number): PipelineStage[] => {
+  const copy = { ...stages[index], id: createStageId(stages[index].kind) } as PipelineStage;
+  return [...stages.slice(0, index + 1), copy, ...stages.slice(index + 1)];
+};
+
+export const updateStage = (stages: PipelineStage[], index: number, changes: Partial<PipelineStage>): PipelineStage[] =>
+  stages.map((stage, i) => i === index ? { ...stage, ...changes } as PipelineStage : stage);
+
+export const removeStage = (stages: PipelineStage[], index: number): PipelineStage[] =>
+  stages.filter((_, i) => i !== index);
+
+export const addStage = (stages: PipelineStage[], kind: StageKind): PipelineStage[] =>
+  [...stages, createStage(kind)];
+
+// Pin every stage to the parameters it currently runs with. Stages the
+// sliders switch off are saved disabled.
+export const serializePipeline = (settings: ProcessingSettings): PipelineFile => ({
+  version: PIPELINE_FILE_VERSION,
+  stages: settings.pipeline.map(stage => ({
+    ...stage,
+    enabled: isStageActive(stage, settings),
+    params: resolveStageParams(stage as PipelineStageOf<typeof stage.kind>, settings)
+  }) as PipelineStage),
+  upscaleFactor: settings.upscaleFactor,
+  upscaleAlgorithm: settings.upscaleAlgorithm,
+  upscaleModel: settings.upscaleModel,
+  workingSpace: settings.workingSpace,
+  geometry: settings.geometry,
+  colorSpace: settings.colorSpace,
+  masks: settings.masks,
+  demosaic: settings.demosaic
+});
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Pinned numbers have to be ones the sliders could have produced
+const isParamInRange = (kind: StageKind, key: string, value: number): boolean => {
+  const range = stageParamRange(kind, key);
+  return range !== null && value >= range.min && value <= range.max;
+};
+
+// Validate a list of stages read from a file
+export function parseStages(stages: unknown): PipelineStage[] {
+  if (!Array.isArray(stages)) throw new Error('Pipeline stages must be a list');
+
+  return stages.map((stage): PipelineStage => {
+    if (!isRecord(stage) || !STAGE_KINDS.includes(stage.kind as StageKind) || typeof stage.enabled !== 'boolean') {
+      throw new Error('Pipeline contains an invalid stage');
+    }
+
+    const kind = stage.kind as StageKind;
+    const params = isRecord(stage.params) ? stage.params : undefined;
+    for (const [key, value] of Object.entries(params ?? {})) {
+      const valid = kind === 'curves'
+        ? isValidCurve(value)
+        : key === 'backend'
+          ? DENOISE_BACKENDS.includes(value as DenoiseBackend)
+          : key === 'model'
+            ? typeof value === 'string'
+            : typeof value === 'number' && isParamInRange(kind, key, value);
+      if (!(PARAM_KEYS[kind] as string[]).includes(key) || !valid) {
+        throw new Error(`Invalid parameter "${key}" in ${STAGE_LABELS[kind]} stage`);
+      }
+    }
+
+    return {
+      id: typeof stage.id === 'string' ? stage.id : createStageId(kind),
+      kind,
+      enabled: stage.enabled,
+      params
+    } as PipelineStage;
+  });
+}
+
+// Read a saved pipeline, rejecting anything that doesn't match the format.
+// Mask settings are checked by `parseMaskSettings`.
+export function parsePipeline(json: string, parseMaskSettings: (settings: unknown) => ProcessingSettings): PipelineFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Pipeline file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.version !== PIPELINE_FILE_VERSION || !Array.isArray(data.stages)) {
+    throw new Error('Unsupported pipeline file');
+  }
+
+  const stages = parseStages(data.stages);
+  const upscaleFactor = typeof data.upscaleFactor === 'number' ? Math.min(4, Math.max(1, data.upscaleFactor)) : 1;
+  const upscaleAlgorithm = UPSCALE_ALGORITHMS.includes(data.upscaleAlgorithm as UpscaleAlgorithm)
+    ? data.upscaleAlgorithm as UpscaleAlgorithm
+    : 'bicubic';
+  // Files saved before the working space was selectable ran in sRGB
+  const workingSpace = WORKING_SPACES.includes(data.workingSpace as WorkingSpace)
+    ? data.workingSpace as WorkingSpace
+    : 'srgb';
+  // and were never cropped or rotated
+  const geometry = data.geometry === undefined ? DEFAULT_GEOMETRY : parseGeometry(data.geometry);
+  // Older files wrote sRGB without masks
+  const colorSpace = COLOR_SPACES.includes(data.colorSpace as PredefinedColorSpace)
+    ? data.colorSpace as PredefinedColorSpace
+    : 'srgb';
+  const masks = data.masks === undefined ? [] : parseMasks(data.masks, parseMaskSettings);
+  // and predate model upscaling and raw import
+  if (data.upscaleModel !== undefined && typeof data.upscaleModel !== 'string') {
+    throw new Error('Invalid upscale model in pipeline file');
+  }
+  const upscaleModel = data.upscaleModel ?? '';
+  if (data.demosaic !== undefined && !DEMOSAIC_ALGORITHMS.includes(data.demosaic as DemosaicAlgorithm)) {
+    throw new Error('Invalid demosaicing algorithm in pipeline file');
+  }
+  const demosaic = (data.demosaic ?? 'ahd') as DemosaicAlgorithm;
+
+  return {
+    version: PIPELINE_FILE_VERSION,
+    stages,
+    upscaleFactor,
+    upscaleAlgorithm,
+    upscaleModel,
+    workingSpace,
+    geometry,
+    colorSpace,
+    masks,
+    demosaic
+  };
+}
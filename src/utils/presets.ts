@@ -0,0 +1,278 @@
+import type { ProcessingSettings } from './imageProcessor';
+import { DEFAULT_PIPELINE, DENOISE_BACKENDS, UPSCALE_ALGORITHMS, isRecord, parseStages } from './pipeline';
+import { DEFAULT_CURVES, validateCurves } from './curves';
+import { COLOR_SPACES, WORKING_SPACES } from './colorSpace';
+import { DEMOSAIC_ALGORITHMS } from './raster';
+import { parseMasks } from './masks';
+import { DEFAULT_GEOMETRY, parseGeometry } from './geometry';
+import { NEUTRAL_TEMPERATURE } from './whiteBalance';
+import { SLIDER_RANGES } from './parameterMapping';
+
+export interface Preset {
+  id: string;
+  name: string;
+  description: string;
+  // Settings the preset overrides; everything else is left as it is
+  settings: Partial<ProcessingSettings>;
+  builtIn: boolean;
+}
+
+// Presets as written to disk and to local storage
+export interface PresetFile {
+  version: 1;
+  presets: {
+    // Kept so stored presets stay the same across reloads; ignored on import
+    id?: string;
+    name: string;
+    description: string;
+    settings: Partial<ProcessingSettings>;
+  }[];
+}
+
+export const PRESET_FILE_VERSION = 1;
+
+export const DEFAULT_SETTINGS: ProcessingSettings = {
+  sharpening: 40,
+  denoising: 30,
+  // The guided filter only approximates the bilateral output, so it is
+  // opt-in
+  denoiseBackend: 'bilateral',
+  temperature: NEUTRAL_TEMPERATURE,
+  tint: 0,
+  brightness: 5,
+  contrast: 15,
+  saturation: 10,
+  curves: DEFAULT_CURVES,
+  useAI: true,
+  claheTileGrid: 8,
+  claheClipLimit: 3,
+  upscaleFactor: 1,
+  upscaleAlgorithm: 'bicubic',
+  denoiseModel: '',
+  upscaleModel: '',
+  pipeline: DEFAULT_PIPELINE,
+  workingSpace: 'srgb',
+  colorSpace: 'srgb',
+  demosaic: 'ahd',
+  geometry: DEFAULT_GEOMETRY,
+  masks: []
+};
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: 'professional',
+    name: 'Professional',
+    description: 'Maximum quality',
+    builtIn: true,
+    settings: { sharpening: 60, denoising: 45, brightness: 0, contrast: 25, saturation: 8, useAI: true }
+  },
+  {
+    id: 'portrait',
+    name: 'Portrait',
+    description: 'Skin-friendly',
+    builtIn: true,
+    settings: { sharpening: 35, denoising: 40, brightness: 8, contrast: 12, saturation: 15, useAI: true }
+  },
+  {
+    id: 'landscape',
+    name: 'Landscape',
+    description: 'Nature scenes',
+    builtIn: true,
+    settings: { sharpening: 50, denoising: 25, brightness: 3, contrast: 20, saturation: 12, useAI: true }
+  },
+  {
+    id: 'vintage',
+    name: 'Vintage',
+    description: 'Classic look',
+    builtIn: true,
+    settings: { sharpening: 25, denoising: 35, brightness: -5, contrast: 25, saturation: -10, useAI: false }
+  }
+];
+
+const STORAGE_KEY = 'image-enhancer.presets';
+
+// Accepted values of each setting, matching the range of its control
+type SettingRule =
+  | { type: 'number'; min: number; max: number }
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'enum'; values: readonly (string | number)[] }
+  | { type: 'curves' }
+  | { type: 'pipeline' }
+  | { type: 'geometry' }
+  | { type: 'masks' };
+
+const SETTING_RULES: Record<keyof ProcessingSettings, SettingRule> = {
+  sharpening: { type: 'number', ...SLIDER_RANGES.sharpening },
+  denoising: { type: 'number', ...SLIDER_RANGES.denoising },
+  denoiseBackend: { type: 'enum', values: DENOISE_BACKENDS },
+  temperature: { type: 'number', ...SLIDER_RANGES.temperature },
+  tint: { type: 'number', ...SLIDER_RANGES.tint },
+  brightness: { type: 'number', ...SLIDER_RANGES.brightness },
+  contrast: { type: 'number', ...SLIDER_RANGES.contrast },
+  saturation: { type: 'number', ...SLIDER_RANGES.saturation },
+  curves: { type: 'curves' },
+  useAI: { type: 'boolean' },
+  claheTileGrid: { type: 'number', ...SLIDER_RANGES.claheTileGrid },
+  claheClipLimit: { type: 'number', ...SLIDER_RANGES.claheClipLimit },
+  upscaleFactor: { type: 'enum', values: [1, 2, 3, 4] },
+  upscaleAlgorithm: { type: 'enum', values: UPSCALE_ALGORITHMS },
+  denoiseModel: { type: 'string' },
+  upscaleModel: { type: 'string' },
+  pipeline: { type: 'pipeline' },
+  workingSpace: { type: 'enum', values: WORKING_SPACES },
+  colorSpace: { type: 'enum', values: COLOR_SPACES },
+  demosaic: { type: 'enum', values: DEMOSAIC_ALGORITHMS },
+  geometry: { type: 'geometry' },
+  masks: { type: 'masks' }
+};
+
+export const createPresetId = (): string =>
+  `preset-${Math.random().toString(36).slice(2, 10)}`;
+
+// Fill in settings added since `settings` was stored
+export const withDefaultSettings = (settings: Partial<ProcessingSettings>): ProcessingSettings =>
+  ({ ...DEFAULT_SETTINGS, ...settings });
+
+export const applyPreset = (settings: ProcessingSettings, preset: Preset): ProcessingSettings =>
+  ({ ...settings, ...preset.settings });
+
+// Check preset settings field by field, rejecting unknown keys and values
+// outside the range the controls allow
+export function validatePresetSettings(value: unknown, presetName: string): Partial<ProcessingSettings> {
+  if (!isRecord(value)) throw new Error(`Preset "${presetName}" has no settings`);
+
+  const settings: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const rule = SETTING_RULES[key as keyof ProcessingSettings];
+    if (!rule) throw new Error(`Preset "${presetName}" has an unknown setting "${key}"`);
+
+    let valid: boolean;
+    switch (rule.type) {
+      case 'number':
+        valid = typeof field === 'number' && Number.isFinite(field) && field >= rule.min && field <= rule.max;
+        break;
+      case 'boolean':
+        valid = typeof field === 'boolean';
+        break;
+      case 'string':
+        valid = typeof field === 'string';
+        break;
+      case 'enum':
+        valid = rule.values.includes(field as string | number);
+        break;
+      case 'curves':
+        settings[key] = validateCurves(field);
+        continue;
+      case 'pipeline':
+        settings[key] = parseStages(field);
+        continue;
+      case 'geometry':
+        settings[key] = parseGeometry(field);
+        continue;
+      case 'masks':
+        settings[key] = parseMasks(field, (maskSettings) => withDefaultSettings(validatePresetSettings(maskSettings, presetName)));
+        continue;
+    }
+
+    if (!valid) throw new Error(`Preset "${presetName}" has an invalid value for "${key}"`);
+    settings[key] = field;
+  }
+  return settings as Partial<ProcessingSettings>;
+}
+
+export const serializePresets = (presets: Preset[]): PresetFile => ({
+  version: PRESET_FILE_VERSION,
+  presets: presets.map(({ id, name, description, settings }) => ({ id, name, description, settings }))
+});
+
+// Entries of a preset file, before they are validated
+function readPresetEntries(json: string): unknown[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.version !== PRESET_FILE_VERSION || !Array.isArray(data.presets)) {
+    throw new Error('Unsupported preset file');
+  }
+  return data.presets;
+}
+
+function parsePreset(preset: unknown, id: string): Preset {
+  if (!isRecord(preset) || typeof preset.name !== 'string' || preset.name.trim() === '') {
+    throw new Error('Preset file contains a preset without a name');
+  }
+
+  const name = preset.name.trim();
+  return {
+    id,
+    name,
+    description: typeof preset.description === 'string' ? preset.description : '',
+    settings: validatePresetSettings(preset.settings, name),
+    builtIn: false
+  };
+}
+
+// Read a preset file. Every preset is validated; one bad entry rejects the file.
+// Imported presets get new ids so they can't clash with existing ones.
+export function parsePresets(json: string): Preset[] {
+  return readPresetEntries(json).map(preset => parsePreset(preset, createPresetId()));
+}
+
+const storedEntries = (): unknown[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored ? readPresetEntries(stored) : [];
+};
+
+const storedId = (preset: unknown): string =>
+  isRecord(preset) && typeof preset.id === 'string' ? preset.id : createPresetId();
+
+// Stored presets are checked one by one, so a preset that no longer passes
+// validation doesn't take the others with it
+export function loadUserPresets(): Preset[] {
+  let entries: unknown[];
+  try {
+    entries = storedEntries();
+  } catch (error) {
+    console.warn('Ignoring stored presets:', error);
+    return [];
+  }
+
+  const presets: Preset[] = [];
+  for (const entry of entries) {
+    try {
+      presets.push(parsePreset(entry, storedId(entry)));
+    } catch (error) {
+      console.warn('Skipping stored preset:', error);
+    }
+  }
+  return presets;
+}
+
+// Stored entries that fail validation are written back as they were, so
+// saving doesn't lose them
+export function saveUserPresets(presets: Preset[]): void {
+  try {
+    let unreadable: unknown[] = [];
+    try {
+      unreadable = storedEntries().filter(entry => {
+        try {
+          parsePreset(entry, storedId(entry));
+          return false;
+        } catch {
+          return true;
+        }
+      });
+    } catch {
+      // Nothing readable to keep
+    }
+
+    const file = serializePresets(presets);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...file, presets: [...file.presets, ...unreadable] }));
+  } catch (error) {
+    console.error('Failed to store presets:', error);
+  }
+}
@@ -0,0 +1,218 @@
+import type { ProcessingSettings } from './imageProcessor';
+import type { EncodeOptions } from './exportFormats';
+import type { Rect } from './tiling';
+import type { DecodedPreview } from './imageDecoder';
+import { isTiff } from './raster';
+import type { SourceFile, WorkerRequest, WorkerResponse } from '../workers/messages';
+
+// True for the rejection of a job whose AbortSignal fired
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export interface ProcessOptions {
+  encoding: EncodeOptions;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+  // How the source is decoded, e.g. without color conversion when its ICC
+  // profile is carried over to the export
+  decode?: ImageBitmapOptions;
+}
+
+// What a job settles with: a render or a decoded upload
+type JobResult = Blob | DecodedPreview;
+
+interface PendingJob {
+  resolve: (result: JobResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+// Main-thread handle to the processing worker. The worker is spawned lazily
+// on the first job so a terminated client can be reused.
+export class ProcessingClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending = new Map<number, PendingJob>();
+  // Keys the worker knows each posted file by
+  private fileKeys = new WeakMap<Blob, number>();
+  private nextFileKey = 1;
+  // Cancels the region render in flight
+  private regionJob: AbortController | null = null;
+
+  processImage(file: File, settings: ProcessingSettings, options: ProcessOptions): Promise<Blob> {
+    const { encoding, onProgress, signal, decode } = options;
+    return this.run<Blob>(file, (id, source) => ({ type: 'process', id, source, settings, encoding, decode }), onProgress, signal);
+  }
+
+  processImageRealtime(
+    file: File,
+    settings: ProcessingSettings,
+    signal?: AbortSignal,
+    encoding?: EncodeOptions
+  ): Promise<Blob> {
+    return this.run<Blob>(file, (id, source) => ({ type: 'realtime', id, source, settings, encoding }), undefined, signal);
+  }
+
+  // Part of the full-resolution render; `region` is in output pixels. Only
+  // the latest region is wanted, so a new one cancels the one before.
+  async processRegion(
+    file: File,
+    settings: ProcessingSettings,
+    region: Rect,
+    encoding: EncodeOptions,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    this.regionJob?.abort();
+    const job = new AbortController();
+    this.regionJob = job;
+
+    try {
+      return await this.run<Blob>(
+        file,
+        (id, source) => ({ type: 'region', id, source, settings, region, encoding }),
+        undefined,
+        signal ? AbortSignal.any([signal, job.signal]) : job.signal
+      );
+    } finally {
+      if (this.regionJob === job) this.regionJob = null;
+    }
+  }
+
+  // Upright size of `file` and a bitmap of it, scaled down to fit
+  // `maxSize` if given. The worker decodes it and keeps the raster of
+  // 16-bit and raw files for the jobs that follow.
+  decodePreview(file: Blob, maxSize?: number, signal?: AbortSignal): Promise<DecodedPreview> {
+    return this.run<DecodedPreview>(file, (id, source) => ({ type: 'decode', id, source, maxSize }), undefined, signal);
+  }
+
+  // Dimensions are reported upright, after EXIF orientation is applied
+  async getImageInfo(file: File): Promise<{
+    width: number;
+    height: number;
+    size: number;
+    type: string;
+    orientation: number;
+  }> {
+    // Only the size is needed, so the bitmap is as small as it gets
+    const { bitmap, width, height, orientation } = await this.decodePreview(file, 1);
+    bitmap.close();
+    return { width, height, size: file.size, type: file.type, orientation };
+  }
+
+  // Something an <img> can show. TIFFs and raws are redrawn as PNG;
+  // everything else is returned as it is.
+  async toDisplayableImage(file: Blob): Promise<Blob> {
+    if (!isTiff(new Uint8Array(await file.slice(0, 16).arrayBuffer()))) return file;
+
+    const { bitmap } = await this.decodePreview(file);
+    try {
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+      return await canvas.convertToBlob({ type: 'image/png' });
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectAll(new Error('Processing worker terminated'));
+  }
+
+  // The file goes to the worker as it is; decoding, raw development
+  // included, happens there
+  private async run<T extends JobResult>(
+    file: Blob,
+    createRequest: (id: number, source: SourceFile) => WorkerRequest,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    signal?.throwIfAborted();
+
+    const id = this.nextId++;
+    const request = createRequest(id, this.sourceFile(file));
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        this.worker?.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+        reject(signal?.reason);
+      };
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.getWorker().postMessage(request);
+    });
+  }
+
+  private sourceFile(file: Blob): SourceFile {
+    let key = this.fileKeys.get(file);
+    if (key === undefined) {
+      key = this.nextFileKey++;
+      this.fileKeys.set(file, key);
+    }
+    return { key, file };
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(
+      new URL('../workers/imageProcessor.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.terminate();
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    const job = this.pending.get(message.id);
+    if (!job) {
+      // Nobody else will close the bitmap of a cancelled decode
+      if (message.type === 'decoded') message.image.bitmap.close();
+      return;
+    }
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        job.resolve(message.blob);
+        break;
+      case 'decoded':
+        this.pending.delete(message.id);
+        job.resolve(message.image);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private rejectAll(error: Error) {
+    for (const job of this.pending.values()) {
+      job.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,258 @@
+// Demosaicing of color filter array data into RGB. Bilinear works with any
+// repeating pattern; the AHD-style interpolation needs a 2×2 Bayer one.
+
+export type DemosaicAlgorithm = 'bilinear' | 'ahd';
+
+export const DEMOSAIC_ALGORITHMS: DemosaicAlgorithm[] = ['bilinear', 'ahd'];
+
+// Mosaic of one value per pixel, 0-1, and the filter color (0 red, 1 green,
+// 2 blue) of each position in the repeating pattern
+export interface Mosaic {
+  width: number;
+  height: number;
+  data: Float32Array;
+  pattern: number[];
+  patternWidth: number;
+  patternHeight: number;
+}
+
+const colorAt = (mosaic: Mosaic, x: number, y: number) =>
+  mosaic.pattern[(y % mosaic.patternHeight) * mosaic.patternWidth + (x % mosaic.patternWidth)];
+
+export const isBayer = (mosaic: Mosaic): boolean =>
+  mosaic.patternWidth === 2 && mosaic.patternHeight === 2 &&
+  [...mosaic.pattern].sort().join() === '0,1,1,2' &&
+  mosaic.pattern[0] !== mosaic.pattern[3];
+
+export const demosaic = (mosaic: Mosaic, algorithm: DemosaicAlgorithm): Float32Array =>
+  algorithm === 'ahd' && isBayer(mosaic) ? demosaicAhd(mosaic) : demosaicBilinear(mosaic);
+
+// Each missing color is the mean of the nearest pixels of that color: the
+// 3×3 neighbourhood, or 5×5 for sparse patterns
+export function demosaicBilinear(mosaic: Mosaic): Float32Array {
+  const { width, height, data, patternWidth, patternHeight } = mosaic;
+  const output = new Float32Array(width * height * 3);
+
+  // Neighbour offsets per pattern position and color
+  const offsets: [number, number][][][] = [];
+  for (let py = 0; py < patternHeight; py++) {
+    for (let px = 0; px < patternWidth; px++) {
+      const position: [number, number][][] = [];
+      for (let c = 0; c < 3; c++) {
+        let found: [number, number][] = [];
+        for (let reach = 1; reach <= 2 && found.length === 0; reach++) {
+          for (let dy = -reach; dy <= reach; dy++) {
+            for (let dx = -reach; dx <= reach; dx++) {
+              const cx = px + dx + patternWidth * 4;
+              const cy = py + dy + patternHeight * 4;
+              if (colorAt(mosaic, cx, cy) === c) found.push([dx, dy]);
+            }
+          }
+        }
+        if (found.some(([dx, dy]) => dx === 0 && dy === 0)) found = [[0, 0]];
+        position.push(found);
+      }
+      offsets.push(position);
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = offsets[(y % patternHeight) * patternWidth + (x % patternWidth)];
+      const o = (y * width + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        let count = 0;
+        for (const [dx, dy] of position[c]) {
+          const sx = x + dx;
+          const sy = y + dy;
+          if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+          sum += data[sy * width + sx];
+          count++;
+        }
+        output[o + c] = count ? sum / count : 0;
+      }
+    }
+  }
+  return output;
+}
+
+// Block size the AHD working buffers cover, and the border each block
+// reads beyond its own pixels
+const AHD_BLOCK = 256;
+const AHD_MARGIN = 6;
+
+const labF = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+// Adaptive homogeneity-directed interpolation (Hirakawa & Parks): green is
+// interpolated along rows and along columns, red and blue follow through
+// color differences, and each pixel takes the direction whose CIELab
+// neighbourhood is most uniform. Worked in blocks to bound memory.
+export function demosaicAhd(mosaic: Mosaic): Float32Array {
+  const { width, height, data } = mosaic;
+  const output = new Float32Array(width * height * 3);
+
+  // Coordinates mirrored at the edges, which keeps the pattern parity
+  const mirror = (value: number, size: number) =>
+    Math.min(size - 1, Math.max(0, value < 0 ? -value : value >= size ? 2 * (size - 1) - value : value));
+  const cfa = (x: number, y: number) => data[mirror(y, height) * width + mirror(x, width)];
+
+  const size = AHD_BLOCK + AHD_MARGIN * 2;
+  // Two candidate images (rows, columns) and their Lab values
+  const rgb = [new Float32Array(size * size * 3), new Float32Array(size * size * 3)];
+  const lab = [new Float32Array(size * size * 3), new Float32Array(size * size * 3)];
+  const homogeneity = [new Uint8Array(size * size), new Uint8Array(size * size)];
+
+  // Where red and blue are found around each pattern position, as offsets
+  // within a block
+  const sameRow = [-1, 1];
+  const sameColumn = [-size, size];
+  const diagonal = [-size - 1, -size + 1, size - 1, size + 1];
+  const chromaNeighbours = [0, 1, 2, 3].map(position => {
+    const x = position % 2;
+    const y = position >> 1;
+    const own = colorAt(mosaic, x, y);
+    return [0, 2].map(c => own === 1
+      ? colorAt(mosaic, x + 1, y) === c ? sameRow : sameColumn
+      : diagonal);
+  });
+
+  for (let by = 0; by < height; by += AHD_BLOCK) {
+    for (let bx = 0; bx < width; bx += AHD_BLOCK) {
+      const x0 = bx - AHD_MARGIN;
+      const y0 = by - AHD_MARGIN;
+      // Blocks clear of the edges skip the mirroring
+      const interior = x0 >= 2 && y0 >= 2 && x0 + size + 2 <= width && y0 + size + 2 <= height;
+
+      for (let d = 0; d < 2; d++) {
+        const image = rgb[d];
+        const [dx, dy] = d === 0 ? [1, 0] : [0, 1];
+        const step = dx + dy * width;
+
+        // Green along the direction, corrected by the curvature of the
+        // pixel's own channel and kept between its two green neighbours
+        for (let ly = 0; ly < size; ly++) {
+          for (let lx = 0; lx < size; lx++) {
+            const x = x0 + lx;
+            const y = y0 + ly;
+            const o = (ly * size + lx) * 3;
+            const i = y * width + x;
+            const c = colorAt(mosaic, mirror(x, width), mirror(y, height));
+            const value = interior ? data[i] : cfa(x, y);
+            image[o] = image[o + 1] = image[o + 2] = 0;
+            image[o + c] = value;
+            if (c === 1) continue;
+
+            const before = interior ? data[i - step] : cfa(x - dx, y - dy);
+            const after = interior ? data[i + step] : cfa(x + dx, y + dy);
+            const outer = interior
+              ? data[i - 2 * step] + data[i + 2 * step]
+              : cfa(x - 2 * dx, y - 2 * dy) + cfa(x + 2 * dx, y + 2 * dy);
+            const estimate = (before + after) / 2 + (2 * value - outer) / 4;
+            image[o + 1] = Math.min(Math.max(before, after), Math.max(Math.min(before, after), estimate));
+          }
+        }
+
+        // Red and blue from the color differences of their neighbours
+        for (let ly = 1; ly < size - 1; ly++) {
+          for (let lx = 1; lx < size - 1; lx++) {
+            const x = mirror(x0 + lx, width);
+            const y = mirror(y0 + ly, height);
+            const o = (ly * size + lx) * 3;
+            const own = colorAt(mosaic, x, y);
+            const green = image[o + 1];
+
+            for (let c = 0; c <= 2; c += 2) {
+              if (c === own) continue;
+              const neighbours = chromaNeighbours[(y % 2) * 2 + (x % 2)][c / 2];
+              const p = ly * size + lx;
+              let sum = 0;
+              for (let k = 0; k < neighbours.length; k++) {
+                const n = (p + neighbours[k]) * 3;
+                sum += image[n + c] - image[n + 1];
+              }
+              image[o + c] = Math.max(0, green + sum / neighbours.length);
+            }
+          }
+        }
+
+        // CIELab of each candidate, taking the camera RGB as sRGB
+        const labs = lab[d];
+        for (let i = 0, o = 0; i < size * size; i++, o += 3) {
+          const r = image[o];
+          const g = image[o + 1];
+          const b = image[o + 2];
+          const fx = labF((0.412453 * r + 0.357580 * g + 0.180423 * b) / 0.950456);
+          const fy = labF(0.212671 * r + 0.715160 * g + 0.072169 * b);
+          const fz = labF((0.019334 * r + 0.119193 * g + 0.950227 * b) / 1.088754);
+          labs[o] = 116 * fy - 16;
+          labs[o + 1] = 500 * (fx - fy);
+          labs[o + 2] = 200 * (fy - fz);
+        }
+      }
+
+      // Homogeneity: how many of the four neighbours are within the
+      // luminance and chroma distance the less jagged direction allows
+      const neighbours = [-3, 3, -size * 3, size * 3];
+      const luminanceStep = (labs: Float32Array, o: number, n: number) => Math.abs(labs[o] - labs[o + n]);
+      const chromaStep = (labs: Float32Array, o: number, n: number) => {
+        const a = labs[o + 1] - labs[o + n + 1];
+        const b = labs[o + 2] - labs[o + n + 2];
+        return a * a + b * b;
+      };
+      const [rowLab, columnLab] = lab;
+      for (let ly = 2; ly < size - 2; ly++) {
+        for (let lx = 2; lx < size - 2; lx++) {
+          const p = ly * size + lx;
+          const o = p * 3;
+
+          // Rows are judged by their horizontal steps, columns by vertical ones
+          const luminanceLimit = Math.min(
+            Math.max(luminanceStep(rowLab, o, -3), luminanceStep(rowLab, o, 3)),
+            Math.max(luminanceStep(columnLab, o, -size * 3), luminanceStep(columnLab, o, size * 3))
+          );
+          const chromaLimit = Math.min(
+            Math.max(chromaStep(rowLab, o, -3), chromaStep(rowLab, o, 3)),
+            Math.max(chromaStep(columnLab, o, -size * 3), chromaStep(columnLab, o, size * 3))
+          );
+
+          for (let d = 0; d < 2; d++) {
+            const labs = lab[d];
+            let count = 0;
+            for (let k = 0; k < 4; k++) {
+              if (luminanceStep(labs, o, neighbours[k]) <= luminanceLimit && chromaStep(labs, o, neighbours[k]) <= chromaLimit) count++;
+            }
+            homogeneity[d][p] = count;
+          }
+        }
+      }
+
+      // Pick per pixel, averaging where neither direction wins. Block
+      // pixels sit inside the margin, so their 3×3 never leaves the buffers.
+      for (let y = by; y < Math.min(height, by + AHD_BLOCK); y++) {
+        for (let x = bx; x < Math.min(width, bx + AHD_BLOCK); x++) {
+          const p = (y - y0) * size + x - x0;
+          let rows = 0;
+          let columns = 0;
+          for (let ny = -size; ny <= size; ny += size) {
+            for (let n = p + ny - 1; n <= p + ny + 1; n++) {
+              rows += homogeneity[0][n];
+              columns += homogeneity[1][n];
+            }
+          }
+
+          const o = (y * width + x) * 3;
+          for (let c = 0; c < 3; c++) {
+            output[o + c] = rows > columns
+              ? rgb[0][p * 3 + c]
+              : columns > rows
+                ? rgb[1][p * 3 + c]
+                : (rgb[0][p * 3 + c] + rgb[1][p * 3 + c]) / 2;
+          }
+        }
+      }
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,229 @@
+import { linearToSrgb } from '../colorSpace';
+import { Raster, createRaster } from './raster';
+import { DemosaicAlgorithm, Mosaic, demosaic } from './demosaic';
+import { decodeLosslessJpeg } from './losslessJpeg';
+import { DecodedTiff, TiffFile, TiffIfd, parseTiff, readSamples, tagNumber, tagNumbers, TIFF_TAGS } from './tiff';
+
+// Development of DNG raw files: linearization, black and white levels,
+// demosaicing, as-shot white balance and the camera color matrix. The
+// result is the scene in linear sRGB, stored gamma-encoded like any other
+// raster.
+
+const DNG_TAGS = {
+  CfaRepeatPatternDim: 33421,
+  CfaPattern: 33422,
+  DngVersion: 50706,
+  LinearizationTable: 50712,
+  BlackLevelRepeatDim: 50713,
+  BlackLevel: 50714,
+  BlackLevelDeltaH: 50715,
+  BlackLevelDeltaV: 50716,
+  WhiteLevel: 50717,
+  DefaultCropOrigin: 50719,
+  DefaultCropSize: 50720,
+  ColorMatrix1: 50721,
+  ColorMatrix2: 50722,
+  AsShotNeutral: 50728,
+  AsShotWhiteXY: 50729,
+  BaselineExposure: 50730,
+  CalibrationIlluminant1: 50778,
+  CalibrationIlluminant2: 50779,
+  ActiveArea: 50829
+} as const;
+
+const PHOTOMETRIC_CFA = 32803;
+const PHOTOMETRIC_LINEAR_RAW = 34892;
+const COMPRESSION_LOSSLESS_JPEG = 7;
+// CalibrationIlluminant code of D65, the white point of sRGB
+const ILLUMINANT_D65 = 21;
+
+// Linear sRGB to XYZ (D65)
+const SRGB_TO_XYZ = [
+  [0.412453, 0.357580, 0.180423],
+  [0.212671, 0.715160, 0.072169],
+  [0.019334, 0.119193, 0.950227]
+];
+
+type Matrix = number[][];
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+
+function invert3(m: Matrix): Matrix {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) throw new Error('DNG color matrix is singular');
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det]
+  ];
+}
+
+export const isDng = (tiff: TiffFile): boolean => tiff.ifds[0]?.has(DNG_TAGS.DngVersion) ?? false;
+
+// The full-resolution raw image, wherever the writer put it
+const rawIfd = (tiff: TiffFile): TiffIfd | undefined => tiff.ifds.find(ifd => {
+  const photometric = tagNumber(tiff, ifd, TIFF_TAGS.Photometric, 0);
+  return (photometric === PHOTOMETRIC_CFA || photometric === PHOTOMETRIC_LINEAR_RAW) &&
+    (tagNumber(tiff, ifd, TIFF_TAGS.NewSubfileType, 0) & 1) === 0;
+});
+
+// Camera XYZ-to-native matrix, preferring the one calibrated for daylight
+function colorMatrix(tiff: TiffFile, ifd0: TiffIfd): Matrix | null {
+  const first = tagNumbers(tiff, ifd0, DNG_TAGS.ColorMatrix1);
+  const second = tagNumbers(tiff, ifd0, DNG_TAGS.ColorMatrix2);
+  const useSecond = second.length === 9 && (
+    tagNumber(tiff, ifd0, DNG_TAGS.CalibrationIlluminant2, 0) === ILLUMINANT_D65 ||
+    tagNumber(tiff, ifd0, DNG_TAGS.CalibrationIlluminant1, 0) !== ILLUMINANT_D65
+  );
+  const values = useSecond ? second : first;
+  return values.length === 9 ? [values.slice(0, 3), values.slice(3, 6), values.slice(6, 9)] : null;
+}
+
+// Camera response to the light the photo was taken under
+function asShotNeutral(tiff: TiffFile, ifd0: TiffIfd, cameraFromXyz: Matrix | null): number[] {
+  const neutral = tagNumbers(tiff, ifd0, DNG_TAGS.AsShotNeutral);
+  if (neutral.length === 3 && neutral.every(value => value > 0)) return neutral;
+
+  const [x, y] = tagNumbers(tiff, ifd0, DNG_TAGS.AsShotWhiteXY);
+  if (cameraFromXyz && x > 0 && y > 0) {
+    const xyz = [x / y, 1, (1 - x - y) / y];
+    const response = cameraFromXyz.map(row => row.reduce((sum, value, k) => sum + value * xyz[k], 0));
+    if (response.every(value => value > 0)) return response;
+  }
+  return [1, 1, 1];
+}
+
+// Camera RGB (white balanced) to linear sRGB. Rows of the forward matrix
+// are scaled so a neutral camera response comes out white.
+function srgbFromCamera(cameraFromXyz: Matrix | null): Matrix {
+  if (!cameraFromXyz) return [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  const cameraFromSrgb = multiply(cameraFromXyz, SRGB_TO_XYZ).map(row => {
+    const sum = row[0] + row[1] + row[2];
+    return row.map(value => value / sum);
+  });
+  return invert3(cameraFromSrgb);
+}
+
+// Samples of the active area scaled to 0-1 between the black and white
+// levels
+function normalizeLevels(tiff: TiffFile, ifd: TiffIfd, samples: Uint16Array | Float32Array, width: number, height: number, channels: number) {
+  const number = (tag: number, fallback: number) => tagNumber(tiff, ifd, tag, fallback);
+  const [top, left, bottom, right] = tagNumbers(tiff, ifd, DNG_TAGS.ActiveArea);
+  const area = top !== undefined
+    ? { x: left, y: top, width: right - left, height: bottom - top }
+    : { x: 0, y: 0, width, height };
+
+  const linearization = tagNumbers(tiff, ifd, DNG_TAGS.LinearizationTable);
+  const [repeatRows, repeatColumns] = tagNumbers(tiff, ifd, DNG_TAGS.BlackLevelRepeatDim);
+  const blackRows = repeatRows || 1;
+  const blackColumns = repeatColumns || 1;
+  const blackLevels = tagNumbers(tiff, ifd, DNG_TAGS.BlackLevel);
+  const deltaH = tagNumbers(tiff, ifd, DNG_TAGS.BlackLevelDeltaH);
+  const deltaV = tagNumbers(tiff, ifd, DNG_TAGS.BlackLevelDeltaV);
+  const whiteLevels = tagNumbers(tiff, ifd, DNG_TAGS.WhiteLevel);
+  const defaultWhite = (1 << number(TIFF_TAGS.BitsPerSample, 16)) - 1;
+
+  const output = new Float32Array(area.width * area.height * channels);
+  for (let y = 0; y < area.height; y++) {
+    for (let x = 0; x < area.width; x++) {
+      for (let c = 0; c < channels; c++) {
+        let value = samples[((area.y + y) * width + area.x + x) * channels + c];
+        if (linearization.length) value = linearization[Math.min(value, linearization.length - 1)];
+
+        // Black levels repeat over the active area, per sample
+        const black = (blackLevels[((y % blackRows) * blackColumns + (x % blackColumns)) * channels + c] ?? blackLevels[0] ?? 0) +
+          (deltaH[x] ?? 0) + (deltaV[y] ?? 0);
+        const white = whiteLevels[c] ?? whiteLevels[0] ?? defaultWhite;
+        output[(y * area.width + x) * channels + c] = Math.max(0, (value - black) / (white - black));
+      }
+    }
+  }
+  return { data: output, width: area.width, height: area.height };
+}
+
+// Encoded 16-bit level of every 16-bit linear level
+let encodeLut: Uint16Array | null = null;
+
+const linearTo16 = (): Uint16Array => {
+  encodeLut ??= Uint16Array.from({ length: 65536 }, (_, i) => Math.round(linearToSrgb(i / 65535) * 65535));
+  return encodeLut;
+};
+
+export async function decodeDng(bytes: Uint8Array, algorithm: DemosaicAlgorithm): Promise<DecodedTiff> {
+  const tiff = parseTiff(bytes);
+  const ifd0 = tiff.ifds[0];
+  const ifd = rawIfd(tiff);
+  if (!ifd0 || !ifd) throw new Error('DNG has no raw image');
+
+  const samples = await readSamples(tiff, ifd, {
+    [COMPRESSION_LOSSLESS_JPEG]: (segment) => decodeLosslessJpeg(segment).data
+  });
+  const cfa = tagNumber(tiff, ifd, TIFF_TAGS.Photometric, 0) === PHOTOMETRIC_CFA;
+  const channels = cfa ? 1 : samples.samplesPerPixel;
+  if (!cfa && channels !== 3) throw new Error('Unsupported DNG: linear raw must have three channels');
+
+  const levels = normalizeLevels(tiff, ifd, samples.data, samples.width, samples.height, samples.samplesPerPixel);
+  const { width, height } = levels;
+
+  // White balance: the as-shot neutral turns grey. The channel the camera
+  // is most sensitive to keeps its scale, so highlights clip to white.
+  const cameraFromXyz = colorMatrix(tiff, ifd0);
+  const neutral = asShotNeutral(tiff, ifd0, cameraFromXyz);
+  const gains = neutral.map(value => Math.max(...neutral) / value);
+
+  let rgb: Float32Array;
+  if (cfa) {
+    const [patternHeight = 2, patternWidth = 2] = tagNumbers(tiff, ifd, DNG_TAGS.CfaRepeatPatternDim);
+    const pattern = tagNumbers(tiff, ifd, DNG_TAGS.CfaPattern);
+    if (pattern.length !== patternWidth * patternHeight || pattern.some(color => color > 2)) {
+      throw new Error('Unsupported DNG color filter pattern');
+    }
+    // The pattern starts at the top-left of the active area
+    const data = levels.data;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        data[i] = Math.min(1, data[i] * gains[pattern[(y % patternHeight) * patternWidth + (x % patternWidth)]]);
+      }
+    }
+    const mosaic: Mosaic = { width, height, data, pattern, patternWidth, patternHeight };
+    rgb = demosaic(mosaic, algorithm);
+  } else {
+    rgb = levels.data;
+    for (let i = 0; i < rgb.length; i++) rgb[i] = Math.min(1, rgb[i] * gains[i % 3]);
+  }
+
+  // Camera RGB to linear sRGB, brightened by the baseline exposure, then
+  // gamma-encoded at 16 bits
+  const exposure = Math.pow(2, tagNumber(tiff, ifd0, DNG_TAGS.BaselineExposure, 0));
+  const matrix = srgbFromCamera(cameraFromXyz).map(row => row.map(value => value * exposure));
+  const encode = linearTo16();
+
+  const [cropX = 0, cropY = 0] = tagNumbers(tiff, ifd, DNG_TAGS.DefaultCropOrigin).map(Math.round);
+  const [cropWidth = width, cropHeight = height] = tagNumbers(tiff, ifd, DNG_TAGS.DefaultCropSize).map(Math.round);
+  const x0 = Math.min(Math.max(0, cropX), width - 1);
+  const y0 = Math.min(Math.max(0, cropY), height - 1);
+  const raster: Raster = createRaster(Math.min(cropWidth, width - x0), Math.min(cropHeight, height - y0));
+  const out = raster.data;
+
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      const i = ((y0 + y) * width + x0 + x) * 3;
+      const o = (y * raster.width + x) * 4;
+      const r = rgb[i];
+      const g = rgb[i + 1];
+      const b = rgb[i + 2];
+      for (let c = 0; c < 3; c++) {
+        const [mr, mg, mb] = matrix[c];
+        const linear = Math.min(1, Math.max(0, mr * r + mg * g + mb * b));
+        out[o + c] = encode[Math.round(linear * 65535)];
+      }
+      out[o + 3] = 65535;
+    }
+  }
+
+  const orientation = tagNumber(tiff, ifd0, TIFF_TAGS.Orientation, 1);
+  return { raster, orientation: orientation >= 1 && orientation <= 8 ? orientation : 1 };
+}
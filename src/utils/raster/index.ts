@@ -0,0 +1,46 @@
+import type { EncodeOptions } from '../exportFormats';
+import { Raster } from './raster';
+import { decodePng16, encodePng16, isHighBitDepthPng } from './png';
+import { decodeTiff, encodeTiff, isTiff, parseTiff } from './tiff';
+import { decodeDng, isDng } from './dng';
+import { DemosaicAlgorithm } from './demosaic';
+
+export type { ImageSource, Raster } from './raster';
+export { createRaster, isRaster, orientRaster, rasterToImageData } from './raster';
+export { isTiff } from './tiff';
+export type { DemosaicAlgorithm } from './demosaic';
+export { DEMOSAIC_ALGORITHMS } from './demosaic';
+
+export interface DecodedRaster {
+  raster: Raster;
+  // Orientation stored by the format itself; null when it lives in EXIF
+  orientation: number | null;
+}
+
+// Enough to tell a TIFF or a 16-bit PNG from anything else
+const SNIFF_BYTES = 32;
+
+// Decode the formats the browser can't, or can only squash to 8 bits.
+// Anything else resolves to null and is left to createImageBitmap. DNG
+// raws are developed with `demosaic`.
+export async function decodeRaster(file: Blob, demosaic: DemosaicAlgorithm = 'ahd'): Promise<DecodedRaster | null> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  if (isTiff(head)) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return isDng(parseTiff(bytes)) ? decodeDng(bytes, demosaic) : decodeTiff(bytes);
+  }
+  if (isHighBitDepthPng(head)) return { raster: await decodePng16(new Uint8Array(await file.arrayBuffer())), orientation: null };
+  return null;
+}
+
+// DNG raws, which browsers report under various types or none at all
+export const isRawFile = (file: File): boolean =>
+  file.type === 'image/x-adobe-dng' || /\.dng$/i.test(file.name);
+
+// Whether a render is kept at 16 bits per channel rather than going
+// through a canvas. TIFF always does, since canvases can't encode it.
+export const isRasterEncoding = (encoding: EncodeOptions): boolean =>
+  encoding.type === 'image/tiff' || encoding.bitDepth === 16;
+
+export const encodeRaster = (raster: Raster, encoding: EncodeOptions): Promise<Blob> =>
+  encoding.type === 'image/tiff' ? encodeTiff(raster, encoding.bitDepth ?? 8) : encodePng16(raster);
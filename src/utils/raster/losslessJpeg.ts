@@ -0,0 +1,208 @@
+// Lossless JPEG (ITU T.81 process 14, SOF3) as DNG stores raw tiles in.
+// Only the features DNG writers use: Huffman coding, 1×1 sampling, any
+// predictor, restart intervals.
+
+interface HuffmanTable {
+  // Indexed by the next 16 bits: code length << 8 | value
+  lookup: Uint16Array;
+}
+
+interface Frame {
+  precision: number;
+  width: number;
+  height: number;
+  components: number[];
+}
+
+const buildHuffmanTable = (counts: Uint8Array, values: Uint8Array): HuffmanTable => {
+  const lookup = new Uint16Array(65536);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      const shift = 16 - length;
+      lookup.fill((length << 8) | values[k++], code << shift, (code + 1) << shift);
+      code++;
+    }
+    code <<= 1;
+  }
+  return { lookup };
+};
+
+// Decode a lossless JPEG into its samples, row by row with the components
+// of each pixel interleaved
+export function decodeLosslessJpeg(bytes: Uint8Array): { frame: Frame; data: Uint16Array } {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG stream');
+
+  const tables = new Map<number, HuffmanTable>();
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xc4) {
+      for (let at = 0; at + 17 <= segment.length;) {
+        const counts = segment.subarray(at + 1, at + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        // Only the table id matters; lossless JPEG has no AC tables
+        tables.set(segment[at] & 0x0f, buildHuffmanTable(counts, segment.subarray(at + 17, at + 17 + total)));
+        at += 17 + total;
+      }
+    } else if (marker === 0xc3) {
+      const components: number[] = [];
+      for (let i = 0; i < segment[5]; i++) components.push(segment[6 + i * 3]);
+      frame = {
+        precision: segment[0],
+        height: (segment[1] << 8) | segment[2],
+        width: (segment[3] << 8) | segment[4],
+        components
+      };
+    } else if (marker === 0xdd) {
+      restartInterval = (segment[0] << 8) | segment[1];
+    } else if (marker === 0xda) {
+      if (!frame) throw new Error('JPEG scan before its frame header');
+      const count = segment[0];
+      const scanTables: HuffmanTable[] = [];
+      for (let i = 0; i < count; i++) {
+        const table = tables.get(segment[2 + i * 2] >> 4);
+        if (!table) throw new Error('JPEG scan references a missing Huffman table');
+        scanTables.push(table);
+      }
+      const predictor = segment[1 + count * 2];
+      const pointTransform = segment[3 + count * 2] & 0x0f;
+      const data = decodeScan(bytes, offset + 2 + length, frame, scanTables, predictor, pointTransform, restartInterval);
+      return { frame, data };
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      throw new Error('Only lossless JPEG is supported in raw files');
+    }
+    offset += 2 + length;
+  }
+
+  throw new Error('JPEG stream has no scan');
+}
+
+function decodeScan(
+  bytes: Uint8Array,
+  start: number,
+  frame: Frame,
+  tables: HuffmanTable[],
+  predictor: number,
+  pointTransform: number,
+  restartInterval: number
+): Uint16Array {
+  const { width, height } = frame;
+  const components = tables.length;
+  const rowLength = width * components;
+  const output = new Uint16Array(rowLength * height);
+  const initial = 1 << (frame.precision - pointTransform - 1);
+
+  let position = start;
+  let buffer = 0;
+  let bits = 0;
+
+  // Keep at least 25 bits buffered. Stuffed zero bytes are skipped; at a
+  // marker the stream is padded with zeros.
+  const fill = () => {
+    while (bits <= 24) {
+      let byte = 0;
+      if (position < bytes.length) {
+        byte = bytes[position];
+        if (byte === 0xff) {
+          if (bytes[position + 1] === 0) position += 2;
+          else byte = 0;
+        } else {
+          position++;
+        }
+      }
+      buffer = ((buffer << 8) | byte) >>> 0;
+      bits += 8;
+    }
+  };
+
+  const readBits = (count: number) => {
+    fill();
+    bits -= count;
+    return (buffer >>> bits) & ((1 << count) - 1);
+  };
+
+  const readDifference = (table: HuffmanTable) => {
+    fill();
+    const entry = table.lookup[(buffer >>> (bits - 16)) & 0xffff];
+    const length = entry >> 8;
+    if (length === 0) throw new Error('Corrupt lossless JPEG data');
+    bits -= length;
+
+    const size = entry & 0xff;
+    if (size === 0) return 0;
+    if (size === 16) return 32768;
+    const value = readBits(size);
+    return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+  };
+
+  // Skip to just past the next RSTn marker and start over
+  const restart = () => {
+    bits = 0;
+    buffer = 0;
+    while (position + 1 < bytes.length && !(bytes[position] === 0xff && bytes[position + 1] >= 0xd0 && bytes[position + 1] <= 0xd7)) {
+      position++;
+    }
+    position += 2;
+  };
+
+  // The row predicted as if it were the first, after a restart
+  let firstRow = 0;
+  let resetPixel = false;
+  let pixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (restartInterval && pixels > 0 && pixels % restartInterval === 0) {
+        restart();
+        if (x === 0) firstRow = y;
+        else resetPixel = true;
+      }
+      pixels++;
+
+      for (let c = 0; c < components; c++) {
+        const at = y * rowLength + x * components + c;
+        let prediction: number;
+        if (resetPixel || (y === firstRow && x === 0)) {
+          prediction = initial;
+        } else if (y === firstRow) {
+          prediction = output[at - components];
+        } else if (x === 0) {
+          prediction = output[at - rowLength];
+        } else {
+          const left = output[at - components];
+          const up = output[at - rowLength];
+          const upLeft = output[at - rowLength - components];
+          switch (predictor) {
+            case 1: prediction = left; break;
+            case 2: prediction = up; break;
+            case 3: prediction = upLeft; break;
+            case 4: prediction = left + up - upLeft; break;
+            case 5: prediction = left + ((up - upLeft) >> 1); break;
+            case 6: prediction = up + ((left - upLeft) >> 1); break;
+            case 7: prediction = (left + up) >> 1; break;
+            default: prediction = left; break;
+          }
+        }
+        output[at] = (prediction + readDifference(tables[c])) & 0xffff;
+      }
+      resetPixel = false;
+    }
+  }
+
+  if (pointTransform) {
+    for (let i = 0; i < output.length; i++) output[i] <<= pointTransform;
+  }
+  return output;
+}
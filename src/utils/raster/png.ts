@@ -0,0 +1,194 @@
+import { crc32 } from '../crc32';
+import { Raster, createRaster, deflate, inflate } from './raster';
+
+// 16-bit PNG reading and writing. 8-bit PNGs are left to the browser.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel of each color type; palettes are never 16-bit
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+// Adam7 passes as [x0, y0, dx, dy]
+const ADAM7: [number, number, number, number][] = [
+  [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+];
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+// IHDR always comes first, so the bit depth sits at a fixed offset
+export const isHighBitDepthPng = (bytes: Uint8Array): boolean =>
+  bytes.length > 25 && isPng(bytes) && bytes[24] === 16;
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Undo the per-row filters of one (sub-)image in place
+function unfilter(bytes: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number) {
+  for (let y = 0; y < rows; y++) {
+    const filter = bytes[offset + y * (rowBytes + 1)];
+    const row = offset + y * (rowBytes + 1) + 1;
+    const previous = row - rowBytes - 1;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bpp ? bytes[row + i - bpp] : 0;
+      const up = y > 0 ? bytes[previous + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? bytes[previous + i - bpp] : 0;
+      switch (filter) {
+        case 0: break;
+        case 1: bytes[row + i] += left; break;
+        case 2: bytes[row + i] += up; break;
+        case 3: bytes[row + i] += (left + up) >> 1; break;
+        case 4: bytes[row + i] += paeth(left, up, upLeft); break;
+        default: throw new Error('PNG has an invalid row filter');
+      }
+    }
+  }
+}
+
+export async function decodePng16(bytes: Uint8Array): Promise<Raster> {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let interlaced = false;
+  let transparent: number[] | null = null;
+  const idat: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      if (data[8] !== 16) throw new Error('Only 16-bit PNGs are decoded here');
+      colorType = data[9];
+      interlaced = data[12] === 1;
+    } else if (type === 'tRNS') {
+      // One fully transparent gray level or RGB color
+      transparent = [];
+      for (let i = 0; i + 1 < data.length; i += 2) transparent.push((data[i] << 8) | data[i + 1]);
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || width === 0 || height === 0) throw new Error('Unsupported PNG');
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+  idat.reduce((offset, chunk) => (compressed.set(chunk, offset), offset + chunk.length), 0);
+  const scanlines = await inflate(compressed);
+
+  const bpp = channels * 2;
+  const raster = createRaster(width, height);
+  const out = raster.data;
+  const passes = interlaced ? ADAM7 : [[0, 0, 1, 1] as [number, number, number, number]];
+  let offset = 0;
+
+  for (const [x0, y0, dx, dy] of passes) {
+    const passWidth = Math.ceil((width - x0) / dx);
+    const passHeight = Math.ceil((height - y0) / dy);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = passWidth * bpp;
+    if (offset + passHeight * (rowBytes + 1) > scanlines.length) throw new Error('PNG image data is truncated');
+    unfilter(scanlines, offset, rowBytes, passHeight, bpp);
+
+    for (let py = 0; py < passHeight; py++) {
+      const row = offset + py * (rowBytes + 1) + 1;
+      for (let px = 0; px < passWidth; px++) {
+        const at = row + px * bpp;
+        const target = ((y0 + py * dy) * width + x0 + px * dx) * 4;
+        const first = (scanlines[at] << 8) | scanlines[at + 1];
+
+        if (channels <= 2) {
+          out[target] = out[target + 1] = out[target + 2] = first;
+          out[target + 3] = channels === 2
+            ? (scanlines[at + 2] << 8) | scanlines[at + 3]
+            : transparent && first === transparent[0] ? 0 : 65535;
+        } else {
+          const g = (scanlines[at + 2] << 8) | scanlines[at + 3];
+          const b = (scanlines[at + 4] << 8) | scanlines[at + 5];
+          out[target] = first;
+          out[target + 1] = g;
+          out[target + 2] = b;
+          out[target + 3] = channels === 4
+            ? (scanlines[at + 6] << 8) | scanlines[at + 7]
+            : transparent && first === transparent[0] && g === transparent[1] && b === transparent[2] ? 0 : 65535;
+        }
+      }
+    }
+
+    offset += passHeight * (rowBytes + 1);
+  }
+
+  return raster;
+}
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// 16-bit RGB, or RGBA when any pixel isn't opaque. Every row uses the Sub
+// filter, which suits smooth high-bit-depth gradients.
+export async function encodePng16(raster: Raster): Promise<Blob> {
+  const { width, height, data } = raster;
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) opaque = data[i] === 65535;
+
+  const channels = opaque ? 3 : 4;
+  const bpp = channels * 2;
+  const rowBytes = width * bpp;
+  const scanlines = new Uint8Array(height * (rowBytes + 1));
+
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1);
+    scanlines[row] = 1;
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        const value = data[(y * width + x) * 4 + c];
+        const at = row + 1 + x * bpp + c * 2;
+        scanlines[at] = value >> 8;
+        scanlines[at + 1] = value & 0xff;
+      }
+    }
+    // Sub filter, right to left so the raw left neighbour is still there
+    for (let i = rowBytes - 1; i >= bpp; i--) {
+      scanlines[row + 1 + i] = (scanlines[row + 1 + i] - scanlines[row + 1 + i - bpp]) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 16;
+  header[9] = opaque ? 2 : 6;
+
+  return new Blob([
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', await deflate(scanlines)),
+    pngChunk('IEND', new Uint8Array(0))
+  ], { type: 'image/png' });
+}
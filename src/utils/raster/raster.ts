@@ -0,0 +1,61 @@
+// Decoded pixels at 16 bits per channel, RGBA, for sources the canvas
+// would squash to 8 bits
+export interface Raster {
+  width: number;
+  height: number;
+  data: Uint16Array;
+}
+
+// Pixels the processor can read from: a browser-decoded bitmap or a
+// high-bit-depth raster
+export type ImageSource = ImageBitmap | Raster;
+
+export const createRaster = (width: number, height: number): Raster =>
+  ({ width, height, data: new Uint16Array(width * height * 4) });
+
+export const isRaster = (source: object): source is Raster =>
+  'data' in source && (source as Raster).data instanceof Uint16Array;
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// zlib streams, as PNG and TIFF Deflate store them
+export const inflate = (bytes: Uint8Array) => pipeThrough(bytes, new DecompressionStream('deflate'));
+export const deflate = (bytes: Uint8Array) => pipeThrough(bytes, new CompressionStream('deflate'));
+
+// Turn `raster` the way EXIF `orientation` says it should be displayed
+export function orientRaster(raster: Raster, orientation: number): Raster {
+  if (orientation < 2 || orientation > 8) return raster;
+
+  const { width, height, data } = raster;
+  const swapsAxes = orientation >= 5;
+  const output = createRaster(swapsAxes ? height : width, swapsAxes ? width : height);
+
+  for (let y = 0; y < output.height; y++) {
+    for (let x = 0; x < output.width; x++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2: sx = width - 1 - x; sy = y; break;
+        case 3: sx = width - 1 - x; sy = height - 1 - y; break;
+        case 4: sx = x; sy = height - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = height - 1 - x; break;
+        case 7: sx = width - 1 - y; sy = height - 1 - x; break;
+        default: sx = width - 1 - y; sy = x; break;
+      }
+      const from = (sy * width + sx) * 4;
+      output.data.set(data.subarray(from, from + 4), (y * output.width + x) * 4);
+    }
+  }
+
+  return output;
+}
+
+// 8-bit copy for display and analysis
+export function rasterToImageData(raster: Raster): ImageData {
+  const { data } = raster;
+  const output = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i++) output[i] = data[i] / 257;
+  return new ImageData(output, raster.width, raster.height);
+}
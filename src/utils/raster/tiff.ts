@@ -0,0 +1,545 @@
+import { Raster, createRaster, deflate, inflate } from './raster';
+
+// Baseline TIFF reading (strips or tiles; uncompressed, LZW, Deflate or
+// PackBits) and 8/16-bit RGB(A) writing
+
+export const TIFF_TAGS = {
+  NewSubfileType: 254,
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  Photometric: 262,
+  StripOffsets: 273,
+  Orientation: 274,
+  SamplesPerPixel: 277,
+  RowsPerStrip: 278,
+  StripByteCounts: 279,
+  XResolution: 282,
+  YResolution: 283,
+  PlanarConfiguration: 284,
+  ResolutionUnit: 296,
+  Predictor: 317,
+  ColorMap: 320,
+  TileWidth: 322,
+  TileLength: 323,
+  TileOffsets: 324,
+  TileByteCounts: 325,
+  SubIFDs: 330,
+  ExtraSamples: 338,
+  SampleFormat: 339
+} as const;
+
+const COMPRESSION = {
+  None: 1,
+  Lzw: 5,
+  Deflate: 8,
+  PackBits: 32773,
+  LegacyDeflate: 32946
+} as const;
+
+const PHOTOMETRIC = { WhiteIsZero: 0, BlackIsZero: 1, Rgb: 2, Palette: 3 } as const;
+
+// Byte size of each field type; 13 is an IFD offset
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+interface TiffEntry {
+  type: number;
+  count: number;
+  // Where the value bytes start
+  offset: number;
+}
+
+export type TiffIfd = Map<number, TiffEntry>;
+
+export interface TiffFile {
+  bytes: Uint8Array;
+  view: DataView;
+  littleEndian: boolean;
+  // The IFD chain followed by any SubIFDs
+  ifds: TiffIfd[];
+}
+
+export const isTiff = (bytes: Uint8Array): boolean =>
+  bytes.length > 8 && (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): { ifd: TiffIfd; next: number } {
+  const ifd: TiffIfd = new Map();
+  const count = view.getUint16(offset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    const type = view.getUint16(at + 2, littleEndian);
+    const valueCount = view.getUint32(at + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+    ifd.set(view.getUint16(at, littleEndian), {
+      type,
+      count: valueCount,
+      offset: size <= 4 ? at + 8 : view.getUint32(at + 8, littleEndian)
+    });
+  }
+
+  return { ifd, next: view.getUint32(offset + 2 + count * 12, littleEndian) };
+}
+
+export function parseTiff(bytes: Uint8Array): TiffFile {
+  if (!isTiff(bytes)) throw new Error('Not a TIFF file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49;
+  const tiff: TiffFile = { bytes, view, littleEndian, ifds: [] };
+
+  // Offsets already visited guard against IFD loops
+  const seen = new Set<number>();
+  const chain: TiffIfd[] = [];
+  for (let offset = view.getUint32(4, littleEndian); offset && !seen.has(offset) && offset + 2 <= bytes.length;) {
+    seen.add(offset);
+    const { ifd, next } = readIfd(view, offset, littleEndian);
+    chain.push(ifd);
+    offset = next;
+  }
+
+  tiff.ifds.push(...chain);
+  for (const ifd of chain) {
+    for (const offset of tagNumbers(tiff, ifd, TIFF_TAGS.SubIFDs)) {
+      if (seen.has(offset) || offset + 2 > bytes.length) continue;
+      seen.add(offset);
+      tiff.ifds.push(readIfd(view, offset, littleEndian).ifd);
+    }
+  }
+  return tiff;
+}
+
+// Every value of `tag`, rationals as their quotient
+export function tagNumbers(tiff: TiffFile, ifd: TiffIfd, tag: number): number[] {
+  const entry = ifd.get(tag);
+  if (!entry) return [];
+  const { view, littleEndian } = tiff;
+  const size = TYPE_SIZES[entry.type] ?? 1;
+  if (entry.offset + entry.count * size > view.byteLength) return [];
+
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.offset + i * size;
+    switch (entry.type) {
+      case 3: values.push(view.getUint16(at, littleEndian)); break;
+      case 4: case 13: values.push(view.getUint32(at, littleEndian)); break;
+      case 5: values.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1)); break;
+      case 6: values.push(view.getInt8(at)); break;
+      case 8: values.push(view.getInt16(at, littleEndian)); break;
+      case 9: values.push(view.getInt32(at, littleEndian)); break;
+      case 10: values.push(view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1)); break;
+      case 11: values.push(view.getFloat32(at, littleEndian)); break;
+      case 12: values.push(view.getFloat64(at, littleEndian)); break;
+      default: values.push(view.getUint8(at)); break;
+    }
+  }
+  return values;
+}
+
+export const tagNumber = (tiff: TiffFile, ifd: TiffIfd, tag: number, fallback: number): number =>
+  tagNumbers(tiff, ifd, tag)[0] ?? fallback;
+
+// Raw bytes of an UNDEFINED or BYTE tag, such as an embedded ICC profile
+export function tagBytes(tiff: TiffFile, ifd: TiffIfd, tag: number): Uint8Array | null {
+  const entry = ifd.get(tag);
+  if (!entry) return null;
+  const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+  return entry.offset + size <= tiff.bytes.length ? tiff.bytes.subarray(entry.offset, entry.offset + size) : null;
+}
+
+// TIFF LZW: MSB-first codes of 9 to 12 bits, widened one code early
+function lzwDecode(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  const totalBits = input.length * 8;
+  let bitPosition = 0;
+  let width = 9;
+  let next = 258;
+  let previous = -1;
+  let written = 0;
+
+  // Write the string of `code` and return its first byte
+  const emit = (code: number): number => {
+    const length = lengths[code];
+    let at = written + length - 1;
+    for (let c = code; c >= 0; c = prefix[c], at--) {
+      if (at < expected) output[at] = suffix[c];
+      if (prefix[c] < 0) {
+        written += length;
+        return suffix[c];
+      }
+    }
+    return 0;
+  };
+
+  while (bitPosition + width <= totalBits && written < expected) {
+    const byte = bitPosition >> 3;
+    const chunk = (input[byte] << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0);
+    const code = (chunk >> (24 - (bitPosition & 7) - width)) & ((1 << width) - 1);
+    bitPosition += width;
+
+    if (code === 257) break;
+    if (code === 256) {
+      width = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+
+    if (previous < 0) {
+      emit(code);
+      previous = code;
+      continue;
+    }
+
+    let first: number;
+    if (code < next) {
+      first = emit(code);
+    } else {
+      // The code being defined right now: previous string plus its own first byte
+      first = emit(previous);
+      if (written < expected) output[written] = first;
+      written++;
+    }
+
+    if (next < 4096) {
+      prefix[next] = previous;
+      suffix[next] = first;
+      lengths[next] = lengths[previous] + 1;
+      next++;
+    }
+    if (next + 1 >= 1 << width && width < 12) width++;
+    previous = code;
+  }
+
+  return output;
+}
+
+function packBitsDecode(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let written = 0;
+  for (let i = 0; i < input.length && written < expected;) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      const run = input.subarray(i, i + header + 1);
+      output.set(run.subarray(0, expected - written), written);
+      written += run.length;
+      i += header + 1;
+    } else if (header !== -128) {
+      output.fill(input[i++], written, Math.min(expected, written + 1 - header));
+      written += 1 - header;
+    }
+  }
+  return output;
+}
+
+// Decoder for compression schemes outside baseline TIFF, such as DNG's
+// lossless JPEG
+export type SegmentDecoder = (segment: Uint8Array, width: number, height: number, samples: number, bits: number) => Uint16Array;
+
+async function decompress(segment: Uint8Array, compression: number, expected: number): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION.None: return segment;
+    case COMPRESSION.Lzw: return lzwDecode(segment, expected);
+    case COMPRESSION.Deflate:
+    case COMPRESSION.LegacyDeflate: return inflate(segment);
+    case COMPRESSION.PackBits: return packBitsDecode(segment, expected);
+    default: throw new Error(`Unsupported TIFF compression (${compression})`);
+  }
+}
+
+// Samples of one image, chunky (interleaved) whatever the planar layout
+export interface TiffSamples {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  bitsPerSample: number;
+  data: Uint16Array | Float32Array;
+}
+
+// Decode the pixel samples of `ifd`, undoing compression and prediction.
+// `decoders` handle compression schemes this module doesn't know.
+export async function readSamples(
+  tiff: TiffFile,
+  ifd: TiffIfd,
+  decoders: Record<number, SegmentDecoder> = {}
+): Promise<TiffSamples> {
+  const { bytes, littleEndian } = tiff;
+  const number = (tag: number, fallback: number) => tagNumber(tiff, ifd, tag, fallback);
+
+  const width = number(TIFF_TAGS.ImageWidth, 0);
+  const height = number(TIFF_TAGS.ImageLength, 0);
+  const samplesPerPixel = number(TIFF_TAGS.SamplesPerPixel, 1);
+  const bits = number(TIFF_TAGS.BitsPerSample, 1);
+  const compression = number(TIFF_TAGS.Compression, COMPRESSION.None);
+  const predictor = number(TIFF_TAGS.Predictor, 1);
+  const planar = number(TIFF_TAGS.PlanarConfiguration, 1) === 2;
+  const float = number(TIFF_TAGS.SampleFormat, 1) === 3;
+
+  if (width === 0 || height === 0) throw new Error('TIFF has no image dimensions');
+  if (float ? bits !== 32 : bits > 16) throw new Error(`Unsupported TIFF bit depth (${bits})`);
+  if (predictor !== 1 && (predictor !== 2 || float)) throw new Error('Unsupported TIFF predictor');
+
+  const tiled = ifd.has(TIFF_TAGS.TileWidth);
+  const segmentWidth = tiled ? number(TIFF_TAGS.TileWidth, width) : width;
+  const segmentHeight = Math.min(height, tiled ? number(TIFF_TAGS.TileLength, height) : number(TIFF_TAGS.RowsPerStrip, height));
+  const offsets = tagNumbers(tiff, ifd, tiled ? TIFF_TAGS.TileOffsets : TIFF_TAGS.StripOffsets);
+  const byteCounts = tagNumbers(tiff, ifd, tiled ? TIFF_TAGS.TileByteCounts : TIFF_TAGS.StripByteCounts);
+
+  const across = Math.ceil(width / segmentWidth);
+  const perPlane = across * Math.ceil(height / segmentHeight);
+  const segmentSamples = planar ? 1 : samplesPerPixel;
+  const rowSamples = segmentWidth * segmentSamples;
+  const rowBytes = Math.ceil(rowSamples * bits / 8);
+  const data = float
+    ? new Float32Array(width * height * samplesPerPixel)
+    : new Uint16Array(width * height * samplesPerPixel);
+  const row = new Float64Array(rowSamples);
+  const mask = (1 << bits) - 1;
+
+  for (let s = 0; s < offsets.length && s < perPlane * (planar ? samplesPerPixel : 1); s++) {
+    const plane = planar ? Math.floor(s / perPlane) : 0;
+    const index = s % perPlane;
+    const x0 = (index % across) * segmentWidth;
+    const y0 = Math.floor(index / across) * segmentHeight;
+    // Strips at the bottom may be short; tiles are always padded to full size
+    const rows = tiled ? segmentHeight : Math.min(segmentHeight, height - y0);
+    const segment = bytes.subarray(offsets[s], offsets[s] + (byteCounts[s] ?? bytes.length));
+
+    const custom = decoders[compression];
+    if (custom) {
+      const decoded = custom(segment, segmentWidth, rows, segmentSamples, bits);
+      for (let y = 0; y < rows && y0 + y < height; y++) {
+        for (let x = 0; x < segmentWidth && x0 + x < width; x++) {
+          for (let c = 0; c < segmentSamples; c++) {
+            data[((y0 + y) * width + x0 + x) * samplesPerPixel + plane + c] = decoded[(y * segmentWidth + x) * segmentSamples + c];
+          }
+        }
+      }
+      continue;
+    }
+
+    const raw = await decompress(segment, compression, rowBytes * rows);
+    const rawView = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+
+    for (let y = 0; y < rows && y0 + y < height; y++) {
+      const start = y * rowBytes;
+      if (start + rowBytes > raw.length) break;
+
+      // Unpack the row into sample values
+      for (let i = 0; i < rowSamples; i++) {
+        if (bits === 8) row[i] = raw[start + i];
+        else if (bits === 16) row[i] = rawView.getUint16(start + i * 2, littleEndian);
+        else if (float) row[i] = rawView.getFloat32(start + i * 4, littleEndian);
+        else {
+          // Sub-byte and odd depths are packed MSB first
+          const bit = i * bits;
+          const at = start + (bit >> 3);
+          const chunk = (raw[at] << 16) | ((raw[at + 1] ?? 0) << 8) | (raw[at + 2] ?? 0);
+          row[i] = (chunk >> (24 - (bit & 7) - bits)) & mask;
+        }
+      }
+
+      // Horizontal differencing against the same sample of the previous pixel
+      if (predictor === 2) {
+        for (let i = segmentSamples; i < rowSamples; i++) row[i] = (row[i] + row[i - segmentSamples]) & mask;
+      }
+
+      const target = (y0 + y) * width;
+      for (let x = 0; x < segmentWidth && x0 + x < width; x++) {
+        for (let c = 0; c < segmentSamples; c++) {
+          data[(target + x0 + x) * samplesPerPixel + plane + c] = row[x * segmentSamples + c];
+        }
+      }
+    }
+  }
+
+  return { width, height, samplesPerPixel, bitsPerSample: bits, data };
+}
+
+// The full-resolution image: the first IFD not flagged as a reduced copy
+const mainIfd = (tiff: TiffFile): TiffIfd =>
+  tiff.ifds.find(ifd => (tagNumber(tiff, ifd, TIFF_TAGS.NewSubfileType, 0) & 1) === 0) ?? tiff.ifds[0];
+
+export interface DecodedTiff {
+  raster: Raster;
+  // EXIF-style orientation (1-8) from the Orientation tag
+  orientation: number;
+}
+
+export async function decodeTiff(bytes: Uint8Array): Promise<DecodedTiff> {
+  const tiff = parseTiff(bytes);
+  const ifd = mainIfd(tiff);
+  if (!ifd) throw new Error('TIFF has no images');
+
+  const photometric = tagNumber(tiff, ifd, TIFF_TAGS.Photometric, PHOTOMETRIC.BlackIsZero);
+  if (photometric > PHOTOMETRIC.Palette) throw new Error(`Unsupported TIFF color model (${photometric})`);
+
+  const { width, height, samplesPerPixel, bitsPerSample, data } = await readSamples(tiff, ifd);
+  const float = data instanceof Float32Array;
+  const scale = float ? 65535 : 65535 / ((1 << bitsPerSample) - 1);
+  const level = (value: number) => Math.min(65535, Math.max(0, Math.round(value * scale)));
+
+  const colorSamples = photometric === PHOTOMETRIC.Rgb ? 3 : 1;
+  // Extra samples: 1 is premultiplied alpha, 2 straight alpha
+  const alphaKind = samplesPerPixel > colorSamples ? tagNumber(tiff, ifd, TIFF_TAGS.ExtraSamples, 0) : 0;
+  const colorMap = photometric === PHOTOMETRIC.Palette ? tagNumbers(tiff, ifd, TIFF_TAGS.ColorMap) : [];
+  const paletteSize = colorMap.length / 3;
+
+  const raster = createRaster(width, height);
+  const out = raster.data;
+
+  for (let p = 0; p < width * height; p++) {
+    const i = p * samplesPerPixel;
+    const o = p * 4;
+    const alpha = alphaKind ? level(data[i + colorSamples]) : 65535;
+
+    if (photometric === PHOTOMETRIC.Palette) {
+      const entry = Math.min(data[i], paletteSize - 1);
+      out[o] = colorMap[entry];
+      out[o + 1] = colorMap[paletteSize + entry];
+      out[o + 2] = colorMap[paletteSize * 2 + entry];
+    } else if (colorSamples === 3) {
+      out[o] = level(data[i]);
+      out[o + 1] = level(data[i + 1]);
+      out[o + 2] = level(data[i + 2]);
+    } else {
+      const gray = level(data[i]);
+      out[o] = out[o + 1] = out[o + 2] = photometric === PHOTOMETRIC.WhiteIsZero ? 65535 - gray : gray;
+    }
+
+    if (alphaKind === 1 && alpha > 0 && alpha < 65535) {
+      for (let c = 0; c < 3; c++) out[o + c] = Math.min(65535, Math.round(out[o + c] * 65535 / alpha));
+    }
+    out[o + 3] = alpha;
+  }
+
+  const orientation = tagNumber(tiff, ifd, TIFF_TAGS.Orientation, 1);
+  return { raster, orientation: orientation >= 1 && orientation <= 8 ? orientation : 1 };
+}
+
+// Rows per strip in the files we write
+const STRIP_ROWS = 64;
+
+// Deflate-compressed RGB, or RGBA with straight alpha when any pixel isn't
+// opaque, with horizontal prediction
+export async function encodeTiff(raster: Raster, bitDepth: 8 | 16 = 16): Promise<Blob> {
+  const { width, height, data } = raster;
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) opaque = data[i] === 65535;
+
+  const channels = opaque ? 3 : 4;
+  const sampleBytes = bitDepth / 8;
+  const rowBytes = width * channels * sampleBytes;
+  const mask = (1 << bitDepth) - 1;
+  const strips: Uint8Array[] = [];
+
+  for (let y0 = 0; y0 < height; y0 += STRIP_ROWS) {
+    const rows = Math.min(STRIP_ROWS, height - y0);
+    const strip = new Uint8Array(rows * rowBytes);
+    const view = new DataView(strip.buffer);
+
+    for (let y = 0; y < rows; y++) {
+      const previous = new Array<number>(channels).fill(0);
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < channels; c++) {
+          const value = data[((y0 + y) * width + x) * 4 + c];
+          const sample = bitDepth === 8 ? Math.round(value / 257) : value;
+          const delta = (sample - previous[c]) & mask;
+          previous[c] = sample;
+          const at = y * rowBytes + (x * channels + c) * sampleBytes;
+          if (bitDepth === 8) strip[at] = delta;
+          else view.setUint16(at, delta, true);
+        }
+      }
+    }
+    strips.push(await deflate(strip));
+  }
+
+  // Header, strips, then the IFD and the values that don't fit inline
+  const stripOffsets: number[] = [];
+  let offset = 8;
+  for (const strip of strips) {
+    stripOffsets.push(offset);
+    offset += strip.length + (strip.length & 1);
+  }
+
+  type Field = [tag: number, type: number, values: number[]];
+  const SHORT = 3;
+  const LONG = 4;
+  const RATIONAL = 5;
+  const fields: Field[] = [
+    [TIFF_TAGS.ImageWidth, LONG, [width]],
+    [TIFF_TAGS.ImageLength, LONG, [height]],
+    [TIFF_TAGS.BitsPerSample, SHORT, new Array(channels).fill(bitDepth)],
+    [TIFF_TAGS.Compression, SHORT, [COMPRESSION.Deflate]],
+    [TIFF_TAGS.Photometric, SHORT, [PHOTOMETRIC.Rgb]],
+    [TIFF_TAGS.StripOffsets, LONG, stripOffsets],
+    [TIFF_TAGS.SamplesPerPixel, SHORT, [channels]],
+    [TIFF_TAGS.RowsPerStrip, LONG, [STRIP_ROWS]],
+    [TIFF_TAGS.StripByteCounts, LONG, strips.map(strip => strip.length)],
+    [TIFF_TAGS.XResolution, RATIONAL, [72, 1]],
+    [TIFF_TAGS.YResolution, RATIONAL, [72, 1]],
+    [TIFF_TAGS.PlanarConfiguration, SHORT, [1]],
+    [TIFF_TAGS.ResolutionUnit, SHORT, [2]],
+    [TIFF_TAGS.Predictor, SHORT, [2]],
+    ...(opaque ? [] : [[TIFF_TAGS.ExtraSamples, SHORT, [2]] as Field])
+  ];
+
+  const ifdOffset = offset;
+  const ifdSize = 2 + fields.length * 12 + 4;
+  const valueSize = (type: number, values: number[]) => (type === SHORT ? 2 : 4) * values.length;
+  const extraSize = fields.reduce((sum, [, type, values]) => {
+    const size = valueSize(type, values);
+    return size > 4 ? sum + size : sum;
+  }, 0);
+
+  const header = new Uint8Array(8);
+  header.set([0x49, 0x49, 42, 0]);
+  new DataView(header.buffer).setUint32(4, ifdOffset, true);
+
+  const ifd = new Uint8Array(ifdSize + extraSize);
+  const view = new DataView(ifd.buffer);
+  let extraOffset = ifdSize;
+  view.setUint16(0, fields.length, true);
+
+  fields.forEach(([tag, type, values], i) => {
+    const at = 2 + i * 12;
+    const size = valueSize(type, values);
+    // RATIONAL values are numerator/denominator pairs
+    const count = type === RATIONAL ? values.length / 2 : values.length;
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, count, true);
+
+    let valueAt = at + 8;
+    if (size > 4) {
+      view.setUint32(at + 8, ifdOffset + extraOffset, true);
+      valueAt = extraOffset;
+      extraOffset += size;
+    }
+    values.forEach((value, v) => {
+      if (type === SHORT) view.setUint16(valueAt + v * 2, value, true);
+      else view.setUint32(valueAt + v * 4, value, true);
+    });
+  });
+
+  const parts: Uint8Array[] = [header];
+  for (const strip of strips) {
+    parts.push(strip);
+    if (strip.length & 1) parts.push(new Uint8Array(1));
+  }
+  parts.push(ifd);
+  return new Blob(parts, { type: 'image/tiff' });
+}
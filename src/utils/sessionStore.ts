@@ -0,0 +1,296 @@
+import type { ProcessingSettings } from './imageProcessor';
+import type { History, Snapshot } from './history';
+import type { ProcessingClient } from './processingClient';
+import { withDefaultSettings } from './presets';
+
+// The upload a project is built around; fixed once the project exists
+export interface ProjectSource {
+  id: string;
+  name: string;
+  file: Blob;
+  lastModified: number;
+  thumbnail: Blob | null;
+  createdAt: number;
+}
+
+// Edits of a project; rewritten on every save
+export interface ProjectSession {
+  history: History<ProcessingSettings>;
+  snapshots: Snapshot<ProcessingSettings>[];
+}
+
+// What the project list and eviction read: everything but the session and
+// the large blobs, which are stored separately
+export interface ProjectEntry extends Omit<ProjectSource, 'file'> {
+  fileSize: number;
+  resultSize: number;
+  updatedAt: number;
+}
+
+// A saved editing session
+export interface ProjectRecord extends ProjectSource, ProjectSession {
+  // Last full-resolution render, if any
+  result: Blob | null;
+  updatedAt: number;
+}
+
+const DB_NAME = 'image-enhancer';
+const DB_VERSION = 2;
+// Project entries, keyed by id
+const PROJECTS = 'projects';
+// Sessions, keyed by project id
+const SESSIONS = 'sessions';
+// Uploads and results, keyed by `fileKey` and `resultKey`
+const FILES = 'files';
+const CURRENT_PROJECT_KEY = 'image-enhancer.currentProject';
+
+// Eviction limits. The byte limit is further capped to a share of the
+// origin's quota when the browser reports one.
+export const MAX_PROJECTS = 12;
+const MAX_STORAGE_BYTES = 512 * 1024 * 1024;
+const QUOTA_SHARE = 0.5;
+
+const THUMBNAIL_SIZE = 160;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const fileKey = (id: string) => `${id}:file`;
+const resultKey = (id: string) => `${id}:result`;
+
+// Version 1 kept whole records in the projects store; split each into an
+// entry, a session and its blobs
+function splitProjects(transaction: IDBTransaction) {
+  const sessions = transaction.objectStore(SESSIONS);
+  const files = transaction.objectStore(FILES);
+  const request = transaction.objectStore(PROJECTS).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const { file, result, history, snapshots, ...source } = cursor.value as ProjectRecord;
+    sessions.put({ id: source.id, history, snapshots });
+    files.put(file, fileKey(source.id));
+    if (result) files.put(result, resultKey(source.id));
+    const entry: ProjectEntry = { ...source, fileSize: file.size, resultSize: result?.size ?? 0 };
+    cursor.update(entry);
+    cursor.continue();
+  };
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      if (event.oldVersion < 2) {
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        db.createObjectStore(FILES);
+        if (event.oldVersion >= 1 && request.transaction) splitProjects(request.transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    database = null;
+    throw error;
+  });
+  return database;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+export const createProjectId = (): string =>
+  `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const projectSize = (entry: ProjectEntry): number =>
+  entry.fileSize + entry.resultSize + (entry.thumbnail?.size ?? 0);
+
+// Rebuild the uploaded File from a stored project
+export const projectFile = (record: ProjectSource): File =>
+  new File([record.file], record.name, { type: record.file.type, lastModified: record.lastModified });
+
+// The file is decoded and scaled down in `decoder`'s worker
+async function createThumbnail(file: Blob, decoder: ProcessingClient): Promise<Blob | null> {
+  try {
+    const { bitmap } = await decoder.decodePreview(file, THUMBNAIL_SIZE);
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  } catch (error) {
+    console.warn('Failed to create thumbnail:', error);
+    return null;
+  }
+}
+
+// Strip the session fields off a stored project
+export const toProjectSource = ({ id, name, file, lastModified, thumbnail, createdAt }: ProjectSource): ProjectSource =>
+  ({ id, name, file, lastModified, thumbnail, createdAt });
+
+export const createProjectSource = async (file: File, decoder: ProcessingClient): Promise<ProjectSource> => ({
+  id: createProjectId(),
+  name: file.name,
+  file,
+  lastModified: file.lastModified,
+  thumbnail: await createThumbnail(file, decoder),
+  createdAt: Date.now()
+});
+
+// Projects saved before a setting existed get its default
+const upgradeProject = (record: ProjectRecord): ProjectRecord => ({
+  ...record,
+  history: {
+    ...record.history,
+    entries: Object.fromEntries(Object.entries(record.history.entries).map(([id, entry]) =>
+      [id, { ...entry, state: withDefaultSettings(entry.state) }]
+    ))
+  },
+  snapshots: record.snapshots.map(snapshot => ({ ...snapshot, state: withDefaultSettings(snapshot.state) }))
+});
+
+// All saved projects, most recently edited first
+export async function listProjects(): Promise<ProjectEntry[]> {
+  const db = await openDatabase();
+  const entries = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<ProjectEntry[]>);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<ProjectRecord | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS, SESSIONS, FILES]);
+  const files = transaction.objectStore(FILES);
+  const [entry, session, file, result] = await Promise.all([
+    promisify(transaction.objectStore(PROJECTS).get(id) as IDBRequest<ProjectEntry | undefined>),
+    promisify(transaction.objectStore(SESSIONS).get(id) as IDBRequest<(ProjectSession & { id: string }) | undefined>),
+    promisify(files.get(fileKey(id)) as IDBRequest<Blob | undefined>),
+    promisify(files.get(resultKey(id)) as IDBRequest<Blob | undefined>)
+  ]);
+  if (!entry || !session || !file) return null;
+
+  return upgradeProject({
+    ...toProjectSource({ ...entry, file }),
+    history: session.history,
+    snapshots: session.snapshots,
+    result: result ?? null,
+    updatedAt: entry.updatedAt
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS, SESSIONS, FILES], 'readwrite');
+  transaction.objectStore(PROJECTS).delete(id);
+  transaction.objectStore(SESSIONS).delete(id);
+  transaction.objectStore(FILES).delete(fileKey(id));
+  transaction.objectStore(FILES).delete(resultKey(id));
+  await completion(transaction);
+  if (getCurrentProjectId() === id) setCurrentProjectId(null);
+}
+
+const storageLimit = async (): Promise<number> => {
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return estimate?.quota ? Math.min(MAX_STORAGE_BYTES, estimate.quota * QUOTA_SHARE) : MAX_STORAGE_BYTES;
+};
+
+// Delete the least recently edited projects until the rest fit the limits.
+// `keepId` is never evicted. Returns the ids that were removed.
+export async function enforceQuota(keepId?: string, extraBytes = 0): Promise<string[]> {
+  const projects = await listProjects();
+  const limit = await storageLimit();
+  let count = projects.length;
+  let total = projects.reduce((sum, entry) => sum + projectSize(entry), extraBytes);
+
+  const evicted: string[] = [];
+  for (const entry of [...projects].reverse()) {
+    if (count <= MAX_PROJECTS && total <= limit) break;
+    if (entry.id === keepId) continue;
+
+    await deleteProject(entry.id);
+    evicted.push(entry.id);
+    count--;
+    total -= projectSize(entry);
+  }
+  return evicted;
+}
+
+// Write an entry with its session and any blobs in one transaction. A null
+// blob is deleted.
+const putProject = async (entry: ProjectEntry, session: ProjectSession, blobs: [string, Blob | null][]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS, SESSIONS, FILES], 'readwrite');
+  transaction.objectStore(PROJECTS).put(entry);
+  transaction.objectStore(SESSIONS).put({ id: entry.id, ...session });
+  const files = transaction.objectStore(FILES);
+  for (const [key, blob] of blobs) {
+    if (blob) files.put(blob, key);
+    else files.delete(key);
+  }
+  await completion(transaction);
+};
+
+// Store a project's session, evicting old projects to make room. The upload
+// is only written by the first save and the result only when `result` is
+// given (null removes it), so routine saves leave the blobs alone. A write
+// the browser rejects for lack of space is retried once after evicting for
+// its size.
+export async function saveProject(project: ProjectSource, session: ProjectSession, result?: Blob | null): Promise<void> {
+  const db = await openDatabase();
+  const existing = await promisify(db.transaction(PROJECTS).objectStore(PROJECTS).get(project.id) as IDBRequest<ProjectEntry | undefined>);
+
+  const { file, ...source } = project;
+  const entry: ProjectEntry = {
+    ...source,
+    fileSize: file.size,
+    resultSize: result === undefined ? existing?.resultSize ?? 0 : result?.size ?? 0,
+    updatedAt: Date.now()
+  };
+  const blobs: [string, Blob | null][] = [];
+  if (!existing) blobs.push([fileKey(project.id), file]);
+  if (result !== undefined) blobs.push([resultKey(project.id), result]);
+
+  try {
+    await putProject(entry, session, blobs);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    await enforceQuota(project.id, blobs.reduce((sum, [, blob]) => sum + (blob?.size ?? 0), 0));
+    await putProject(entry, session, blobs);
+  }
+  await enforceQuota(project.id);
+  setCurrentProjectId(project.id);
+}
+
+// Project reopened on the next page load
+export function getCurrentProjectId(): string | null {
+  try {
+    return localStorage.getItem(CURRENT_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setCurrentProjectId(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(CURRENT_PROJECT_KEY, id);
+    else localStorage.removeItem(CURRENT_PROJECT_KEY);
+  } catch {
+    // Private browsing can refuse writes; the session just won't resume
+  }
+}
@@ -0,0 +1,186 @@
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// RGBA pixels in the working space, as floats on the 0-255 scale, so
+// filters keep their precision from one stage to the next
+export interface PixelTile {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export const createTile = (width: number, height: number, data = new Float32Array(width * height * 4)): PixelTile =>
+  ({ data, width, height });
+
+// A filter stage as seen by the tiled executor
+export interface TileStage {
+  // Area of the stage input needed to compute `output` exactly
+  inputRect(output: Rect, width: number, height: number): Rect;
+  // Filter a tile that covers `rect` in image coordinates. Stages backed
+  // by a model may resolve later.
+  apply(tile: PixelTile, rect: Rect): PixelTile | Promise<PixelTile>;
+  // Stages that need image-wide statistics see their whole input, tile by
+  // tile, before the first call to `apply`
+  analyze?(tile: PixelTile, rect: Rect, width: number, height: number): void;
+}
+
+// Another set of stages run over the same input and blended into the
+// output by `weights` (0-1 per output pixel)
+export interface TileLayer {
+  stages: TileStage[];
+  weights(rect: Rect): Float32Array | Promise<Float32Array>;
+}
+
+export interface TiledRunOptions {
+  tileSize: number;
+  read: (rect: Rect) => PixelTile | Promise<PixelTile>;
+  write: (tile: PixelTile, rect: Rect) => void;
+  checkpoint: () => Promise<void>;
+  onProgress?: (fraction: number) => void;
+  // Only produce this part of the output. Analysis still covers the whole
+  // image, so the region matches the same area of a full run.
+  region?: Rect;
+  layers?: TileLayer[];
+}
+
+// Grow a rect by `radius` pixels on every side, clipped to the image
+export const expandRect = (rect: Rect, radius: number, width: number, height: number): Rect => {
+  const x = Math.max(0, rect.x - radius);
+  const y = Math.max(0, rect.y - radius);
+  return {
+    x,
+    y,
+    width: Math.min(width, rect.x + rect.width + radius) - x,
+    height: Math.min(height, rect.y + rect.height + radius) - y
+  };
+};
+
+// Cut `to` out of a tile covering `from`; `to` must lie inside `from`
+export const cropTile = (tile: PixelTile, from: Rect, to: Rect): PixelTile => {
+  if (from.x === to.x && from.y === to.y && from.width === to.width && from.height === to.height) {
+    return tile;
+  }
+
+  const output = createTile(to.width, to.height);
+  const rowLength = to.width * 4;
+  for (let y = 0; y < to.height; y++) {
+    const start = ((to.y - from.y + y) * from.width + (to.x - from.x)) * 4;
+    output.data.set(tile.data.subarray(start, start + rowLength), y * rowLength);
+  }
+
+  return output;
+};
+
+const tileGrid = (area: Rect, tileSize: number): Rect[] => {
+  const tiles: Rect[] = [];
+  const right = area.x + area.width;
+  const bottom = area.y + area.height;
+  for (let y = area.y; y < bottom; y += tileSize) {
+    for (let x = area.x; x < right; x += tileSize) {
+      tiles.push({
+        x,
+        y,
+        width: Math.min(tileSize, right - x),
+        height: Math.min(tileSize, bottom - y)
+      });
+    }
+  }
+  return tiles;
+};
+
+// Walk the stages backwards to find the area each one has to see
+const stageRects = (stages: TileStage[], output: Rect, width: number, height: number): Rect[] => {
+  const rects: Rect[] = new Array(stages.length + 1);
+  rects[stages.length] = output;
+  for (let i = stages.length - 1; i >= 0; i--) {
+    rects[i] = stages[i].inputRect(rects[i + 1], width, height);
+  }
+  return rects;
+};
+
+// One output tile of `stages`, read with the overlap they need
+async function runStages(
+  stages: TileStage[],
+  output: Rect,
+  width: number,
+  height: number,
+  read: TiledRunOptions['read'],
+  checkpoint: () => Promise<void>,
+  analyzeInline: boolean
+): Promise<PixelTile> {
+  const rects = stageRects(stages, output, width, height);
+  let tile = await read(rects[0]);
+  for (let i = 0; i < stages.length; i++) {
+    if (analyzeInline) stages[i].analyze?.(tile, rects[i], width, height);
+    tile = await stages[i].apply(tile, rects[i]);
+    tile = cropTile(tile, rects[i], rects[i + 1]);
+    await checkpoint();
+  }
+  return tile;
+}
+
+// Mix `layer` into `base` in place by per-pixel weights
+const blendTile = (base: PixelTile, layer: PixelTile, weights: Float32Array) => {
+  const target = base.data;
+  const source = layer.data;
+  for (let i = 0; i < weights.length; i++) {
+    const weight = weights[i];
+    if (weight === 0) continue;
+    for (let c = i * 4; c < i * 4 + 4; c++) target[c] += (source[c] - target[c]) * weight;
+  }
+};
+
+// Run `stages` over the image one output tile at a time. Every tile is read
+// with enough overlap for all stages, so the stitched result matches a
+// whole-image run while only one padded tile is held in memory at a time.
+// Layers are run over the same tiles and blended in, in order.
+export async function runTiled(
+  stages: TileStage[],
+  width: number,
+  height: number,
+  options: TiledRunOptions
+): Promise<void> {
+  const { tileSize, read, write, checkpoint, onProgress, region, layers = [] } = options;
+  const tiles = tileGrid({ x: 0, y: 0, width, height }, tileSize);
+  const outputTiles = region ? tileGrid(region, tileSize) : tiles;
+  const singleTile = !region && tiles.length === 1;
+
+  // Analysis passes: feed each analyzing stage the output of the stages in
+  // front of it. A single tile already spans the image, so there the
+  // analysis happens inline in the main pass instead.
+  const analyzing = singleTile
+    ? []
+    : [stages, ...layers.map(layer => layer.stages)].flatMap(list =>
+        list.flatMap((stage, index) => stage.analyze ? [{ prefix: list.slice(0, index), stage }] : [])
+      );
+  const totalPasses = analyzing.length + 1;
+
+  for (let pass = 0; pass < analyzing.length; pass++) {
+    const { prefix, stage } = analyzing[pass];
+
+    for (let index = 0; index < tiles.length; index++) {
+      const tile = await runStages(prefix, tiles[index], width, height, read, checkpoint, false);
+      stage.analyze?.(tile, tiles[index], width, height);
+      onProgress?.((pass + (index + 1) / tiles.length) / totalPasses);
+    }
+  }
+
+  for (let index = 0; index < outputTiles.length; index++) {
+    const output = outputTiles[index];
+    const tile = await runStages(stages, output, width, height, read, checkpoint, singleTile);
+
+    for (const layer of layers) {
+      // Layers that don't reach this tile are skipped
+      const weights = await layer.weights(output);
+      if (!weights.some(weight => weight > 0)) continue;
+      blendTile(tile, await runStages(layer.stages, output, width, height, read, checkpoint, singleTile), weights);
+    }
+
+    write(tile, output);
+    onProgress?.((analyzing.length + (index + 1) / outputTiles.length) / totalPasses);
+  }
+}
@@ -0,0 +1,158 @@
+import { SRGB_TO_LINEAR, linearLuminance, linearToSrgb, xyToLinearSrgb } from './colorSpace';
+
+// White balance as the colour temperature (Kelvin) of the light the image
+// is corrected for, plus a green-magenta tint. Gains are worked out and
+// applied in linear RGB.
+export interface WhiteBalance {
+  temperature: number;
+  tint: number;
+}
+
+export type WhiteBalanceEstimator = 'gray-world' | 'white-patch';
+
+// Daylight; the image is left as it is
+export const NEUTRAL_TEMPERATURE = 6500;
+export const MIN_TEMPERATURE = 2000;
+export const MAX_TEMPERATURE = 12000;
+export const MAX_TINT = 100;
+
+// Tint ±100 scales green by 2^∓0.5
+const TINT_STOPS = 200;
+// Share of the brightest unclipped pixels the white-patch estimator averages
+const WHITE_PATCH_FRACTION = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Chromaticity of a black body at `temperature` (Kim et al. cubic fit of
+// the Planckian locus)
+function planckianXy(temperature: number): [number, number] {
+  const t = temperature;
+  const x = t <= 4000
+    ? -0.2661239e9 / t ** 3 - 0.2343589e6 / t ** 2 + 0.8776956e3 / t + 0.179910
+    : -3.0258469e9 / t ** 3 + 2.1070379e6 / t ** 2 + 0.2226347e3 / t + 0.240390;
+  const y = t <= 2222
+    ? -1.1063814 * x ** 3 - 1.34811020 * x ** 2 + 2.18555832 * x - 0.20219683
+    : t <= 4000
+      ? -0.9549476 * x ** 3 - 1.37418593 * x ** 2 + 2.09137015 * x - 0.16748867
+      : 3.0817580 * x ** 3 - 5.87338670 * x ** 2 + 3.75112997 * x - 0.37001483;
+  return [x, y];
+}
+
+const illuminantRgb = (temperature: number) => xyToLinearSrgb(...planckianXy(clamp(temperature, MIN_TEMPERATURE, MAX_TEMPERATURE)));
+
+const NEUTRAL_RGB = illuminantRgb(NEUTRAL_TEMPERATURE);
+
+// Linear RGB multipliers that turn light of `temperature` into daylight.
+// They keep the luminance of grey, so only the colour changes.
+export function whiteBalanceGains(temperature: number, tint: number): [number, number, number] {
+  const light = illuminantRgb(temperature);
+  const gains = NEUTRAL_RGB.map((neutral, c) => neutral / light[c]) as [number, number, number];
+  gains[1] *= Math.pow(2, -tint / TINT_STOPS);
+
+  const scale = 1 / linearLuminance(...gains);
+  return gains.map(gain => gain * scale) as [number, number, number];
+}
+
+export const isNeutralWhiteBalance = (balance: WhiteBalance): boolean =>
+  balance.temperature === NEUTRAL_TEMPERATURE && balance.tint === 0;
+
+// Per-channel lookups for gamma-encoded levels
+export function buildWhiteBalanceLuts(balance: WhiteBalance): [Float32Array, Float32Array, Float32Array] {
+  const gains = whiteBalanceGains(balance.temperature, balance.tint);
+  return gains.map(gain => {
+    const lut = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+      lut[i] = linearToSrgb(Math.min(1, SRGB_TO_LINEAR[i] * gain)) * 255;
+    }
+    return lut;
+  }) as [Float32Array, Float32Array, Float32Array];
+}
+
+// The temperature and tint that turn the linear colour `neutral` grey. The
+// red/blue balance fixes the temperature, what's left of green the tint.
+export function whiteBalanceFromNeutral(neutral: [number, number, number]): WhiteBalance {
+  const [r, g, b] = neutral.map(value => Math.max(value, 1e-4));
+  const target = Math.log(b / r);
+  const redBlue = (temperature: number) => {
+    const [gr, , gb] = whiteBalanceGains(temperature, 0);
+    return Math.log(gr / gb);
+  };
+
+  // Red over blue gain rises with temperature
+  let low = MIN_TEMPERATURE;
+  let high = MAX_TEMPERATURE;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (redBlue(mid) < target) low = mid;
+    else high = mid;
+  }
+  const temperature = Math.round((low + high) / 20) * 10;
+
+  const [gr, gg, gb] = whiteBalanceGains(temperature, 0);
+  const green = (Math.sqrt(r * b) / g) / (gg / Math.sqrt(gr * gb));
+  const tint = Math.round(clamp(-TINT_STOPS * Math.log2(green), -MAX_TINT, MAX_TINT));
+  return { temperature, tint };
+}
+
+// White balance that makes the box of `radius` around (x, y) grey, for the
+// eyedropper
+export function sampleNeutral(imageData: ImageData, x: number, y: number, radius = 2): WhiteBalance {
+  const { data, width, height } = imageData;
+  const sum = [0, 0, 0];
+  let count = 0;
+
+  for (let sy = Math.max(0, Math.round(y) - radius); sy <= Math.min(height - 1, Math.round(y) + radius); sy++) {
+    for (let sx = Math.max(0, Math.round(x) - radius); sx <= Math.min(width - 1, Math.round(x) + radius); sx++) {
+      const i = (sy * width + sx) * 4;
+      for (let c = 0; c < 3; c++) sum[c] += SRGB_TO_LINEAR[data[i + c]];
+      count++;
+    }
+  }
+
+  if (count === 0) return { temperature: NEUTRAL_TEMPERATURE, tint: 0 };
+  return whiteBalanceFromNeutral(sum.map(value => value / count) as [number, number, number]);
+}
+
+// Automatic white balance. Gray world assumes the scene averages to grey;
+// white patch that its brightest surfaces are white. Clipped pixels have
+// lost their colour and are left out of both.
+export function estimateWhiteBalance(imageData: ImageData, estimator: WhiteBalanceEstimator): WhiteBalance {
+  const data = imageData.data;
+  const pixelCount = data.length / 4;
+  const luminance = new Float32Array(pixelCount);
+  const unclipped = new Uint8Array(pixelCount);
+
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    if (data[i] === 255 || data[i + 1] === 255 || data[i + 2] === 255) continue;
+    unclipped[p] = 1;
+    luminance[p] = linearLuminance(SRGB_TO_LINEAR[data[i]], SRGB_TO_LINEAR[data[i + 1]], SRGB_TO_LINEAR[data[i + 2]]);
+  }
+
+  // Threshold for the brightest pixels, from a luminance histogram
+  let threshold = 0;
+  if (estimator === 'white-patch') {
+    const bins = new Uint32Array(1024);
+    let total = 0;
+    for (let p = 0; p < pixelCount; p++) {
+      if (!unclipped[p]) continue;
+      bins[Math.min(1023, Math.floor(luminance[p] * 1024))]++;
+      total++;
+    }
+
+    let remaining = Math.max(1, Math.round(total * WHITE_PATCH_FRACTION));
+    let bin = 1023;
+    while (bin > 0 && remaining > bins[bin]) remaining -= bins[bin--];
+    threshold = bin / 1024;
+  }
+
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    if (!unclipped[p] || luminance[p] < threshold) continue;
+    for (let c = 0; c < 3; c++) sum[c] += SRGB_TO_LINEAR[data[i + c]];
+    count++;
+  }
+
+  if (count === 0) return { temperature: NEUTRAL_TEMPERATURE, tint: 0 };
+  return whiteBalanceFromNeutral(sum.map(value => value / count) as [number, number, number]);
+}
@@ -0,0 +1,107 @@
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  lastModified?: Date;
+}
+
+// Encoded images don't compress further, so entries are stored as-is
+const METHOD_STORE = 0;
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+const MAX_OFFSET = 0xffffffff;
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Crc of a blob, read in slices so large files are never held twice
+const blobCrc32 = async (blob: Blob): Promise<number> => {
+  const chunkSize = 16 * 1024 * 1024;
+  let crc = 0;
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    crc = crc32(new Uint8Array(await blob.slice(offset, offset + chunkSize).arrayBuffer()), crc);
+  }
+  return crc;
+};
+
+// Rename duplicates to `name (2).ext`, `name (3).ext`, ...
+const uniqueNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map(name => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = name.replace(/(\.[^.]*)?$/, ` (${n})$1`);
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+// Build an uncompressed ZIP archive. The archive is assembled from Blob
+// parts, so entry data is referenced rather than copied.
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const names = uniqueNames(entries.map(entry => entry.name));
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const { data, lastModified = new Date() } = entries[i];
+    const name = encoder.encode(names[i]);
+    const crc = await blobCrc32(data);
+    const { time, date } = dosDateTime(lastModified);
+
+    if (offset + 30 + name.length + data.size > MAX_OFFSET) {
+      throw new Error('Archive exceeds the 4 GB ZIP limit');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, VERSION, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, METHOD_STORE, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.size, true);
+    localView.setUint32(22, data.size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, VERSION, true);
+    centralView.setUint16(6, VERSION, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, METHOD_STORE, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.size, true);
+    centralView.setUint32(24, data.size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, data);
+    centralDirectory.push(central);
+    offset += local.length + data.size;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
@@ -0,0 +1,125 @@
+import { ClaheAnalysis, ImageProcessor, ProcessingSettings } from '../utils/imageProcessor';
+import { decodeImage, decodePreview } from '../utils/imageDecoder';
+import type { DemosaicAlgorithm, ImageSource } from '../utils/raster';
+import type { SourceFile, WorkerRequest, WorkerResponse } from './messages';
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+// Abort controllers of the jobs currently running in this worker
+const activeJobs = new Map<number, AbortController>();
+
+// The latest upload. Every post brings a new copy of the File, while the
+// decoder caches rasters by Blob identity, so later requests for the same
+// key are decoded from the first copy.
+let currentSource: SourceFile | null = null;
+
+const sourceFile = (source: SourceFile): Blob => {
+  if (currentSource?.key !== source.key) currentSource = source;
+  return currentSource.file;
+};
+
+// CLAHE curves of the latest region render. Panning and zooming render
+// other parts of the same picture with the same settings, which reuse them
+// instead of analysing the whole image again.
+let regionAnalyses: { key: number; settings: string; analyses: ClaheAnalysis[] } | null = null;
+
+const claheAnalyses = (source: SourceFile, settings: ProcessingSettings): ClaheAnalysis[] => {
+  const key = JSON.stringify(settings);
+  if (regionAnalyses?.key !== source.key || regionAnalyses.settings !== key) {
+    regionAnalyses = { key: source.key, settings: key, analyses: [] };
+  }
+  return regionAnalyses.analyses;
+};
+
+// With `fullPrecision`, 16-bit and raw sources are read from their raster
+// rather than the 8-bit bitmap the preview makes do with
+const loadSource = async (
+  source: SourceFile,
+  demosaic: DemosaicAlgorithm,
+  fullPrecision: boolean,
+  options?: ImageBitmapOptions
+): Promise<ImageSource> => {
+  try {
+    const { bitmap, raster } = await decodeImage(sourceFile(source), options, demosaic);
+    if (!raster || !fullPrecision) return bitmap;
+    bitmap.close();
+    return raster;
+  } catch {
+    throw new Error('Failed to load image');
+  }
+};
+
+// Decodes for display can't be cancelled half way, so they aren't tracked
+// as jobs. The bitmap is handed over rather than copied.
+const handleDecode = async ({ id, source, maxSize }: Extract<WorkerRequest, { type: 'decode' }>) => {
+  try {
+    const image = await decodePreview(sourceFile(source), maxSize);
+    self.postMessage({ type: 'decoded', id, image } satisfies WorkerResponse, { transfer: [image.bitmap] });
+  } catch {
+    post({ type: 'error', id, message: 'Failed to load image' });
+  }
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    activeJobs.get(request.id)?.abort();
+    return;
+  }
+  if (request.type === 'decode') {
+    await handleDecode(request);
+    return;
+  }
+
+  const { id, settings } = request;
+  const controller = new AbortController();
+  activeJobs.set(id, controller);
+
+  let source: ImageSource | null = null;
+  try {
+    let blob: Blob;
+    switch (request.type) {
+      case 'realtime':
+        source = await loadSource(request.source, settings.demosaic, false);
+        controller.signal.throwIfAborted();
+        // Previews always start from the 8-bit bitmap
+        if (!(source instanceof ImageBitmap)) throw new Error('Preview source must be a bitmap');
+        blob = await ImageProcessor.processImageRealtime(source, settings, controller.signal, request.encoding);
+        break;
+      case 'region':
+        source = await loadSource(request.source, settings.demosaic, true);
+        controller.signal.throwIfAborted();
+        blob = await ImageProcessor.processRegion(
+          source,
+          settings,
+          request.region,
+          request.encoding,
+          controller.signal,
+          claheAnalyses(request.source, settings)
+        );
+        break;
+      default:
+        source = await loadSource(request.source, settings.demosaic, true, request.decode);
+        controller.signal.throwIfAborted();
+        blob = await ImageProcessor.processImage(source, settings, request.encoding, (progress) => {
+          post({ type: 'progress', id, progress });
+        }, controller.signal);
+    }
+
+    post({ type: 'result', id, blob });
+  } catch (error) {
+    // The client has already settled cancelled jobs
+    if (controller.signal.aborted) return;
+
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : 'Image processing failed'
+    });
+  } finally {
+    activeJobs.delete(id);
+    // Rasters stay cached in the decoder; bitmaps are made per job
+    if (source instanceof ImageBitmap) source.close();
+  }
+};
@@ -0,0 +1,56 @@
+import type { ProcessingSettings } from '../utils/imageProcessor';
+import type { EncodeOptions } from '../utils/exportFormats';
+import type { Rect } from '../utils/tiling';
+import type { DecodedPreview } from '../utils/imageDecoder';
+
+// An upload as the worker receives it. Files are posted by reference and
+// decoded in the worker; `key` is the same every time a file is sent, so
+// the worker can hold on to what it decoded between requests.
+export interface SourceFile {
+  key: number;
+  file: Blob;
+}
+
+// Messages posted from the main thread to the processing worker
+export type WorkerRequest =
+  | {
+      type: 'process';
+      id: number;
+      source: SourceFile;
+      settings: ProcessingSettings;
+      encoding: EncodeOptions;
+      // How the source is decoded, e.g. without color conversion
+      decode?: ImageBitmapOptions;
+    }
+  | {
+      type: 'realtime';
+      id: number;
+      source: SourceFile;
+      settings: ProcessingSettings;
+      // Defaults to the WebP preview encoding
+      encoding?: EncodeOptions;
+    }
+  | {
+      type: 'region';
+      id: number;
+      source: SourceFile;
+      settings: ProcessingSettings;
+      // Output pixels to render
+      region: Rect;
+      encoding: EncodeOptions;
+    }
+  | {
+      type: 'decode';
+      id: number;
+      source: SourceFile;
+      // Longest side of the bitmap sent back; full size when left out
+      maxSize?: number;
+    }
+  | { type: 'cancel'; id: number };
+
+// Messages posted back from the processing worker
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; blob: Blob }
+  | { type: 'decoded'; id: number; image: DecodedPreview }
+  | { type: 'error'; id: number; message: string };
@@ -5,6 +5,6 @@ export default defineConfig({
   plugins: [react()],
   
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'onnxruntime-web'],
   },
 });